@@ -0,0 +1,340 @@
+/**
+ * API Proxy Server
+ *
+ * Keeps provider API keys on the server. The browser calls this service
+ * instead of RentCast / Bridge directly; the proxy adds the credentials,
+ * caches successful responses in memory and rate-limits each client.
+ *
+ * Routes (GET only):
+ *   /rentcast/markets, /rentcast/properties[/:id], /rentcast/avm/value
+ *   /zillow/marketreport
+ *   /health
+ *
+ * Environment:
+ *   PORT                       Listen port (default 8081)
+ *   RENTCAST_API_KEY           RentCast key (route disabled when unset)
+ *   ZILLOW_METRICS_API_KEY     Bridge access token (route disabled when unset)
+ *   PROXY_ALLOWED_ORIGINS      Comma-separated origins of the app (required;
+ *                              '*' allows any site to spend the quota)
+ *   PROXY_CACHE_TTL_SECONDS    Response cache lifetime (default 3600)
+ *   PROXY_CACHE_MAX_ENTRIES    Cached responses kept (default 500)
+ *   PROXY_RATE_LIMIT           Requests per client per window (default 60)
+ *   PROXY_RATE_WINDOW_SECONDS  Rate-limit window (default 60)
+ *   PROXY_TRUSTED_PROXIES      Proxies in front of this one that append to
+ *                              X-Forwarded-For (default 0: header ignored)
+ *
+ * Run with: node server/proxy.mjs
+ */
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8081;
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGINS || '')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+const CACHE_TTL_MS = (Number(process.env.PROXY_CACHE_TTL_SECONDS) || 3600) * 1000;
+const CACHE_MAX_ENTRIES = Number(process.env.PROXY_CACHE_MAX_ENTRIES) || 500;
+const RATE_LIMIT = Number(process.env.PROXY_RATE_LIMIT) || 60;
+const RATE_WINDOW_MS = (Number(process.env.PROXY_RATE_WINDOW_SECONDS) || 60) * 1000;
+const TRUSTED_PROXIES = Math.max(0, Math.floor(Number(process.env.PROXY_TRUSTED_PROXIES) || 0));
+const UPSTREAM_TIMEOUT_MS = 15000;
+
+// Upstream rate-limit headers describe the provider quota the app tracks
+const FORWARDED_HEADERS = [
+  'content-type',
+  'retry-after',
+  'x-ratelimit-limit',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+  'ratelimit-limit',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+];
+
+/**
+ * Upstream APIs the proxy may call
+ * `paths` lists the allowed path prefixes below each route.
+ */
+const UPSTREAMS = {
+  rentcast: {
+    baseURL: 'https://api.rentcast.io/v1',
+    paths: ['/markets', '/properties', '/avm/value'],
+    apiKey: process.env.RENTCAST_API_KEY || '',
+    authorize: (url, headers, apiKey) => {
+      headers['X-Api-Key'] = apiKey;
+    },
+  },
+  zillow: {
+    baseURL: 'https://api.bridgedataoutput.com/api/v2/zgecon',
+    paths: ['/marketreport'],
+    apiKey: process.env.ZILLOW_METRICS_API_KEY || '',
+    authorize: (url, headers, apiKey) => {
+      url.searchParams.set('access_token', apiKey);
+    },
+  },
+};
+
+/** @type {Map<string, { status: number, headers: Record<string, string>, body: Buffer, expiresAt: number }>} */
+const cache = new Map();
+/** @type {Map<string, { count: number, windowStart: number }>} */
+const clients = new Map();
+
+const log = (message, details = {}) => {
+  console.log(JSON.stringify({ time: new Date().toISOString(), message, ...details }));
+};
+
+/**
+ * Identify the calling client
+ * Each trusted proxy appends the address it saw to X-Forwarded-For, so the
+ * client is the entry added by the outermost trusted proxy. Entries before it
+ * come from the caller and are ignored, as is the whole header when no proxy
+ * is trusted.
+ */
+const getClientId = (req) => {
+  const socketAddress = req.socket.remoteAddress || 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUSTED_PROXIES === 0 || !forwarded) {
+    return socketAddress;
+  }
+
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  return hops[Math.max(0, hops.length - TRUSTED_PROXIES)] || socketAddress;
+};
+
+/**
+ * Count a request against the client's window
+ * Returns the seconds to wait when the client is over its limit.
+ */
+const checkRateLimit = (clientId, now) => {
+  let entry = clients.get(clientId);
+  if (!entry || now - entry.windowStart >= RATE_WINDOW_MS) {
+    entry = { count: 0, windowStart: now };
+    clients.set(clientId, entry);
+  }
+
+  entry.count++;
+  if (entry.count > RATE_LIMIT) {
+    return Math.ceil((entry.windowStart + RATE_WINDOW_MS - now) / 1000);
+  }
+  return 0;
+};
+
+/**
+ * Drop expired windows so idle clients do not accumulate
+ */
+const pruneClients = (now) => {
+  for (const [clientId, entry] of clients) {
+    if (now - entry.windowStart >= RATE_WINDOW_MS) {
+      clients.delete(clientId);
+    }
+  }
+};
+
+const getCached = (key, now) => {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= now) {
+    cache.delete(key);
+    return null;
+  }
+  // Re-insert to keep the Map in least-recently-used order
+  cache.delete(key);
+  cache.set(key, entry);
+  return entry;
+};
+
+const setCached = (key, entry) => {
+  cache.set(key, entry);
+  while (cache.size > CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value);
+  }
+};
+
+/**
+ * Check whether a browser request comes from an allowed origin
+ * Requests without an Origin header (same-origin GETs, curl) are not
+ * cross-site and pass. CORS alone would not stop other sites: the browser
+ * still sends their GETs and only hides the response, after the quota is spent.
+ */
+const isOriginAllowed = (req) => {
+  const origin = req.headers.origin;
+  return !origin || ALLOWED_ORIGINS.includes('*') || ALLOWED_ORIGINS.includes(origin);
+};
+
+const applyCors = (req, res) => {
+  const origin = req.headers.origin;
+  if (ALLOWED_ORIGINS.includes('*')) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+  } else if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+  }
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader(
+    'Access-Control-Expose-Headers',
+    [...FORWARDED_HEADERS.filter(name => name !== 'content-type'), 'x-proxy-cache'].join(', ')
+  );
+};
+
+const sendJSON = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Resolve a request path to an upstream URL, or null if it is not allowed
+ */
+const resolveUpstream = (requestURL) => {
+  const [, route, ...rest] = requestURL.pathname.split('/');
+  const upstream = UPSTREAMS[route];
+  if (!upstream) return null;
+
+  const path = `/${rest.join('/')}`;
+  const allowed = upstream.paths.some(prefix => path === prefix || path.startsWith(`${prefix}/`));
+  if (!allowed || path.includes('..')) return null;
+
+  const url = new URL(upstream.baseURL + path);
+  requestURL.searchParams.forEach((value, name) => {
+    // Clients never supply credentials
+    if (name !== 'access_token') {
+      url.searchParams.append(name, value);
+    }
+  });
+  url.searchParams.sort();
+
+  return { route, upstream, url };
+};
+
+/**
+ * Forward a request upstream, serving and filling the cache
+ */
+const forward = async (res, route, upstream, url) => {
+  const cacheKey = url.toString();
+  const now = Date.now();
+
+  const cached = getCached(cacheKey, now);
+  if (cached) {
+    log('cache hit', { route, path: url.pathname });
+    res.writeHead(cached.status, { ...cached.headers, 'X-Proxy-Cache': 'HIT' });
+    res.end(cached.body);
+    return;
+  }
+
+  const headers = { Accept: 'application/json' };
+  upstream.authorize(url, headers, upstream.apiKey);
+
+  const response = await fetch(url, {
+    headers,
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+  });
+  const body = Buffer.from(await response.arrayBuffer());
+
+  const forwardedHeaders = {};
+  FORWARDED_HEADERS.forEach(name => {
+    const value = response.headers.get(name);
+    if (value !== null) forwardedHeaders[name] = value;
+  });
+
+  log('forwarded', { route, path: url.pathname, status: response.status });
+
+  if (response.ok) {
+    // A cached copy costs no quota, so it does not replay the quota headers
+    setCached(cacheKey, {
+      status: response.status,
+      headers: { 'content-type': forwardedHeaders['content-type'] || 'application/json' },
+      body,
+      expiresAt: now + CACHE_TTL_MS,
+    });
+  }
+
+  res.writeHead(response.status, { ...forwardedHeaders, 'X-Proxy-Cache': 'MISS' });
+  res.end(body);
+};
+
+if (ALLOWED_ORIGINS.length === 0) {
+  log('refusing to start: PROXY_ALLOWED_ORIGINS is not set', {
+    hint: 'Set it to the app origin, e.g. PROXY_ALLOWED_ORIGINS=http://localhost:5173',
+  });
+  process.exit(1);
+}
+
+if (ALLOWED_ORIGINS.includes('*')) {
+  log('warning: PROXY_ALLOWED_ORIGINS=* lets any website spend the provider quota');
+}
+
+const server = http.createServer(async (req, res) => {
+  applyCors(req, res);
+
+  if (!isOriginAllowed(req)) {
+    log('origin rejected', { origin: req.headers.origin });
+    sendJSON(res, 403, { message: 'Origin not allowed' });
+    return;
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    sendJSON(res, 405, { message: 'Method not allowed' }, { Allow: 'GET, OPTIONS' });
+    return;
+  }
+
+  const requestURL = new URL(req.url || '/', 'http://proxy.local');
+
+  if (requestURL.pathname === '/health') {
+    sendJSON(res, 200, {
+      status: 'ok',
+      providers: Object.fromEntries(
+        Object.entries(UPSTREAMS).map(([route, upstream]) => [route, Boolean(upstream.apiKey)])
+      ),
+      cacheEntries: cache.size,
+    });
+    return;
+  }
+
+  const resolved = resolveUpstream(requestURL);
+  if (!resolved) {
+    sendJSON(res, 404, { message: 'Unknown route' });
+    return;
+  }
+
+  if (!resolved.upstream.apiKey) {
+    sendJSON(res, 503, { message: `The ${resolved.route} provider is not configured on the proxy` });
+    return;
+  }
+
+  const now = Date.now();
+  const retryAfter = checkRateLimit(getClientId(req), now);
+  if (retryAfter > 0) {
+    sendJSON(res, 429, { message: 'Too many requests. Please slow down.' }, { 'Retry-After': String(retryAfter) });
+    return;
+  }
+
+  try {
+    await forward(res, resolved.route, resolved.upstream, resolved.url);
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    log('upstream failed', { route: resolved.route, error: error instanceof Error ? error.message : String(error) });
+    sendJSON(res, timedOut ? 504 : 502, { message: timedOut ? 'Upstream timed out' : 'Upstream request failed' });
+  }
+});
+
+setInterval(() => pruneClients(Date.now()), RATE_WINDOW_MS).unref();
+
+server.listen(PORT, () => {
+  log('proxy listening', {
+    port: PORT,
+    providers: Object.keys(UPSTREAMS).filter(route => UPSTREAMS[route].apiKey),
+    cacheTtlSeconds: CACHE_TTL_MS / 1000,
+    rateLimit: `${RATE_LIMIT}/${RATE_WINDOW_MS / 1000}s`,
+    allowedOrigins: ALLOWED_ORIGINS,
+  });
+});
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { MarketCard } from './components/MarketCard';
 import { MarketCardSkeletonGrid } from './components/MarketCardSkeleton';
 import { PriceChart } from './components/PriceChart';
@@ -10,42 +10,61 @@ import { CacheManager } from './components/CacheManager';
 import { CacheMigration } from './components/CacheMigration';
 import { SettingsPanel } from './components/SettingsPanel';
 import { LoadingProgress } from './components/LoadingProgress';
+import { MarketBrowser } from './components/MarketBrowser';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { LogConsole } from './components/LogConsole';
+import { ProviderErrorNotice } from './components/ProviderErrorNotice';
 import { useMarketData } from './hooks/useMarketData';
-import { isAPIConfigured } from './services/api';
+import { useWatchlist } from './hooks/useWatchlist';
+import { useFeaturedMarkets } from './hooks/useFeaturedMarkets';
+import { useDataProvider } from './hooks/useDataProvider';
+import { useProviderHealth } from './hooks/useProviderHealth';
+import { transformMarketStats } from './utils/dataTransform';
+import { isSyntheticDataAllowed } from './utils/syntheticData';
 import type { MarketPriceData, TimeRange, Market } from './types';
 import packageJson from '../package.json';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('App');
 
 function App() {
+  const { providerType } = useDataProvider();
   const [selectedMarket, setSelectedMarket] = useState<MarketPriceData | null>(null);
+  // Watchlist entry shown in the chart (its live data may still be loading)
+  const [selectedWatchlistId, setSelectedWatchlistId] = useState<string | null>(null);
   const [timeRange, setTimeRange] = useState<TimeRange>('1Y');
-  const [dataSource, setDataSource] = useState<'api' | 'mock' | 'partial'>('mock');
 
   // Fetch market data using the custom hook
-  const { data: marketData, loading, error, forceRefresh } = useMarketData();
-
-  // Determine data source based on API configuration and data
-  useEffect(() => {
-    if (!isAPIConfigured()) {
-      setDataSource('mock');
-    } else if (marketData.length > 0) {
-      // If API is configured and we have data, assume it's from API
-      // (In a real app, we'd track this more explicitly)
-      setDataSource('api');
-    }
-  }, [marketData]);
+  const featured = useFeaturedMarkets();
+  const { data: marketData, loading, error, forceRefresh } = useMarketData(featured.featuredMarkets);
+  const watchlist = useWatchlist(marketData);
+  const providerHealth = useProviderHealth();
 
   const handleMarketClick = (market: MarketPriceData) => {
+    setSelectedWatchlistId(null);
     setSelectedMarket(market);
   };
 
   const handleSelectMarket = (market: Market) => {
-    console.log('Selected market:', market);
+    log.debug('Selected market', market);
+  };
+
+  const handleToggleWatchlist = (market: MarketPriceData) => {
+    watchlist.toggle({ marketId: market.marketId, marketName: market.marketName });
   };
 
-  const handleAddToWatchlist = () => {
-    console.log('Add to watchlist clicked');
+  const handleSelectWatchlistMarket = (marketId: string) => {
+    setSelectedWatchlistId(marketId);
   };
 
+  // A watchlist selection follows its live data as it loads
+  const watchlistItem = selectedWatchlistId
+    ? watchlist.items.find(item => item.marketId === selectedWatchlistId)
+    : undefined;
+  const watchlistStatus = watchlistItem ? watchlist.getLiveStatus(watchlistItem.marketId) : null;
+  const chartMarket = watchlistItem ? watchlist.liveData[watchlistItem.marketId] ?? null : selectedMarket;
+  const chartTitle = chartMarket?.marketName ?? watchlistItem?.marketName;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Loading Progress Overlay */}
@@ -62,7 +81,7 @@ function App() {
               <h1 className="text-2xl font-bold text-gray-900">
                 Housing Market Data
               </h1>
-              <ApiStatusIndicator hasError={!!error} dataSource={dataSource} />
+              <ApiStatusIndicator hasError={!!error} markets={marketData} health={providerHealth} />
             </div>
             <div className="text-sm text-gray-500">
               POC Phase 2 <span className="text-gray-400">v{packageJson.version}</span>
@@ -80,7 +99,16 @@ function App() {
               <SettingsPanel />
               <MarketSearch onSelectMarket={handleSelectMarket} />
               <CacheManager onClearCache={forceRefresh} />
-              <WatchlistPanel onSelectMarket={(id) => console.log('Watchlist select:', id)} />
+              <DiagnosticsPanel />
+              <LogConsole />
+              <WatchlistPanel
+                items={watchlist.items}
+                liveData={watchlist.liveData}
+                onSelectMarket={handleSelectWatchlistMarket}
+                onRemove={watchlist.remove}
+                onMove={watchlist.move}
+                onUpdateNotes={watchlist.updateNotes}
+              />
             </div>
           </aside>
 
@@ -88,22 +116,9 @@ function App() {
           <div className="lg:col-span-3 space-y-4 sm:space-y-6">
             {/* Error Message */}
             {error && (
-              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 animate-slideIn">
-                <div className="flex items-start gap-3">
-                  <span className="text-yellow-600 text-xl flex-shrink-0">⚠️</span>
-                  <div className="flex-1">
-                    <p className="text-sm font-medium text-yellow-900 mb-1">
-                      Data Loading Issue
-                    </p>
-                    <p className="text-sm text-yellow-800">
-                      {error}
-                    </p>
-                    <p className="text-xs text-yellow-700 mt-2">
-                      Showing sample data for demonstration. Try uploading a CSV file or checking your API configuration.
-                    </p>
-                  </div>
-                </div>
-              </div>
+              <ProviderErrorNotice error={error}>
+                {isSyntheticDataAllowed() && 'Showing sample data for demonstration.'}
+              </ProviderErrorNotice>
             )}
 
             {/* Market Cards Grid */}
@@ -127,7 +142,8 @@ function App() {
                       key={market.marketId}
                       market={market}
                       onClick={() => handleMarketClick(market)}
-                      onAddToWatchlist={handleAddToWatchlist}
+                      onAddToWatchlist={() => handleToggleWatchlist(market)}
+                      isInWatchlist={watchlist.isInWatchlist(market.marketId)}
                     />
                   ))}
                 </div>
@@ -141,22 +157,42 @@ function App() {
               )}
             </section>
 
+            {/* All Markets Browser (CSV data) */}
+            {providerType === 'csv' && (
+              <section>
+                <MarketBrowser
+                  onSelectMarket={(stats) => handleMarketClick(transformMarketStats(stats))}
+                  isFeatured={featured.isFeatured}
+                  onToggleFeatured={featured.toggleFeatured}
+                  onResetFeatured={featured.resetFeatured}
+                  hasCustomFeatured={featured.featuredIds.length > 0}
+                />
+              </section>
+            )}
+
             {/* Chart Section */}
-            {selectedMarket && (
+            {chartTitle && (
               <section className="space-y-3 sm:space-y-4 animate-fadeIn">
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
                   <h2 className="text-lg sm:text-xl font-semibold text-gray-900">
-                    {selectedMarket.marketName}
+                    {chartTitle}
                   </h2>
                   <TimeRangeSelector
                     selected={timeRange}
                     onChange={(range) => setTimeRange(range as TimeRange)}
                   />
                 </div>
-                <PriceChart
-                  data={selectedMarket.historicalData}
-                  timeRange={timeRange}
-                />
+                {watchlistStatus === 'unavailable' ? (
+                  <div className="bg-gray-50 rounded-lg p-8 text-center">
+                    <p className="text-gray-500">The current data source has no data for {chartTitle}</p>
+                  </div>
+                ) : (
+                  <PriceChart
+                    data={chartMarket?.historicalData ?? []}
+                    timeRange={timeRange}
+                    loading={watchlistStatus === 'loading'}
+                  />
+                )}
               </section>
             )}
           </div>
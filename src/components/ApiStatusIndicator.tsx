@@ -1,81 +1,113 @@
-import { createProvider, getProviderType } from '../services/providers';
+import type { MarketPriceData } from '../types';
+import type { MarketSourceAttribution } from '../services/providers';
+import type { ProviderHealth, ProviderHealthStatus } from '../utils/providerTelemetry';
 
 interface ApiStatusIndicatorProps {
   hasError: boolean;
-  dataSource: 'api' | 'mock' | 'partial';
+  markets: MarketPriceData[];
+  health?: ProviderHealth | null;   // Latest health check of the active provider
 }
 
-export const ApiStatusIndicator = ({ hasError, dataSource }: ApiStatusIndicatorProps) => {
-  const provider = createProvider();
-  const providerType = getProviderType();
-  const isConfigured = provider.isConfigured();
+const HEALTH_DOT_COLORS: Record<ProviderHealthStatus, string> = {
+  healthy: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  down: 'bg-red-500',
+  unknown: 'bg-gray-300',
+  unconfigured: 'bg-gray-400',
+};
+
+interface SourceCount {
+  source: MarketSourceAttribution;
+  count: number;
+}
+
+/**
+ * Count the displayed markets per answering provider
+ */
+function countSources(markets: MarketPriceData[]): SourceCount[] {
+  const counts = new Map<string, SourceCount>();
+
+  markets.forEach(market => {
+    if (!market.source) return;
+    const entry = counts.get(market.source.providerId);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(market.source.providerId, { source: market.source, count: 1 });
+    }
+  });
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+export const ApiStatusIndicator = ({ hasError, markets, health }: ApiStatusIndicatorProps) => {
+  const sources = countSources(markets);
+  const realSources = sources.filter(entry => !entry.source.isMock);
+  const hasMock = sources.some(entry => entry.source.isMock);
 
-  // Determine status based on configuration and data source
-  let status: 'live' | 'mock' | 'error' | 'partial';
+  // Determine status from where the displayed markets actually came from
   let icon: string;
   let label: string;
   let colorClasses: string;
 
   if (hasError) {
-    status = 'error';
     icon = '🔴';
     label = 'API Error';
     colorClasses = 'bg-red-100 text-red-800 border-red-300';
-  } else if (providerType === 'mock') {
-    status = 'mock';
-    icon = provider.info.icon;
-    label = provider.info.name;
+  } else if (sources.length === 0) {
+    icon = '⏳';
+    label = 'No Data';
+    colorClasses = 'bg-gray-100 text-gray-800 border-gray-300';
+  } else if (realSources.length === 0) {
+    icon = sources[0].source.icon;
+    label = sources[0].source.providerName;
     colorClasses = 'bg-yellow-100 text-yellow-800 border-yellow-300';
-  } else if (!isConfigured) {
-    status = 'mock';
-    icon = '🟡';
-    label = 'Not Configured';
-    colorClasses = 'bg-yellow-100 text-yellow-800 border-yellow-300';
-  } else if (dataSource === 'partial') {
-    status = 'partial';
-    icon = '🟠';
-    label = `Partial ${provider.info.name}`;
-    colorClasses = 'bg-orange-100 text-orange-800 border-orange-300';
-  } else if (dataSource === 'api') {
-    status = 'live';
-    icon = provider.info.icon;
-    label = provider.info.name;
-    colorClasses = 'bg-green-100 text-green-800 border-green-300';
+  } else if (hasMock || realSources.length > 1) {
+    icon = hasMock ? '🟠' : realSources[0].source.icon;
+    label = hasMock
+      ? `Partial ${realSources[0].source.providerName}`
+      : `${realSources.length} Sources`;
+    colorClasses = hasMock
+      ? 'bg-orange-100 text-orange-800 border-orange-300'
+      : 'bg-green-100 text-green-800 border-green-300';
   } else {
-    status = 'mock';
-    icon = provider.info.icon;
-    label = provider.info.name;
-    colorClasses = 'bg-yellow-100 text-yellow-800 border-yellow-300';
+    icon = realSources[0].source.icon;
+    label = realSources[0].source.providerName;
+    colorClasses = 'bg-green-100 text-green-800 border-green-300';
   }
 
   return (
     <div
       className={`inline-flex items-center gap-2 px-3 py-1 rounded-full border text-xs font-medium ${colorClasses}`}
-      title={getTooltipText(status, provider.info, isConfigured)}
+      title={getTooltipText(hasError, sources, health)}
     >
       <span>{icon}</span>
       <span>{label}</span>
+      {health && (
+        <span
+          className={`w-2 h-2 rounded-full ${HEALTH_DOT_COLORS[health.status]}`}
+          aria-label={`Provider ${health.status}`}
+        />
+      )}
     </div>
   );
 };
 
-function getTooltipText(
-  status: 'live' | 'mock' | 'error' | 'partial',
-  providerInfo: { name: string; description: string },
-  isConfigured: boolean
-): string {
-  switch (status) {
-    case 'live':
-      return `Connected to ${providerInfo.name} - ${providerInfo.description}`;
-    case 'mock':
-      return isConfigured
-        ? `${providerInfo.name} configured but using mock data as fallback`
-        : `${providerInfo.name} not configured - Check .env file`;
-    case 'error':
-      return 'API request failed - Showing cached/mock data';
-    case 'partial':
-      return `Some ${providerInfo.name} calls succeeded - Using mix of real and mock data`;
-    default:
-      return 'Data source unknown';
+function getTooltipText(hasError: boolean, sources: SourceCount[], health?: ProviderHealth | null): string {
+  const healthLine = health
+    ? `\nHealth: ${health.status} - ${health.message} (checked ${health.checkedAt.toLocaleTimeString()})`
+    : '';
+
+  if (hasError) {
+    return `API request failed - Showing cached/mock data${healthLine}`;
   }
+  if (sources.length === 0) {
+    return `Data source unknown${healthLine}`;
+  }
+
+  return sources
+    .map(({ source, count }) =>
+      `${source.providerName}${source.isMock ? ' (sample data)' : ''}: ${count} market${count === 1 ? '' : 's'}`
+    )
+    .join('\n') + healthLine;
 }
@@ -0,0 +1,203 @@
+/**
+ * CSV Column Mapper Component
+ *
+ * Mapping wizard shown before importing a CSV file with an unrecognised
+ * schema. Previews the first rows and lets the user assign each column to a
+ * MarketStats field, optionally saving the mapping as a named preset.
+ */
+
+import { useState } from 'react';
+import {
+  MARKET_FIELD_OPTIONS,
+  getMissingRequiredFields,
+  type ColumnMappingPreset,
+  type CSVColumnMapping,
+  type MarketFieldPath,
+} from '../utils/csvColumnMapping';
+
+interface CSVColumnMapperProps {
+  filename: string;
+  headers: string[];      // Normalized headers (mapping keys)
+  rawHeaders: string[];   // Headers as they appear in the file
+  rows: string[][];
+  initialMapping: CSVColumnMapping;
+  appliedPreset?: string;
+  presets: ColumnMappingPreset[];
+  onConfirm: (mapping: CSVColumnMapping, presetName?: string) => void;
+  onCancel: () => void;
+  onDeletePreset: (name: string) => void;
+}
+
+const FIELD_GROUPS = ['Market', 'Sale data', 'Rental data'] as const;
+
+// Sample values shown per column
+const PREVIEW_ROWS = 3;
+
+export const CSVColumnMapper = ({
+  filename,
+  headers,
+  rawHeaders,
+  rows,
+  initialMapping,
+  appliedPreset,
+  presets,
+  onConfirm,
+  onCancel,
+  onDeletePreset,
+}: CSVColumnMapperProps) => {
+  const [mapping, setMapping] = useState<CSVColumnMapping>(initialMapping);
+  const [savePreset, setSavePreset] = useState(false);
+  const [presetName, setPresetName] = useState(appliedPreset || '');
+
+  const missingFields = getMissingRequiredFields(mapping);
+  const canConfirm = missingFields.length === 0 && (!savePreset || presetName.trim() !== '');
+
+  // Each field can only be assigned to one column
+  const handleFieldChange = (header: string, path: MarketFieldPath | '') => {
+    setMapping(prev => {
+      const next: CSVColumnMapping = {};
+      Object.entries(prev).forEach(([key, value]) => {
+        if (key !== header && value !== path) {
+          next[key] = value;
+        }
+      });
+      if (path) {
+        next[header] = path;
+      }
+      return next;
+    });
+  };
+
+  const handleApplyPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (!preset) return;
+
+    // Only keep mappings for columns present in this file
+    const next: CSVColumnMapping = {};
+    headers.forEach(header => {
+      if (preset.mapping[header]) {
+        next[header] = preset.mapping[header];
+      }
+    });
+    setMapping(next);
+    setPresetName(preset.name);
+  };
+
+  const handleConfirm = () => {
+    onConfirm(mapping, savePreset ? presetName.trim() : undefined);
+  };
+
+  return (
+    <div className="border border-indigo-200 rounded px-3 py-2 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-medium text-gray-900 truncate">Map columns in {filename}</p>
+        {presets.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => handleApplyPreset(e.target.value)}
+            className="text-xs border border-gray-300 rounded px-1 py-0.5"
+          >
+            <option value="">Apply preset…</option>
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {appliedPreset && (
+        <p className="text-xs text-blue-700 bg-blue-50 border border-blue-200 rounded px-2 py-1">
+          Preset "{appliedPreset}" applied automatically.{' '}
+          <button
+            onClick={() => onDeletePreset(appliedPreset)}
+            className="text-blue-600 hover:text-blue-800 underline"
+          >
+            Forget preset
+          </button>
+        </p>
+      )}
+
+      <div className="max-h-64 overflow-y-auto border border-gray-200 rounded">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr className="text-left text-gray-600">
+              <th className="px-2 py-1 font-medium">Column</th>
+              <th className="px-2 py-1 font-medium">Field</th>
+              <th className="px-2 py-1 font-medium">Preview</th>
+            </tr>
+          </thead>
+          <tbody>
+            {headers.map((header, index) => (
+              <tr key={header + index} className="border-t border-gray-100 align-top">
+                <td className="px-2 py-1 text-gray-900 font-medium">{rawHeaders[index] || header}</td>
+                <td className="px-2 py-1">
+                  <select
+                    value={mapping[header] || ''}
+                    onChange={(e) => handleFieldChange(header, e.target.value as MarketFieldPath | '')}
+                    className="w-full text-xs border border-gray-300 rounded px-1 py-0.5"
+                  >
+                    <option value="">— Ignore —</option>
+                    {FIELD_GROUPS.map(group => (
+                      <optgroup key={group} label={group}>
+                        {MARKET_FIELD_OPTIONS.filter(option => option.group === group).map(option => (
+                          <option key={option.path} value={option.path}>{option.label}</option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-2 py-1 text-gray-500">
+                  {rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                    <span key={rowIndex} className="block truncate max-w-[8rem]">{row[index] || '—'}</span>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missingFields.length > 0 && (
+        <p className="text-xs text-red-700">
+          Assign a column to: {missingFields.map(path => MARKET_FIELD_OPTIONS.find(o => o.path === path)?.label).join(', ')}
+        </p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-1 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            checked={savePreset}
+            onChange={(e) => setSavePreset(e.target.checked)}
+          />
+          Save as preset
+        </label>
+        {savePreset && (
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            className="flex-1 text-xs border border-gray-300 rounded px-2 py-0.5"
+          />
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleConfirm}
+          disabled={!canConfirm}
+          className="px-3 py-1 text-xs font-medium text-white bg-indigo-600 rounded hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Validate file
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+/**
+ * CSV Dataset Library Component
+ *
+ * Lists stored CSV datasets and lets the user switch the active dataset,
+ * delete datasets, or merge several into one virtual dataset.
+ */
+
+import { useState } from 'react';
+import { CSV_FORMAT_LABELS } from '../utils/csvParser';
+import type { CSVDatasetInfo } from '../utils/csvDatasetLibrary';
+
+interface CSVDatasetLibraryProps {
+  datasets: CSVDatasetInfo[];
+  activeId: string | null;
+  disabled?: boolean;
+  onActivate: (datasetId: string) => void;
+  onDelete: (datasetId: string) => void;
+  onMerge: (datasetIds: string[], name: string) => void;
+}
+
+export const CSVDatasetLibrary = ({
+  datasets,
+  activeId,
+  disabled = false,
+  onActivate,
+  onDelete,
+  onMerge,
+}: CSVDatasetLibraryProps) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeName, setMergeName] = useState('');
+
+  // Drop selections of datasets that no longer exist
+  const selection = selectedIds.filter(id => datasets.some(d => d.id === id));
+
+  const toggleSelected = (datasetId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(datasetId) ? prev.filter(id => id !== datasetId) : [...prev, datasetId]
+    );
+  };
+
+  const handleMerge = () => {
+    const names = selection.map(id => datasets.find(d => d.id === id)?.name).join(' + ');
+    onMerge(selection, mergeName.trim() || names);
+    setSelectedIds([]);
+    setMergeName('');
+  };
+
+  const describe = (dataset: CSVDatasetInfo): string => {
+    const parts = [
+      dataset.kind === 'merged'
+        ? `Merge of ${dataset.sourceIds.length}`
+        : dataset.format ? CSV_FORMAT_LABELS[dataset.format] : 'CSV',
+      `${dataset.marketCount.toLocaleString()} markets`,
+    ];
+    if (dataset.kind === 'file' && dataset.rowCount > 0) {
+      parts.push(`${dataset.rowCount.toLocaleString()} rows`);
+    }
+    if (dataset.dateRange) {
+      parts.push(
+        dataset.dateRange.start === dataset.dateRange.end
+          ? dataset.dateRange.end
+          : `${dataset.dateRange.start} – ${dataset.dateRange.end}`
+      );
+    }
+    return parts.join(' • ');
+  };
+
+  if (datasets.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="text-xs" open={datasets.length > 1}>
+      <summary className="cursor-pointer font-medium text-gray-700 hover:text-gray-900">
+        Datasets ({datasets.length})
+      </summary>
+
+      <ul className="mt-2 space-y-1">
+        {[...datasets].reverse().map(dataset => {
+          const isActive = dataset.id === activeId;
+          return (
+            <li
+              key={dataset.id}
+              className={`flex items-start gap-2 border rounded px-2 py-1 ${isActive ? 'border-indigo-300 bg-indigo-50' : 'border-gray-200'}`}
+            >
+              <input
+                type="checkbox"
+                checked={selection.includes(dataset.id)}
+                onChange={() => toggleSelected(dataset.id)}
+                disabled={disabled}
+                className="mt-0.5"
+                title="Select for merging"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate" title={dataset.name}>
+                  {dataset.kind === 'merged' ? '🔗 ' : ''}{dataset.name}
+                </p>
+                <p className="text-gray-500">{describe(dataset)}</p>
+                <p className="text-gray-400">
+                  {new Date(dataset.createdAt).toLocaleString()}
+                  {dataset.dataSource === 'default' ? ' • Default data' : ''}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {isActive ? (
+                  <span className="text-indigo-700 font-medium">Active</span>
+                ) : (
+                  <button
+                    onClick={() => onActivate(dataset.id)}
+                    disabled={disabled}
+                    className="text-indigo-600 hover:text-indigo-800 font-medium disabled:text-gray-400"
+                  >
+                    Use
+                  </button>
+                )}
+                <button
+                  onClick={() => onDelete(dataset.id)}
+                  disabled={disabled}
+                  className="text-gray-400 hover:text-red-600 disabled:text-gray-300"
+                  title="Delete dataset"
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {selection.length >= 2 && (
+        <div className="mt-2 space-y-1">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={mergeName}
+              onChange={(e) => setMergeName(e.target.value)}
+              placeholder="Merged dataset name"
+              className="flex-1 border border-gray-300 rounded px-2 py-0.5"
+            />
+            <button
+              onClick={handleMerge}
+              disabled={disabled}
+              className="px-2 py-0.5 font-medium text-white bg-indigo-600 rounded hover:bg-indigo-700 disabled:bg-gray-300"
+            >
+              Merge {selection.length}
+            </button>
+          </div>
+          <p className="text-gray-500">
+            Markets in several datasets use the first selected dataset, with gaps filled from the others.
+          </p>
+        </div>
+      )}
+    </details>
+  );
+};
@@ -3,93 +3,261 @@
  *
  * Allows users to upload a CSV file containing housing market data.
  * Shows upload status, file info, and provides download template option.
+ * Uploaded files go through a column-mapping step (skipped for Zillow ZHVI files)
+ * and are validated; the import is only committed after the user reviews the
+ * validation report.
  */
 
-import { useState, useRef } from 'react';
-import { CSVProvider } from '../services/providers';
-import { generateSampleCSV } from '../utils/csvParser';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { getCSVProvider, ProviderError, type StagedCSVImport } from '../services/providers';
+import { detectCSVFormat, generateSampleCSV } from '../utils/csvParser';
+import { buildRejectedRowsCSV } from '../utils/csvValidation';
+import {
+  readCSVPreview,
+  suggestColumnMapping,
+  type CSVColumnMapping,
+} from '../utils/csvColumnMapping';
+import { useColumnMappingPresets } from '../hooks/useColumnMappingPresets';
+import { CSVColumnMapper } from './CSVColumnMapper';
+import { CSVDatasetLibrary } from './CSVDatasetLibrary';
+import type { CSVDatasetInfo } from '../utils/csvDatasetLibrary';
+import { CSVValidationSummary } from './CSVValidationSummary';
+import { ProviderErrorNotice } from './ProviderErrorNotice';
+import { isAbortError } from '../utils/abort';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('CSV Upload');
 
 interface CSVUploadProps {
   onUploadSuccess?: () => void;
 }
 
+/**
+ * A selected file waiting for its columns to be mapped
+ */
+interface PendingMapping {
+  file: File;
+  headers: string[];
+  rawHeaders: string[];
+  rows: string[][];
+  mapping: CSVColumnMapping;
+  appliedPreset?: string;
+}
+
+/**
+ * Keep provider errors whole so their remediation can be shown
+ */
+const toErrorState = (err: unknown, fallback: string): ProviderError | string =>
+  err instanceof ProviderError ? err : err instanceof Error ? err.message : fallback;
+
+/**
+ * Trigger a browser download of text content
+ */
+const downloadCSV = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<string>('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ProviderError | string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [provider] = useState(() => new CSVProvider());
+  const [staged, setStaged] = useState<StagedCSVImport | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
+  const { presets, findPreset, savePreset, deletePreset } = useColumnMappingPresets();
+  const [datasets, setDatasets] = useState<CSVDatasetInfo[]>([]);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
+  // Shared with the dashboard, so dataset changes apply without a reload
+  const provider = getCSVProvider();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Cancels the parse or download in progress
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Mirror the provider's dataset library into state so the list re-renders
+  const refreshLibrary = useCallback(() => {
+    setDatasets([...provider.getDatasets()]);
+    setActiveDatasetId(provider.getActiveDatasetId());
+  }, [provider]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    provider.waitForDataLoad(controller.signal).then(refreshLibrary, () => {});
+
+    return () => {
+      controller.abort();
+      abortControllerRef.current?.abort();
+    };
+  }, [provider, refreshLibrary]);
+
+  /**
+   * Start a cancellable operation, cancelling any previous one
+   */
+  const startOperation = (): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleCancelOperation = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setUploading(false);
+    setUploadProgress('');
+  };
+
+  /**
+   * Parse and validate a file into a staged import awaiting review
+   */
+  const stageFile = async (file: File, columnMapping?: CSVColumnMapping) => {
+    const signal = startOperation();
+    setUploading(true);
+    setUploadProgress('Reading file...');
+
+    try {
+      const stagedImport = await provider.stageCSVFile(file, (progress) => {
+        const percent = progress.totalBytes > 0
+          ? ` (${Math.round((progress.bytesLoaded / progress.totalBytes) * 100)}%)`
+          : '';
+        setUploadProgress(`Parsed ${progress.rowsProcessed.toLocaleString()} rows${percent}...`);
+      }, { columnMapping }, signal);
+
+      setStaged(stagedImport);
+      log.info(
+        'File validated, awaiting review',
+        { accepted: stagedImport.report.acceptedRows, rejected: stagedImport.report.rejectedRows }
+      );
+    } catch (err) {
+      if (isAbortError(err)) {
+        log.info('Parsing cancelled');
+        return;
+      }
+      setError(toErrorState(err, 'Unknown error occurred'));
+      log.error('Upload error', err);
+    } finally {
+      if (!signal.aborted) {
+        setUploading(false);
+        setUploadProgress('');
+      }
+    }
+  };
 
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    setUploading(true);
+    // Reset file input so the same file can be chosen again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+
+    // Selecting another file replaces any import awaiting review
+    await staged?.discard();
+    setStaged(null);
+    setPendingMapping(null);
+
     setError(null);
     setSuccess(null);
-    setUploadProgress('Reading file...');
 
-    console.log(
-      '%c[CSV Upload] File selected',
-      'color: #8B5CF6; font-weight: bold',
-      { name: file.name, size: file.size, type: file.type }
-    );
+    log.info('File selected', { name: file.name, size: file.size, type: file.type });
+
+    try {
+      const preview = await readCSVPreview(file);
+
+      // Zillow, Redfin, Realtor.com and long-format files are recognised as-is
+      if (detectCSVFormat(preview.headers) !== 'simple') {
+        await stageFile(file);
+        return;
+      }
+
+      const preset = findPreset(preview.headers);
+
+      if (preset) {
+        log.info('Applying saved column mapping', { preset: preset.name });
+      }
+
+      setPendingMapping({
+        file,
+        ...preview,
+        mapping: preset ? preset.mapping : suggestColumnMapping(preview.headers),
+        appliedPreset: preset?.name,
+      });
+    } catch (err) {
+      setError(toErrorState(err, 'Unknown error occurred'));
+      log.error('Failed to read file', err);
+    }
+  };
+
+  const handleConfirmMapping = async (mapping: CSVColumnMapping, presetName?: string) => {
+    if (!pendingMapping) return;
+
+    if (presetName) {
+      savePreset(presetName, pendingMapping.headers, mapping);
+    }
+
+    const { file } = pendingMapping;
+    setPendingMapping(null);
+    await stageFile(file, mapping);
+  };
+
+  const handleDeletePreset = (name: string) => {
+    deletePreset(name);
+    setPendingMapping(prev => prev && prev.appliedPreset === name ? { ...prev, appliedPreset: undefined } : prev);
+  };
+
+  const handleConfirmImport = async () => {
+    if (!staged) return;
+
+    setUploading(true);
+    setError(null);
+    setUploadProgress('Importing markets...');
 
     try {
-      // Simulate progress steps for better UX
-      setTimeout(() => setUploadProgress('Validating format...'), 200);
-      setTimeout(() => setUploadProgress('Parsing data...'), 400);
-
-      const result = await provider.uploadCSVFile(file);
-
-      if (result.success) {
-        setSuccess(`Successfully loaded ${result.markets} markets from ${file.name}`);
-        console.log(
-          '%c[CSV Upload] ✓ Upload successful',
-          'color: #10B981; font-weight: bold',
-          { markets: result.markets }
-        );
-
-        // Call success callback
-        if (onUploadSuccess) {
-          onUploadSuccess();
-        }
-      } else {
-        setError(result.error || 'Failed to upload CSV file');
-        console.error(
-          '%c[CSV Upload] Upload failed',
-          'color: #EF4444; font-weight: bold',
-          result.error
-        );
+      const markets = await staged.commit();
+      refreshLibrary();
+      setSuccess(`Successfully loaded ${markets} markets from ${staged.filename}`);
+      log.info('✓ Upload successful', { markets });
+
+      // Call success callback
+      if (onUploadSuccess) {
+        onUploadSuccess();
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(errorMessage);
-      console.error('%c[CSV Upload] Upload error', 'color: #EF4444; font-weight: bold', err);
+      setError(toErrorState(err, 'Failed to import CSV file'));
+      log.error('Import failed', err);
     } finally {
+      setStaged(null);
       setUploading(false);
       setUploadProgress('');
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
     }
   };
 
+  const handleCancelImport = async () => {
+    await staged?.discard();
+    setStaged(null);
+  };
+
+  const handleDownloadRejected = () => {
+    if (!staged) return;
+
+    const baseName = staged.filename.replace(/\.[^.]+$/, '');
+    downloadCSV(buildRejectedRowsCSV(staged.report), `${baseName}-rejected-rows.csv`);
+
+    log.info('Rejected rows downloaded', { rows: staged.report.rejectedRows });
+  };
+
   const handleDownloadTemplate = () => {
-    const csvContent = generateSampleCSV();
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'housing-data-template.csv';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-
-    console.log('%c[CSV Upload] Template downloaded', 'color: #8B5CF6');
+    downloadCSV(generateSampleCSV(), 'housing-data-template.csv');
+
+    log.info('Template downloaded');
   };
 
   const currentFile = provider.getFilename();
@@ -98,27 +266,77 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
   const isUsingDefault = provider.isUsingDefaultData();
 
   const handleResetToDefault = async () => {
+    await staged?.discard();
+    setStaged(null);
+    setPendingMapping(null);
+
     setUploading(true);
     setError(null);
     setSuccess(null);
     setUploadProgress('Resetting to default data...');
+    const signal = startOperation();
 
     try {
-      await provider.resetToDefault();
+      await provider.resetToDefault(signal);
+      refreshLibrary();
       setSuccess('Reset to default Zillow ZHVI data');
 
       if (onUploadSuccess) {
         onUploadSuccess();
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to reset to default data';
-      setError(errorMessage);
+      if (isAbortError(err)) return;
+      setError(toErrorState(err, 'Failed to reset to default data'));
     } finally {
+      if (!signal.aborted) {
+        setUploading(false);
+        setUploadProgress('');
+      }
+    }
+  };
+
+  /**
+   * Run a dataset library action, then refresh the list and notify the app
+   */
+  const runLibraryAction = async (action: () => Promise<void>, successMessage: string) => {
+    setUploading(true);
+    setError(null);
+    setSuccess(null);
+    setUploadProgress('Updating datasets...');
+
+    try {
+      await action();
+      setSuccess(successMessage);
+
+      if (onUploadSuccess) {
+        onUploadSuccess();
+      }
+    } catch (err) {
+      setError(toErrorState(err, 'Dataset update failed'));
+      log.error('Dataset action failed', err);
+    } finally {
+      refreshLibrary();
       setUploading(false);
       setUploadProgress('');
     }
   };
 
+  const handleActivateDataset = (datasetId: string) => {
+    const name = datasets.find(d => d.id === datasetId)?.name;
+    runLibraryAction(() => provider.setActiveDataset(datasetId), `Switched to ${name}`);
+  };
+
+  const handleDeleteDataset = (datasetId: string) => {
+    const name = datasets.find(d => d.id === datasetId)?.name;
+    runLibraryAction(() => provider.deleteDataset(datasetId), `Deleted ${name}`);
+  };
+
+  const handleMergeDatasets = (datasetIds: string[], name: string) => {
+    runLibraryAction(async () => {
+      await provider.mergeDatasets(datasetIds, name);
+    }, `Created merged dataset ${name}`);
+  };
+
   return (
     <div className="bg-white rounded-lg shadow p-4 space-y-3">
       <div className="flex items-center justify-between">
@@ -162,6 +380,16 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
         </div>
       )}
 
+      {/* Stored datasets */}
+      <CSVDatasetLibrary
+        datasets={datasets}
+        activeId={activeDatasetId}
+        disabled={uploading}
+        onActivate={handleActivateDataset}
+        onDelete={handleDeleteDataset}
+        onMerge={handleMergeDatasets}
+      />
+
       {/* File input */}
       <div>
         <label
@@ -176,7 +404,7 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
             ref={fileInputRef}
             id="csv-file-input"
             type="file"
-            accept=".csv,text/csv"
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
             onChange={handleFileSelect}
             disabled={uploading}
             className="hidden"
@@ -206,8 +434,69 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
             )}
           </div>
         </label>
+        {uploading && abortControllerRef.current && (
+          <button
+            onClick={handleCancelOperation}
+            className="mt-1 w-full text-xs text-gray-500 hover:text-red-600"
+          >
+            Cancel
+          </button>
+        )}
       </div>
 
+      {/* Column mapping wizard */}
+      {pendingMapping && !uploading && (
+        <CSVColumnMapper
+          key={pendingMapping.file.name + pendingMapping.file.lastModified}
+          filename={pendingMapping.file.name}
+          headers={pendingMapping.headers}
+          rawHeaders={pendingMapping.rawHeaders}
+          rows={pendingMapping.rows}
+          initialMapping={pendingMapping.mapping}
+          appliedPreset={pendingMapping.appliedPreset}
+          presets={presets}
+          onConfirm={handleConfirmMapping}
+          onCancel={() => setPendingMapping(null)}
+          onDeletePreset={handleDeletePreset}
+        />
+      )}
+
+      {/* Validation report awaiting review */}
+      {staged && !uploading && (
+        <div className="border border-indigo-200 rounded px-3 py-2 space-y-2">
+          <p className="text-xs font-medium text-gray-900 truncate">
+            Review {staged.filename}
+          </p>
+
+          <CSVValidationSummary report={staged.report} />
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={handleConfirmImport}
+              disabled={staged.marketCount === 0}
+              className="px-3 py-1 text-xs font-medium text-white bg-indigo-600 rounded hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              Import {staged.marketCount.toLocaleString()} markets
+            </button>
+            <button
+              onClick={handleCancelImport}
+              className="px-3 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            {staged.report.rejectedRows > 0 && (
+              <button
+                onClick={handleDownloadRejected}
+                className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+                title="Download the rejected rows as a CSV file"
+              >
+                📥 Rejected rows
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Success message */}
       {success && (
         <div className="bg-green-50 border border-green-200 rounded px-3 py-2">
@@ -216,7 +505,9 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
       )}
 
       {/* Error message */}
-      {error && (
+      {error instanceof ProviderError && <ProviderErrorNotice error={error} />}
+
+      {typeof error === 'string' && (
         <div className="bg-red-50 border border-red-200 rounded px-3 py-2 animate-slideIn">
           <div className="flex items-start gap-2">
             <span className="text-red-500 flex-shrink-0">⚠️</span>
@@ -241,6 +532,13 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
             <p className="font-medium text-indigo-700">Simple Format:</p>
             <p className="text-xs text-gray-600 mb-1">Required: city, state</p>
             <p className="text-xs text-gray-600">Optional: zipCode, medianPrice, averagePrice, percentChange</p>
+            <p className="text-xs text-gray-500 mt-1">Comma, tab and semicolon delimiters are detected automatically.</p>
+            <p className="text-xs text-gray-500 mt-1">
+              Add a date, period or month column for one row per market per date - rows are grouped into price history.
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Other column names can be mapped to fields after choosing a file. Save the mapping as a preset to reuse it automatically.
+            </p>
           </div>
           <div className="pt-2 border-t border-gray-200">
             <p className="font-medium text-indigo-700">Zillow ZHVI Format:</p>
@@ -249,6 +547,16 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
             </p>
             <p className="text-xs text-gray-500 mt-1">
               Extracts most recent values and calculates statistics from time series.
+              Full city and ZIP files are parsed in the background.
+            </p>
+          </div>
+          <div className="pt-2 border-t border-gray-200">
+            <p className="font-medium text-indigo-700">Redfin &amp; Realtor.com:</p>
+            <p className="text-xs text-gray-600">
+              Redfin Data Center market tracker (TSV) and Realtor.com inventory core metrics files are detected automatically.
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Monthly rows are grouped into one market with price history and days on market.
             </p>
           </div>
         </div>
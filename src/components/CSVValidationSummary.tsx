@@ -0,0 +1,80 @@
+/**
+ * CSV Validation Summary Component
+ *
+ * Shows the validation report for a staged CSV import: accepted/rejected
+ * row counts and a table of row-level errors and warnings.
+ */
+
+import { CSV_FORMAT_LABELS } from '../utils/csvParser';
+import type { CSVValidationReport } from '../utils/csvValidation';
+
+interface CSVValidationSummaryProps {
+  report: CSVValidationReport;
+}
+
+// Issues rendered in the table; the rest are summarized as a count
+const VISIBLE_ISSUES = 50;
+
+export const CSVValidationSummary = ({ report }: CSVValidationSummaryProps) => {
+  const visibleIssues = report.issues.slice(0, VISIBLE_ISSUES);
+  const hiddenIssues = report.errorCount + report.warningCount - visibleIssues.length;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-green-50 border border-green-200 rounded px-2 py-1">
+          <p className="text-sm font-semibold text-green-800">{report.acceptedRows.toLocaleString()}</p>
+          <p className="text-xs text-green-700">accepted</p>
+        </div>
+        <div className="bg-red-50 border border-red-200 rounded px-2 py-1">
+          <p className="text-sm font-semibold text-red-800">{report.rejectedRows.toLocaleString()}</p>
+          <p className="text-xs text-red-700">rejected</p>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded px-2 py-1">
+          <p className="text-sm font-semibold text-yellow-800">{report.warningCount.toLocaleString()}</p>
+          <p className="text-xs text-yellow-700">warnings</p>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {CSV_FORMAT_LABELS[report.format ?? 'simple']} format
+        {' • '}{report.totalRows.toLocaleString()} data rows
+        {report.skippedRows > 0 && ` (${report.skippedRows.toLocaleString()} skipped)`}
+        {report.delimiter === '\t' ? ' • tab-separated' : report.delimiter && report.delimiter !== ',' ? ` • "${report.delimiter}" delimited` : ''}
+      </p>
+
+      {visibleIssues.length > 0 && (
+        <div className="max-h-48 overflow-y-auto border border-gray-200 rounded">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-gray-600">
+                <th className="px-2 py-1 font-medium">Row</th>
+                <th className="px-2 py-1 font-medium">Column</th>
+                <th className="px-2 py-1 font-medium">Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleIssues.map((issue, index) => (
+                <tr key={index} className="border-t border-gray-100 align-top">
+                  <td className="px-2 py-1 text-gray-700">{issue.row}</td>
+                  <td className="px-2 py-1 text-gray-700">
+                    {issue.column || '—'}
+                    {issue.value && <span className="block text-gray-400 truncate max-w-[6rem]">"{issue.value}"</span>}
+                  </td>
+                  <td className={`px-2 py-1 ${issue.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}>
+                    {issue.severity === 'error' ? '✕ ' : '⚠ '}{issue.message}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {hiddenIssues > 0 && (
+            <p className="px-2 py-1 text-xs text-gray-500 border-t border-gray-100">
+              …and {hiddenIssues.toLocaleString()} more
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,8 @@
 import { useEffect, useState } from 'react';
 import { migrateFromLocalStorage } from '../utils/indexedDBCache';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Migration');
 
 /**
  * Cache Migration Component
@@ -17,11 +20,11 @@ export const CacheMigration = () => {
       const migrationFlag = localStorage.getItem('cache-migrated-to-indexeddb');
 
       if (migrationFlag === 'true') {
-        console.log('[Migration] Already migrated to IndexedDB');
+        log.info('Already migrated to IndexedDB');
         return;
       }
 
-      console.log('[Migration] Starting migration from localStorage to IndexedDB');
+      log.info('Starting migration from localStorage to IndexedDB');
       setMigrating(true);
 
       try {
@@ -31,14 +34,14 @@ export const CacheMigration = () => {
         // Set migration flag
         localStorage.setItem('cache-migrated-to-indexeddb', 'true');
 
-        console.log(`[Migration] ✓ Successfully migrated ${count} entries`);
+        log.info(`✓ Successfully migrated ${count} entries`);
 
         // Hide notification after 3 seconds
         setTimeout(() => {
           setMigrating(false);
         }, 3000);
       } catch (error) {
-        console.error('[Migration] Failed:', error);
+        log.error('Failed', error);
         setMigrating(false);
       }
     };
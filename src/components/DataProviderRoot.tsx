@@ -0,0 +1,66 @@
+/**
+ * Data Provider Root
+ *
+ * Holds the active housing data provider for the whole app. Instances come
+ * from the provider registry, so switching back to a provider reuses it
+ * (and its cached data) instead of starting over.
+ */
+
+import { useState, useCallback, useMemo, type ReactNode } from 'react';
+import {
+  getProvider,
+  getProviderType,
+  resetProviders,
+  setProviderType as saveProviderType,
+  type IHousingDataProvider,
+} from '../services/providers';
+import { DataProviderContext, type DataProviderContextValue } from '../hooks/useDataProvider';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Data Provider');
+
+interface ActiveProvider {
+  providerType: string;
+  provider: IHousingDataProvider;
+}
+
+const loadActiveProvider = (): ActiveProvider => {
+  const providerType = getProviderType();
+  return { providerType, provider: getProvider(providerType) };
+};
+
+export const DataProviderRoot = ({ children }: { children: ReactNode }) => {
+  const [active, setActive] = useState<ActiveProvider>(loadActiveProvider);
+  const [dataVersion, setDataVersion] = useState(0);
+
+  const setProviderType = useCallback((providerType: string) => {
+    saveProviderType(providerType);
+    setActive({ providerType, provider: getProvider(providerType) });
+
+    log.info('Switched provider', { provider: providerType });
+  }, []);
+
+  const refresh = useCallback(() => {
+    setDataVersion(version => version + 1);
+  }, []);
+
+  const rebuildProviders = useCallback(() => {
+    resetProviders();
+    setActive(loadActiveProvider());
+    setDataVersion(version => version + 1);
+  }, []);
+
+  const value = useMemo<DataProviderContextValue>(() => ({
+    ...active,
+    dataVersion,
+    setProviderType,
+    refresh,
+    rebuildProviders,
+  }), [active, dataVersion, setProviderType, refresh, rebuildProviders]);
+
+  return (
+    <DataProviderContext.Provider value={value}>
+      {children}
+    </DataProviderContext.Provider>
+  );
+};
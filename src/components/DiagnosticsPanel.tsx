@@ -0,0 +1,117 @@
+/**
+ * Diagnostics Panel
+ *
+ * Per-provider success rate, latency percentiles, cache hit ratio, latest
+ * health check and recent errors, from the rolling provider telemetry.
+ */
+
+import { useState } from 'react';
+import { getProviderPlugin } from '../services/providers';
+import { useProviderTelemetry } from '../hooks/useProviderTelemetry';
+import {
+  getProviderHealth,
+  type ProviderHealthStatus,
+  type ProviderTelemetrySummary,
+} from '../utils/providerTelemetry';
+
+const HEALTH_COLORS: Record<ProviderHealthStatus, string> = {
+  healthy: 'text-green-600',
+  degraded: 'text-yellow-600',
+  down: 'text-red-600',
+  unknown: 'text-gray-500',
+  unconfigured: 'text-gray-400',
+};
+
+const formatRatio = (ratio: number | null): string =>
+  ratio !== null ? `${Math.round(ratio * 100)}%` : '—';
+
+const formatLatency = (ms: number | null): string =>
+  ms !== null ? `${ms.toLocaleString()} ms` : '—';
+
+/**
+ * A single labelled figure
+ */
+const Metric = ({ label, value }: { label: string; value: string }) => (
+  <div className="bg-gray-50 rounded px-2 py-1">
+    <div className="text-xs text-gray-600">{label}</div>
+    <div className="text-sm font-medium text-gray-900">{value}</div>
+  </div>
+);
+
+/**
+ * Metrics of one provider
+ */
+const ProviderDiagnostics = ({ summary, showErrors }: { summary: ProviderTelemetrySummary; showErrors: boolean }) => {
+  const info = getProviderPlugin(summary.providerId)?.info;
+  const health = getProviderHealth(summary.providerId);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-900">
+          {info?.icon} {info?.name ?? summary.providerId}
+        </span>
+        {health && (
+          <span
+            className={`text-xs ${HEALTH_COLORS[health.status]}`}
+            title={`${health.message} (checked ${health.checkedAt.toLocaleTimeString()})`}
+          >
+            ● {health.status}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Metric label="Success rate" value={formatRatio(summary.successRate)} />
+        <Metric label="Cache hits" value={formatRatio(summary.cacheHitRatio)} />
+        <Metric label="Latency p50" value={formatLatency(summary.latencyP50Ms)} />
+        <Metric label="Latency p95" value={formatLatency(summary.latencyP95Ms)} />
+      </div>
+      <div className="text-xs text-gray-400">{summary.calls} recent calls</div>
+
+      {showErrors && summary.recentErrors.length > 0 && (
+        <ul className="space-y-1">
+          {summary.recentErrors.map((error, index) => (
+            <li key={`${error.timestamp}-${index}`} className="text-xs text-red-700 bg-red-50 rounded px-2 py-1">
+              <span className="font-mono">{error.errorClass}</span>
+              <span className="text-red-400"> · {error.operation} · {new Date(error.timestamp).toLocaleTimeString()}</span>
+              <div className="truncate" title={error.errorMessage}>{error.errorMessage}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const DiagnosticsPanel = () => {
+  const { telemetry, clear } = useProviderTelemetry();
+  const [showDetails, setShowDetails] = useState(false);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-900">Diagnostics</h3>
+        <button
+          onClick={() => setShowDetails(!showDetails)}
+          className="text-xs text-primary hover:underline"
+        >
+          {showDetails ? 'Hide' : 'Show'} Errors
+        </button>
+      </div>
+
+      {telemetry.length === 0 ? (
+        <p className="text-xs text-gray-400">No provider calls recorded yet</p>
+      ) : (
+        <div className="space-y-4">
+          {telemetry.map(summary => (
+            <ProviderDiagnostics key={summary.providerId} summary={summary} showErrors={showDetails} />
+          ))}
+          <button onClick={clear} className="text-xs text-gray-600 hover:underline">
+            Reset metrics
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
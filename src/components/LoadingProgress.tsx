@@ -1,25 +1,24 @@
 import { useEffect, useState } from 'react';
-import { createProvider, getProviderType, CSVProvider } from '../services/providers';
+import { CSVProvider } from '../services/providers';
+import { useDataProvider } from '../hooks/useDataProvider';
 
 export const LoadingProgress = () => {
+  const { provider, providerType } = useDataProvider();
   const [progress, setProgress] = useState(0);
   const [message, setMessage] = useState('');
+  const [rowsProcessed, setRowsProcessed] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const providerType = getProviderType();
-
     // Only show progress for CSV provider
-    if (providerType !== 'csv') {
+    if (providerType !== 'csv' || !(provider instanceof CSVProvider)) {
       setIsLoading(false);
       return;
     }
 
-    const provider = createProvider();
-    if (!(provider instanceof CSVProvider)) {
-      setIsLoading(false);
-      return;
-    }
+    // A provider switched to mid-session may still be loading (or already done)
+    setProgress(provider.getLoadingProgress());
+    setIsLoading(true);
 
     // Poll for progress updates
     const interval = setInterval(() => {
@@ -28,6 +27,7 @@ export const LoadingProgress = () => {
 
       setProgress(currentProgress);
       setMessage(currentMessage);
+      setRowsProcessed(provider.getRowsProcessed());
 
       // Stop polling when complete
       if (currentProgress >= 100 || currentProgress === 0 && currentMessage === '') {
@@ -37,7 +37,7 @@ export const LoadingProgress = () => {
     }, 100); // Update every 100ms
 
     return () => clearInterval(interval);
-  }, []);
+  }, [provider, providerType]);
 
   if (!isLoading || progress >= 100) {
     return null;
@@ -89,6 +89,11 @@ export const LoadingProgress = () => {
             <span className="text-sm font-medium text-gray-700">
               {progress}%
             </span>
+            {rowsProcessed > 0 && (
+              <span className="block text-xs text-gray-500 mt-1">
+                {rowsProcessed.toLocaleString()} rows parsed
+              </span>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,184 @@
+/**
+ * Log Console
+ *
+ * Shows the recent log entries kept in memory, filtered by channel, level
+ * and text, and sets which levels reach the browser console. The buffer can
+ * be exported as JSON to attach to bug reports.
+ */
+
+import { useState } from 'react';
+import { useLogEntries } from '../hooks/useLogEntries';
+import {
+  exportLogEntries,
+  formatLogData,
+  getLogChannels,
+  LOG_LEVELS,
+  type LogEntryLevel,
+  type LogLevel,
+} from '../utils/logger';
+
+// Entries rendered at once (the newest ones)
+const MAX_VISIBLE_ENTRIES = 200;
+// Characters of entry data shown
+const MAX_DATA_PREVIEW = 1000;
+
+const LEVEL_RANK: Record<LogEntryLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const LEVEL_COLORS: Record<LogEntryLevel, string> = {
+  debug: 'text-gray-400',
+  info: 'text-indigo-600',
+  warn: 'text-yellow-600',
+  error: 'text-red-600',
+};
+
+const ENTRY_LEVELS = LOG_LEVELS.filter((level): level is LogEntryLevel => level !== 'silent');
+
+/**
+ * Trigger a browser download of the exported log
+ */
+const downloadLog = () => {
+  const blob = new Blob([exportLogEntries()], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `housing-data-log-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const LogConsole = () => {
+  const [open, setOpen] = useState(false);
+  const { entries, settings, updateSettings, clear } = useLogEntries(open);
+  const [channel, setChannel] = useState('');
+  const [minLevel, setMinLevel] = useState<LogEntryLevel>('debug');
+  const [search, setSearch] = useState('');
+
+  const query = search.trim().toLowerCase();
+  const visible = entries
+    .filter(entry =>
+      (!channel || entry.channel === channel) &&
+      LEVEL_RANK[entry.level] >= LEVEL_RANK[minLevel] &&
+      (!query || entry.message.toLowerCase().includes(query))
+    )
+    .slice(-MAX_VISIBLE_ENTRIES)
+    .reverse();
+
+  // The console level being edited: the selected channel's override, or the default
+  const channelLevel = channel ? settings.channels[channel] ?? '' : settings.level;
+
+  const handleConsoleLevel = (value: string) => {
+    if (!channel) {
+      updateSettings({ ...settings, level: value as LogLevel });
+      return;
+    }
+    const channels = { ...settings.channels };
+    if (value) {
+      channels[channel] = value as LogLevel;
+    } else {
+      delete channels[channel];
+    }
+    updateSettings({ ...settings, channels });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">Log Console</h3>
+        <button
+          onClick={() => setOpen(!open)}
+          className="text-xs text-primary hover:underline"
+        >
+          {open ? 'Hide' : 'Show'} Log
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={channel}
+              onChange={(e) => setChannel(e.target.value)}
+              className="text-xs border border-gray-300 rounded px-1 py-1"
+            >
+              <option value="">All channels</option>
+              {getLogChannels().map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <select
+              value={minLevel}
+              onChange={(e) => setMinLevel(e.target.value as LogEntryLevel)}
+              className="text-xs border border-gray-300 rounded px-1 py-1"
+            >
+              {ENTRY_LEVELS.map(level => (
+                <option key={level} value={level}>{level} and above</option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Filter messages"
+            className="w-full text-xs border border-gray-300 rounded px-2 py-1"
+          />
+
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            <span>Browser console level{channel ? ` (${channel})` : ''}</span>
+            <select
+              value={channelLevel}
+              onChange={(e) => handleConsoleLevel(e.target.value)}
+              className="text-xs border border-gray-300 rounded px-1 py-0.5"
+            >
+              {channel && <option value="">default ({settings.level})</option>}
+              {LOG_LEVELS.map(level => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="max-h-64 overflow-y-auto border border-gray-200 rounded">
+            {visible.length === 0 ? (
+              <p className="text-xs text-gray-400 p-2">No matching entries</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {visible.map(entry => {
+                  const data = entry.data !== undefined ? formatLogData(entry.data).slice(0, MAX_DATA_PREVIEW) : null;
+                  return (
+                    <li key={entry.id} className="px-2 py-1 text-xs font-mono">
+                      <div className="flex gap-1">
+                        <span className="text-gray-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                        <span className={LEVEL_COLORS[entry.level]}>{entry.level}</span>
+                        <span className="text-gray-500">[{entry.channel}]</span>
+                      </div>
+                      <div className="text-gray-900 break-words">{entry.message}</div>
+                      {data && (
+                        <div className="text-gray-500 truncate" title={data}>{data}</div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-400">
+              {visible.length} of {entries.length} entries
+            </span>
+            <div className="flex gap-3">
+              <button onClick={downloadLog} className="text-xs text-primary hover:underline">
+                Export JSON
+              </button>
+              <button onClick={clear} className="text-xs text-gray-600 hover:underline">
+                Clear
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+/**
+ * Market Browser Component
+ *
+ * Lists every market loaded from the CSV provider with filtering, sorting
+ * and pagination. Markets can be starred to appear as featured cards.
+ */
+
+import type { MarketStats, MarketQuery } from '../services/providers';
+import { useMarketBrowser } from '../hooks/useMarketBrowser';
+import { formatPrice, formatPercentage } from '../utils/formatters';
+
+interface MarketBrowserProps {
+  onSelectMarket: (market: MarketStats) => void;
+  isFeatured: (marketId: string) => boolean;
+  onToggleFeatured: (marketId: string) => void;
+  onResetFeatured: () => void;
+  hasCustomFeatured: boolean;
+}
+
+const PRICE_BANDS = [
+  { label: 'Any price', min: undefined, max: undefined },
+  { label: 'Under $200K', min: undefined, max: 200_000 },
+  { label: '$200K – $400K', min: 200_000, max: 400_000 },
+  { label: '$400K – $700K', min: 400_000, max: 700_000 },
+  { label: '$700K – $1M', min: 700_000, max: 1_000_000 },
+  { label: '$1M+', min: 1_000_000, max: undefined },
+];
+
+const SORT_OPTIONS: Array<{ value: NonNullable<MarketQuery['sortBy']>; label: string }> = [
+  { value: 'sizeRank', label: 'Size rank' },
+  { value: 'price', label: 'Price' },
+  { value: 'percentChange', label: '% change' },
+  { value: 'state', label: 'State' },
+];
+
+export const MarketBrowser = ({
+  onSelectMarket,
+  isFeatured,
+  onToggleFeatured,
+  onResetFeatured,
+  hasCustomFeatured,
+}: MarketBrowserProps) => {
+  const { result, states, query, loading, updateQuery, setPage } = useMarketBrowser();
+
+  const priceBandIndex = PRICE_BANDS.findIndex(
+    band => band.min === query.minPrice && band.max === query.maxPrice
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-900">
+          All Markets <span className="text-sm font-normal text-gray-500">({result.total.toLocaleString()})</span>
+        </h3>
+        {hasCustomFeatured && (
+          <button
+            onClick={onResetFeatured}
+            className="text-xs text-primary hover:underline"
+          >
+            Reset featured
+          </button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 mb-3">
+        <input
+          type="text"
+          value={query.search || ''}
+          onChange={(e) => updateQuery({ search: e.target.value })}
+          placeholder="Filter by name..."
+          className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+        <select
+          value={query.state || ''}
+          onChange={(e) => updateQuery({ state: e.target.value || undefined })}
+          className="px-2 py-1 border border-gray-300 rounded text-sm"
+        >
+          <option value="">All states</option>
+          {states.map(state => (
+            <option key={state} value={state}>{state}</option>
+          ))}
+        </select>
+        <select
+          value={priceBandIndex === -1 ? 0 : priceBandIndex}
+          onChange={(e) => {
+            const band = PRICE_BANDS[Number(e.target.value)];
+            updateQuery({ minPrice: band.min, maxPrice: band.max });
+          }}
+          className="px-2 py-1 border border-gray-300 rounded text-sm"
+        >
+          {PRICE_BANDS.map((band, index) => (
+            <option key={band.label} value={index}>{band.label}</option>
+          ))}
+        </select>
+        <div className="flex gap-1">
+          <select
+            value={query.sortBy}
+            onChange={(e) => updateQuery({ sortBy: e.target.value as MarketQuery['sortBy'] })}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => updateQuery({ sortDirection: query.sortDirection === 'asc' ? 'desc' : 'asc' })}
+            className="px-2 py-1 border border-gray-300 rounded text-sm hover:bg-gray-50"
+            title={query.sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            {query.sortDirection === 'asc' ? '↑' : '↓'}
+          </button>
+        </div>
+      </div>
+
+      {/* Results */}
+      {loading ? (
+        <p className="text-sm text-gray-500 py-4 text-center">Loading markets...</p>
+      ) : result.markets.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">No markets match these filters</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b">
+                <th className="py-2 w-8"></th>
+                <th className="py-2">Market</th>
+                <th className="py-2 text-right">Rank</th>
+                <th className="py-2 text-right">Price</th>
+                <th className="py-2 text-right">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.markets.map(market => {
+                const marketId = market.id || `${market.city}-${market.state}`;
+                const price = market.saleData?.medianPrice ?? market.saleData?.averagePrice ?? market.medianPrice;
+                const change = market.percentChange;
+                const featured = isFeatured(marketId);
+
+                return (
+                  <tr
+                    key={marketId}
+                    onClick={() => onSelectMarket(market)}
+                    className="border-b last:border-b-0 hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="py-2">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onToggleFeatured(marketId);
+                        }}
+                        className={featured ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-400'}
+                        title={featured ? 'Remove from featured' : 'Add to featured'}
+                      >
+                        ★
+                      </button>
+                    </td>
+                    <td className="py-2 text-gray-900">
+                      {market.city}, {market.state}
+                      {market.zipCode && <span className="text-gray-400"> • {market.zipCode}</span>}
+                    </td>
+                    <td className="py-2 text-right text-gray-500">{market.sizeRank ?? '—'}</td>
+                    <td className="py-2 text-right text-gray-900">
+                      {price !== undefined ? formatPrice(price) : '—'}
+                    </td>
+                    <td
+                      className={`py-2 text-right ${
+                        change === undefined ? 'text-gray-400' : change >= 0 ? 'text-price-up' : 'text-price-down'
+                      }`}
+                    >
+                      {change !== undefined ? formatPercentage(change) : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between mt-3 text-sm">
+        <button
+          onClick={() => setPage(result.page - 1)}
+          disabled={result.page <= 1}
+          className="px-3 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+        >
+          ← Prev
+        </button>
+        <span className="text-gray-600">
+          Page {result.page} of {result.totalPages}
+        </span>
+        <button
+          onClick={() => setPage(result.page + 1)}
+          disabled={result.page >= result.totalPages}
+          className="px-3 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+        >
+          Next →
+        </button>
+      </div>
+    </div>
+  );
+};
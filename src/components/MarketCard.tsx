@@ -1,9 +1,43 @@
-import type { MarketCardProps } from '../types';
-import { formatPrice, formatPercentage } from '../utils/formatters';
+import type { DataProvenance, MarketCardProps } from '../types';
+import type { MarketSourceAttribution } from '../services/providers';
+import { formatPrice, formatPercentage, formatProvenance } from '../utils/formatters';
 
-export const MarketCard = ({ market, onClick, onAddToWatchlist }: MarketCardProps) => {
+/**
+ * Tooltip naming the answering provider and why earlier providers were skipped
+ */
+const getSourceTooltip = (source: MarketSourceAttribution): string => {
+  const lines = [`Data from ${source.providerName}${source.isMock ? ' (sample data)' : ''}`];
+  source.skipped.forEach(skip => {
+    lines.push(`Skipped ${skip.providerName}: ${skip.message}`);
+  });
+  return lines.join('\n');
+};
+
+/**
+ * Marker for values that were not observed from a data source
+ */
+const ProvenanceTag = ({ provenance }: { provenance?: DataProvenance }) => {
+  if (!provenance || provenance === 'observed') return null;
+  return (
+    <span
+      className={`ml-1 px-1 rounded text-[10px] font-medium uppercase tracking-wide align-middle ${
+        provenance === 'synthetic' ? 'bg-yellow-100 text-yellow-800' : 'bg-blue-50 text-blue-700'
+      }`}
+      title={provenance === 'synthetic'
+        ? 'Generated value - not reported by any data source'
+        : 'Estimated between reported values'}
+    >
+      {formatProvenance(provenance)}
+    </span>
+  );
+};
+
+export const MarketCard = ({ market, onClick, onAddToWatchlist, isInWatchlist }: MarketCardProps) => {
   const isPositive = market.changeDirection === 'up';
   const arrow = isPositive ? '↑' : '↓';
+  const priceObserved = market.provenance.currentPrice === 'observed';
+  const changeObserved = market.provenance.priceChange === 'observed';
+  const interpolatedMonths = market.historicalData.filter(point => point.provenance === 'interpolated').length;
 
   return (
     <div
@@ -21,20 +55,51 @@ export const MarketCard = ({ market, onClick, onAddToWatchlist }: MarketCardProp
               e.stopPropagation();
               onAddToWatchlist();
             }}
-            className="text-primary hover:text-blue-800 font-medium text-sm transition-colors"
+            className={`font-medium text-sm transition-colors ${
+              isInWatchlist ? 'text-green-600 hover:text-red-600' : 'text-primary hover:text-blue-800'
+            }`}
+            title={isInWatchlist ? 'Remove from watchlist' : 'Add to watchlist'}
           >
-            + Add
+            {isInWatchlist ? '✓ Watching' : '+ Add'}
           </button>
         )}
       </div>
 
       <div>
-        <p className="text-2xl font-bold text-gray-900 mb-1">
+        {market.source && (
+          <span
+            className={`inline-flex items-center gap-1 px-2 py-0.5 mb-2 rounded-full text-xs font-medium ${
+              market.source.isMock ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-700'
+            }`}
+            title={getSourceTooltip(market.source)}
+          >
+            <span>{market.source.icon}</span>
+            <span>{market.source.isMock ? 'Sample data' : market.source.providerName}</span>
+            {market.source.skipped.length > 0 && <span className="opacity-60">(fallback)</span>}
+          </span>
+        )}
+        <p className={`text-2xl font-bold mb-1 ${priceObserved ? 'text-gray-900' : 'text-gray-500 italic'}`}>
           {formatPrice(market.currentPrice)}
+          <ProvenanceTag provenance={market.provenance.currentPrice} />
         </p>
-        <p className={`text-sm font-medium ${isPositive ? 'text-price-up' : 'text-price-down'}`}>
-          {arrow} {formatPercentage(Math.abs(market.priceChange))}
-        </p>
+        {market.priceChange === null ? (
+          <p className="text-sm text-gray-400" title="No data source reports a price change for this market">
+            — No change data
+          </p>
+        ) : (
+          <p className={`text-sm font-medium ${isPositive ? 'text-price-up' : 'text-price-down'} ${changeObserved ? '' : 'italic opacity-70'}`}>
+            {arrow} {formatPercentage(Math.abs(market.priceChange))}
+            <ProvenanceTag provenance={market.provenance.priceChange} />
+          </p>
+        )}
+        {interpolatedMonths > 0 && (
+          <p
+            className="mt-1 text-xs text-blue-700"
+            title="Months the source left blank, estimated from the reported months around them"
+          >
+            {interpolatedMonths} {interpolatedMonths === 1 ? 'month' : 'months'} of history interpolated
+          </p>
+        )}
       </div>
     </div>
   );
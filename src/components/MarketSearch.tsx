@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import type { MarketSearchProps } from '../types';
 import { useMarketSearch } from '../hooks/useMarketSearch';
+import { ProviderErrorNotice } from './ProviderErrorNotice';
 
 export const MarketSearch = ({ onSelectMarket }: MarketSearchProps) => {
   const [query, setQuery] = useState('');
@@ -44,7 +45,7 @@ export const MarketSearch = ({ onSelectMarket }: MarketSearchProps) => {
         {/* Error message */}
         {error && !loading && (
           <div className="absolute top-12 left-0 right-0 bg-yellow-50 border border-yellow-200 rounded-lg shadow-lg p-3">
-            <p className="text-sm text-yellow-800">{error}</p>
+            <ProviderErrorNotice error={error} compact />
           </div>
         )}
 
@@ -8,10 +8,38 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from 'recharts';
-import type { PriceChartProps } from '../types';
-import { formatPriceShort, formatDate, formatPrice } from '../utils/formatters';
+import type { DataProvenance, PriceChartProps, PriceDataPoint } from '../types';
+import { formatPriceShort, formatDate, formatPrice, formatProvenance } from '../utils/formatters';
 import { filterDataByTimeRange } from '../hooks/useHistoricalPrices';
 
+interface ChartPoint extends PriceDataPoint {
+  observedPrice?: number;
+  interpolatedPrice?: number;
+  syntheticPrice?: number;
+}
+
+/**
+ * Split points into one series per provenance: observed (solid line),
+ * interpolated (dotted) and synthetic (dashed)
+ * Neighbours of interpolated and synthetic points join their series so the lines connect.
+ */
+const toChartPoints = (data: PriceDataPoint[]): ChartPoint[] =>
+  data.map((point, i) => {
+    const inSeries = (provenance: DataProvenance) =>
+      [data[i - 1], point, data[i + 1]].some(p => p?.provenance === provenance) ? point.price : undefined;
+    return {
+      ...point,
+      observedPrice: point.provenance === 'observed' ? point.price : undefined,
+      interpolatedPrice: inSeries('interpolated'),
+      syntheticPrice: inSeries('synthetic'),
+    };
+  });
+
+const PROVENANCE_NOTES: Record<Exclude<DataProvenance, 'observed'>, string> = {
+  interpolated: 'Estimated between the reported months before and after',
+  synthetic: 'Generated - not reported by a data source',
+};
+
 /**
  * Chart loading skeleton
  */
@@ -48,7 +76,7 @@ const ChartSkeleton = () => {
   );
 };
 
-export const PriceChart = ({ data, timeRange }: PriceChartProps) => {
+export const PriceChart = ({ data, timeRange, loading = false }: PriceChartProps) => {
   const [isLoading, setIsLoading] = useState(true);
 
   // Filter data based on time range
@@ -62,7 +90,7 @@ export const PriceChart = ({ data, timeRange }: PriceChartProps) => {
   }, [data, timeRange]);
 
   // Show loading skeleton
-  if (isLoading) {
+  if (isLoading || loading) {
     return <ChartSkeleton />;
   }
 
@@ -82,16 +110,25 @@ export const PriceChart = ({ data, timeRange }: PriceChartProps) => {
     );
   }
 
+  const chartData = toChartPoints(filteredData);
+  const hasSynthetic = filteredData.some(point => point.provenance === 'synthetic');
+  const hasInterpolated = filteredData.some(point => point.provenance === 'interpolated');
+
   // Custom tooltip component
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
-      const data = payload[0].payload;
+      const data: ChartPoint = payload[0].payload;
       return (
         <div className="bg-white border border-gray-300 rounded-lg shadow-lg p-3">
-          <p className="text-sm font-medium text-gray-900">
+          <p className={`text-sm font-medium ${data.provenance === 'observed' ? 'text-gray-900' : 'text-gray-500 italic'}`}>
             {formatPrice(data.price)}
           </p>
           <p className="text-xs text-gray-500">{formatDate(data.date)}</p>
+          {data.provenance !== 'observed' && (
+            <p className={`text-xs font-medium ${data.provenance === 'synthetic' ? 'text-yellow-700' : 'text-blue-700'}`}>
+              {formatProvenance(data.provenance)}: {PROVENANCE_NOTES[data.provenance]}
+            </p>
+          )}
         </div>
       );
     }
@@ -99,35 +136,65 @@ export const PriceChart = ({ data, timeRange }: PriceChartProps) => {
   };
 
   return (
-    <div className="w-full h-72 sm:h-80 md:h-96 bg-white rounded-lg shadow p-3 sm:p-4 md:p-6 animate-fadeIn">
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart
-          data={filteredData}
-          margin={{ top: 5, right: 10, left: 0, bottom: 5 }}
-        >
-          <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
-          <XAxis
-            dataKey="date"
-            tickFormatter={(date) => formatDate(date)}
-            stroke="#6B7280"
-            style={{ fontSize: '12px' }}
-          />
-          <YAxis
-            tickFormatter={(price) => formatPriceShort(price)}
-            stroke="#6B7280"
-            style={{ fontSize: '12px' }}
-          />
-          <Tooltip content={<CustomTooltip />} />
-          <Line
-            type="monotone"
-            dataKey="price"
-            stroke="#1E40AF"
-            strokeWidth={2}
-            dot={false}
-            activeDot={{ r: 6, fill: '#1E40AF' }}
-          />
-        </LineChart>
-      </ResponsiveContainer>
+    <div className="w-full h-72 sm:h-80 md:h-96 bg-white rounded-lg shadow p-3 sm:p-4 md:p-6 animate-fadeIn flex flex-col">
+      {hasSynthetic && (
+        <p className="mb-2 px-2 py-1 rounded text-xs bg-yellow-50 text-yellow-800">
+          ⚠ Dashed values are generated sample data, not real market history.
+        </p>
+      )}
+      {hasInterpolated && (
+        <p className="mb-2 px-2 py-1 rounded text-xs bg-blue-50 text-blue-800">
+          Dotted values fill months the source left blank, estimated from the reported months around them.
+        </p>
+      )}
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={chartData}
+            margin={{ top: 5, right: 10, left: 0, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+            <XAxis
+              dataKey="date"
+              tickFormatter={(date) => formatDate(date)}
+              stroke="#6B7280"
+              style={{ fontSize: '12px' }}
+            />
+            <YAxis
+              tickFormatter={(price) => formatPriceShort(price)}
+              stroke="#6B7280"
+              style={{ fontSize: '12px' }}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Line
+              type="monotone"
+              dataKey="observedPrice"
+              stroke="#1E40AF"
+              strokeWidth={2}
+              dot={false}
+              activeDot={{ r: 6, fill: '#1E40AF' }}
+            />
+            <Line
+              type="monotone"
+              dataKey="interpolatedPrice"
+              stroke="#60A5FA"
+              strokeWidth={2}
+              strokeDasharray="2 3"
+              dot={false}
+              activeDot={{ r: 6, fill: '#60A5FA' }}
+            />
+            <Line
+              type="monotone"
+              dataKey="syntheticPrice"
+              stroke="#9CA3AF"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              dot={false}
+              activeDot={{ r: 6, fill: '#9CA3AF' }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
     </div>
   );
 };
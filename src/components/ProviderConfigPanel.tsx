@@ -0,0 +1,314 @@
+/**
+ * Provider Configuration Panel
+ *
+ * Edits the settings each API provider declares in its config schema
+ * (keys, base URL, timeout, region defaults). Settings are kept encrypted
+ * with a passphrase; "Test connection" makes one live request with the
+ * entered values and reports authentication, quota and latency.
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import {
+  getConfigurableProviders,
+  getConfigValueSource,
+  testProviderConnection,
+  validateProviderConfig,
+  type ConnectionTestResult,
+  type ProviderConfigField,
+  type ProviderConfigValues,
+} from '../services/providers';
+import { getApiProxyURL } from '../services/providers/apiProxy';
+import {
+  clearStoredProviderConfig,
+  getStoredProviderConfig,
+  hasStoredProviderConfig,
+  isProviderConfigUnlocked,
+  lockProviderConfig,
+  saveStoredProviderConfig,
+  unlockProviderConfig,
+} from '../utils/configVault';
+import { isAbortError } from '../utils/abort';
+
+interface ProviderConfigPanelProps {
+  onConfigChange: () => void;
+}
+
+const SOURCE_LABELS: Record<ReturnType<typeof getConfigValueSource>, string> = {
+  saved: 'saved',
+  env: 'from .env',
+  default: 'default',
+  unset: 'not set',
+};
+
+const toFormValues = (providerId: string): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(getStoredProviderConfig(providerId)).map(([key, value]) => [key, String(value)])
+  );
+
+const AUTH_LABELS: Record<ConnectionTestResult['auth'], string> = {
+  ok: '✓ Accepted',
+  failed: '✗ Rejected',
+  'not-configured': '— Not configured',
+  unknown: '? Unknown',
+};
+
+/**
+ * Connection test outcome
+ */
+const TestResult = ({ result }: { result: ConnectionTestResult }) => (
+  <div
+    className={`text-xs rounded p-2 space-y-0.5 ${
+      result.ok ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+    }`}
+  >
+    <div className="font-medium">{result.message}</div>
+    <div>Auth: {AUTH_LABELS[result.auth]}</div>
+    <div>Latency: {result.latencyMs !== null ? `${result.latencyMs} ms` : '—'}</div>
+    <div>
+      Quota:{' '}
+      {result.quota
+        ? `${result.quota.remaining.toLocaleString()} of ${result.quota.limit.toLocaleString()} left (resets ${result.quota.resetAt.toLocaleDateString()})`
+        : 'Not tracked'}
+    </div>
+  </div>
+);
+
+export const ProviderConfigPanel = ({ onConfigChange }: ProviderConfigPanelProps) => {
+  const providers = getConfigurableProviders();
+  const [unlocked, setUnlocked] = useState(isProviderConfigUnlocked);
+  const [passphrase, setPassphrase] = useState('');
+  const [providerId, setProviderId] = useState(providers[0]?.id ?? '');
+  const [values, setValues] = useState<Record<string, string>>(() => toFormValues(providerId));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+  // Cancels the connection test in progress
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const provider = providers.find(p => p.id === providerId);
+  const proxied = getApiProxyURL() !== null;
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const selectProvider = (id: string) => {
+    abortControllerRef.current?.abort();
+    setTesting(false);
+    setProviderId(id);
+    setValues(toFormValues(id));
+    setErrors({});
+    setMessage(null);
+    setTestResult(null);
+  };
+
+  const handleUnlock = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await unlockProviderConfig(passphrase);
+      setPassphrase('');
+      setUnlocked(true);
+      setValues(toFormValues(providerId));
+      onConfigChange();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Unlock failed' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLock = () => {
+    abortControllerRef.current?.abort();
+    setTesting(false);
+    lockProviderConfig();
+    setUnlocked(false);
+    setValues({});
+    setTestResult(null);
+    setMessage(null);
+    onConfigChange();
+  };
+
+  const handleForget = () => {
+    if (!window.confirm('Delete all saved provider settings? Providers will use .env values again.')) {
+      return;
+    }
+    clearStoredProviderConfig();
+    setUnlocked(false);
+    setValues({});
+    setTestResult(null);
+    setMessage({ type: 'success', text: 'Saved settings deleted' });
+    onConfigChange();
+  };
+
+  const validate = (): ProviderConfigValues | null => {
+    if (!provider) return null;
+    const fieldErrors = validateProviderConfig(provider.schema, values);
+    setErrors(fieldErrors);
+    return Object.keys(fieldErrors).length === 0 ? values : null;
+  };
+
+  const handleSave = async () => {
+    const valid = validate();
+    if (!valid) return;
+
+    setBusy(true);
+    try {
+      await saveStoredProviderConfig(providerId, valid);
+      setMessage({ type: 'success', text: `${provider?.name} settings saved` });
+      onConfigChange();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Save failed' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTest = async () => {
+    const valid = validate();
+    if (!valid) return;
+
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setTesting(true);
+    setTestResult(null);
+    setMessage(null);
+    try {
+      setTestResult(await testProviderConnection(providerId, valid, controller.signal));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Test failed' });
+      }
+    } finally {
+      if (!controller.signal.aborted) {
+        setTesting(false);
+      }
+    }
+  };
+
+  const renderField = (field: ProviderConfigField) => {
+    const source = getConfigValueSource(providerId, field);
+    const fallback = field.envVar && source === 'env'
+      ? `Using ${field.envVar}`
+      : field.defaultValue !== undefined ? String(field.defaultValue) : field.placeholder;
+
+    return (
+      <label key={field.key} className="block">
+        <span className="flex items-center justify-between text-xs text-gray-700">
+          <span>
+            {field.label}
+            {field.required && <span className="text-red-500"> *</span>}
+          </span>
+          <span className="text-gray-400">{SOURCE_LABELS[source]}</span>
+        </span>
+        <input
+          type={field.type === 'secret' ? 'password' : field.type === 'number' ? 'number' : 'text'}
+          value={values[field.key] ?? ''}
+          min={field.min}
+          max={field.max}
+          placeholder={fallback}
+          autoComplete="off"
+          onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+          className={`mt-0.5 w-full text-sm border rounded px-2 py-1 ${
+            errors[field.key] ? 'border-red-400' : 'border-gray-300'
+          }`}
+        />
+        {errors[field.key] ? (
+          <span className="block text-xs text-red-600">{errors[field.key]}</span>
+        ) : field.description && (
+          <span className="block text-xs text-gray-500">{field.description}</span>
+        )}
+      </label>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {proxied && (
+        <p className="text-xs text-blue-700 bg-blue-50 rounded p-2">
+          Requests go through the API proxy, which holds the keys. Keys entered here are not used.
+        </p>
+      )}
+
+      {!unlocked ? (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">
+            {hasStoredProviderConfig()
+              ? 'Enter your passphrase to unlock the saved provider settings.'
+              : 'Choose a passphrase to encrypt provider settings stored in this browser.'}
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+              placeholder="Passphrase"
+              autoComplete="current-password"
+              className="flex-1 text-sm border border-gray-300 rounded px-2 py-1"
+            />
+            <button
+              onClick={handleUnlock}
+              disabled={busy || !passphrase}
+              className="text-xs px-3 py-1 bg-primary text-white rounded disabled:opacity-50"
+            >
+              {hasStoredProviderConfig() ? 'Unlock' : 'Create'}
+            </button>
+          </div>
+          {hasStoredProviderConfig() && (
+            <button onClick={handleForget} className="text-xs text-red-600 hover:underline">
+              Forgot passphrase? Delete saved settings
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <select
+              value={providerId}
+              onChange={(e) => selectProvider(e.target.value)}
+              className="flex-1 text-sm border border-gray-300 rounded px-2 py-1"
+            >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>{p.icon} {p.name}</option>
+              ))}
+            </select>
+            <button onClick={handleLock} className="text-xs text-gray-600 hover:underline">
+              🔒 Lock
+            </button>
+          </div>
+
+          {provider?.schema.map(renderField)}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={busy || testing}
+              className="text-xs px-3 py-1 bg-primary text-white rounded disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              onClick={handleTest}
+              disabled={busy || testing}
+              className="text-xs px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              {testing ? 'Testing...' : 'Test connection'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">A connection test uses one request from the provider's quota.</p>
+
+          {testResult && <TestResult result={testResult} />}
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+/**
+ * Provider Error Notice
+ *
+ * Explains a failed provider request: what went wrong, in which provider and
+ * location, and what the user can do about it for that class of error.
+ */
+
+import type { ReactNode } from 'react';
+import {
+  getProviderPlugin,
+  QuotaExhaustedError,
+  type ProviderError,
+  type ProviderErrorKind,
+} from '../services/providers';
+
+interface ErrorGuidance {
+  title: string;
+  remediation: string;
+}
+
+const ERROR_GUIDANCE: Record<ProviderErrorKind, ErrorGuidance> = {
+  auth: {
+    title: 'Authentication Failed',
+    remediation: 'Check the API key under Data Source → Provider Settings, then refresh.',
+  },
+  'rate-limit': {
+    title: 'Rate Limited',
+    remediation: 'Wait a moment and refresh. Markets already cached keep working.',
+  },
+  'not-found': {
+    title: 'Not Found',
+    remediation: 'Check the city or ZIP code, or pick another market.',
+  },
+  network: {
+    title: 'Connection Problem',
+    remediation: 'Check your internet connection (and the API proxy, if you use one), then refresh.',
+  },
+  timeout: {
+    title: 'Request Timed Out',
+    remediation: 'Refresh to try again, or raise the timeout under Provider Settings.',
+  },
+  parse: {
+    title: 'Unreadable Data',
+    remediation: 'Check the file against the expected CSV columns and import it again.',
+  },
+  'quota-exhausted': {
+    title: 'Request Budget Used Up',
+    remediation: 'Wait for the budget to reset, raise it under Provider Settings, or switch provider.',
+  },
+  misconfigured: {
+    title: 'Provider Not Set Up',
+    remediation: 'Add the missing settings under Data Source → Provider Settings, or switch to CSV or Mock data.',
+  },
+  unknown: {
+    title: 'Data Loading Issue',
+    remediation: 'Try uploading a CSV file or checking your API configuration.',
+  },
+};
+
+/**
+ * When a retry can be expected to succeed, if the error says
+ */
+const getRetryNote = (error: ProviderError): string | null => {
+  if (error instanceof QuotaExhaustedError && error.resetAt) {
+    return `Resets ${error.resetAt.toLocaleString()}.`;
+  }
+  if (error.retryAfterMs !== undefined) {
+    return `Retry in about ${Math.max(1, Math.ceil(error.retryAfterMs / 1000))}s.`;
+  }
+  return null;
+};
+
+interface ProviderErrorNoticeProps {
+  error: ProviderError;
+  compact?: boolean;      // Smaller layout for dropdowns
+  children?: ReactNode;   // Extra note below the remediation
+}
+
+export const ProviderErrorNotice = ({ error, compact = false, children }: ProviderErrorNoticeProps) => {
+  const guidance = ERROR_GUIDANCE[error.kind];
+  const providerName = getProviderPlugin(error.providerId)?.info.name ?? error.providerId;
+  const retryNote = getRetryNote(error);
+
+  if (compact) {
+    return (
+      <div title={error.message}>
+        <p className="text-sm text-yellow-800">
+          {guidance.title}: {error.userMessage}
+        </p>
+        <p className="text-xs text-yellow-700 mt-1">
+          {guidance.remediation}{retryNote && ` ${retryNote}`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 animate-slideIn">
+      <div className="flex items-start gap-3">
+        <span className="text-yellow-600 text-xl flex-shrink-0">⚠️</span>
+        <div className="flex-1">
+          <p className="text-sm font-medium text-yellow-900 mb-1">
+            {guidance.title}
+            <span className="font-normal text-yellow-700">
+              {' '}· {providerName}{error.location && ` · ${error.location}`}
+            </span>
+          </p>
+          <p className="text-sm text-yellow-800" title={error.message}>
+            {error.userMessage}
+          </p>
+          <p className="text-xs text-yellow-700 mt-2">
+            {guidance.remediation}{retryNote && ` ${retryNote}`}
+          </p>
+          {children && <p className="text-xs text-yellow-700 mt-1">{children}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
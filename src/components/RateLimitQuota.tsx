@@ -0,0 +1,67 @@
+/**
+ * Rate Limit Quota Component
+ *
+ * Shows how many requests a provider has left in its rate-limit period and
+ * lets the user cap usage with a lower budget.
+ */
+
+import { useState } from 'react';
+import type { RateLimitStatus } from '../utils/rateLimitLedger';
+
+interface RateLimitQuotaProps {
+  status: RateLimitStatus;
+  onSetBudget: (budget: number | null) => void;
+}
+
+export const RateLimitQuota = ({ status, onSetBudget }: RateLimitQuotaProps) => {
+  const [budgetInput, setBudgetInput] = useState(status.budget?.toString() ?? '');
+
+  const allowed = status.budget !== null ? Math.min(status.budget, status.limit) : status.limit;
+  const percentLeft = allowed > 0 ? (status.remaining / allowed) * 100 : 0;
+  const barColor =
+    percentLeft > 50 ? 'bg-green-500' : percentLeft > 20 ? 'bg-yellow-500' : 'bg-red-500';
+
+  const commitBudget = () => {
+    const trimmed = budgetInput.trim();
+    const budget = trimmed === '' ? null : Number(trimmed);
+    if (budget !== null && (!Number.isFinite(budget) || budget < 0)) {
+      setBudgetInput(status.budget?.toString() ?? '');
+      return;
+    }
+    if (budget !== status.budget) {
+      onSetBudget(budget);
+    }
+  };
+
+  return (
+    <div className="text-xs space-y-1">
+      <div className="flex items-center justify-between text-gray-600">
+        <span>
+          <strong className="text-gray-900">{status.remaining.toLocaleString()}</strong>
+          {' '}of {allowed.toLocaleString()} requests left this {status.period}
+        </span>
+        <span className="text-gray-400" title={status.resetAt.toLocaleString()}>
+          Resets {status.resetAt.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-1.5">
+        <div className={`${barColor} h-1.5 rounded-full`} style={{ width: `${percentLeft}%` }} />
+      </div>
+      <label className="flex items-center gap-2 text-gray-500">
+        Budget
+        <input
+          type="number"
+          min={0}
+          max={status.limit}
+          value={budgetInput}
+          onChange={(e) => setBudgetInput(e.target.value)}
+          onBlur={commitBudget}
+          onKeyDown={(e) => e.key === 'Enter' && commitBudget()}
+          placeholder={status.limit.toString()}
+          className="w-20 border border-gray-300 rounded px-1 py-0.5"
+        />
+        <span>per {status.period} (blank = full limit)</span>
+      </label>
+    </div>
+  );
+};
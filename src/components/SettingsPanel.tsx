@@ -1,106 +1,62 @@
-import { useState, useEffect } from 'react';
-import { getProviderType } from '../services/providers';
-import { IndexedDBCache as APICache } from '../utils/indexedDBCache';
+import { useState } from 'react';
 import { CSVUpload } from './CSVUpload';
+import { RateLimitQuota } from './RateLimitQuota';
+import { ProviderConfigPanel } from './ProviderConfigPanel';
+import { useRateLimitStatus } from '../hooks/useRateLimitStatus';
+import { isSyntheticDataAllowed, setSyntheticDataAllowed } from '../utils/syntheticData';
+import { useDataProvider } from '../hooks/useDataProvider';
+import { getAvailableProviders, type ProviderStatus } from '../services/providers';
+import { formatRateLimit } from '../utils/formatters';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Settings Panel');
 
 interface SettingsPanelProps {
   onProviderChange?: () => void;
 }
 
-const PROVIDER_INFO = [
-  {
-    id: 'mock',
-    name: 'Mock Data',
-    icon: '🎭',
-    limits: 'Unlimited',
-    description: 'Sample data for development and testing',
-    requiresKey: false,
-    status: 'available' as const,
-  },
-  {
-    id: 'csv',
-    name: 'CSV File',
-    icon: '📊',
-    limits: 'Unlimited',
-    description: 'Upload your own market data from a CSV file',
-    requiresKey: false,
-    status: 'available' as const,
-  },
-  {
-    id: 'zillow-metrics',
-    name: 'Zillow Market Metrics',
-    icon: '🏘️',
-    limits: 'TBD (testing needed)',
-    description: 'Market-level statistics from national to neighborhood',
-    requiresKey: true,
-    status: 'pending' as const,
-  },
-  {
-    id: 'rentcast',
-    name: 'RentCast',
-    icon: '🏠',
-    limits: '50 calls/month',
-    description: 'Property and market data with valuations',
-    requiresKey: true,
-    status: 'pending' as const,
-  },
-];
-
 export const SettingsPanel = ({ onProviderChange }: SettingsPanelProps) => {
-  const [selectedProvider, setSelectedProvider] = useState(getProviderType());
+  const { providerType: selectedProvider, setProviderType, refresh, rebuildProviders } = useDataProvider();
   const [showDetails, setShowDetails] = useState(false);
+  const [showConfig, setShowConfig] = useState(false);
+  const [allowSynthetic, setAllowSynthetic] = useState(isSyntheticDataAllowed);
+  const rateLimits = useRateLimitStatus();
+  // Every registered provider, including third-party plugins
+  const providers = getAvailableProviders();
 
-  useEffect(() => {
-    // Update selected provider if it changes externally
-    const currentProvider = getProviderType();
-    if (currentProvider !== selectedProvider) {
-      setSelectedProvider(currentProvider);
-    }
-  }, []);
-
-  const handleProviderChange = async (providerId: string) => {
-    const provider = PROVIDER_INFO.find(p => p.id === providerId);
+  const handleProviderChange = (providerId: string) => {
+    const provider = providers.find(p => p.id === providerId);
 
     // Warn if provider is not yet available
     if (provider?.status === 'pending') {
       const proceed = window.confirm(
-        `${provider.name} is not yet fully implemented. ` +
-        `The app will fall back to Mock Data. Continue anyway?`
+        `${provider.name} is still in development and may fall back to Mock Data. ` +
+        `Continue anyway?`
       );
       if (!proceed) return;
     }
 
-    // Confirm provider change
-    const confirmed = window.confirm(
-      `Switch to ${provider?.name}?\n\n` +
-      `This will:\n` +
-      `• Clear all cached data\n` +
-      `• Reload the application\n` +
-      `• Use ${provider?.name} for all future requests`
-    );
-
-    if (!confirmed) return;
-
-    // Save selection to localStorage
-    localStorage.setItem('housing-data-provider', providerId);
-    setSelectedProvider(providerId);
-
-    // Clear cache
-    await APICache.clear();
-
-    // Trigger callback
-    if (onProviderChange) {
-      onProviderChange();
-    } else {
-      // Default: reload the page
-      window.location.reload();
-    }
+    // Every view re-fetches from the new provider; cached responses are kept
+    setProviderType(providerId);
+    onProviderChange?.();
   };
 
-  const getStatusBadge = (status: 'available' | 'pending') => {
+  const handleSyntheticChange = (allowed: boolean) => {
+    setSyntheticDataAllowed(allowed);
+    setAllowSynthetic(allowed);
+
+    // The factory only swaps in Mock while synthetic data is allowed
+    rebuildProviders();
+    onProviderChange?.();
+  };
+
+  const getStatusBadge = (status: ProviderStatus) => {
     if (status === 'available') {
       return <span className="text-xs text-green-600">✓ Available</span>;
     }
+    if (status === 'requires-setup') {
+      return <span className="text-xs text-blue-600">🔑 Requires Setup</span>;
+    }
     return <span className="text-xs text-yellow-600">⚠ In Development</span>;
   };
 
@@ -117,45 +73,54 @@ export const SettingsPanel = ({ onProviderChange }: SettingsPanelProps) => {
       </div>
 
       <div className="space-y-3">
-        {PROVIDER_INFO.map((provider) => (
-          <label
-            key={provider.id}
-            className={`flex items-start gap-3 p-2 rounded cursor-pointer transition-colors ${
-              selectedProvider === provider.id
-                ? 'bg-blue-50 border border-blue-200'
-                : 'hover:bg-gray-50'
-            }`}
-          >
-            <input
-              type="radio"
-              name="data-provider"
-              value={provider.id}
-              checked={selectedProvider === provider.id}
-              onChange={() => handleProviderChange(provider.id)}
-              className="mt-1"
-            />
-            <div className="flex-1">
-              <div className="flex items-center gap-2">
-                <span>{provider.icon}</span>
-                <span className="font-medium text-gray-900">{provider.name}</span>
-                {getStatusBadge(provider.status)}
-              </div>
+        {providers.map((provider) => (
+          <div key={provider.id}>
+            <label
+              className={`flex items-start gap-3 p-2 rounded cursor-pointer transition-colors ${
+                selectedProvider === provider.id
+                  ? 'bg-blue-50 border border-blue-200'
+                  : 'hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="data-provider"
+                value={provider.id}
+                checked={selectedProvider === provider.id}
+                onChange={() => handleProviderChange(provider.id)}
+                className="mt-1"
+              />
+              <div className="flex-1">
+                <div className="flex items-center gap-2">
+                  <span>{provider.icon}</span>
+                  <span className="font-medium text-gray-900">{provider.name}</span>
+                  {getStatusBadge(provider.status)}
+                </div>
 
-              {showDetails && (
-                <div className="mt-1 space-y-1">
-                  <div className="text-xs text-gray-600">{provider.description}</div>
-                  <div className="text-xs text-gray-500">
-                    Rate Limit: {provider.limits}
-                  </div>
-                  {provider.requiresKey && (
+                {showDetails && (
+                  <div className="mt-1 space-y-1">
+                    <div className="text-xs text-gray-600">{provider.description}</div>
                     <div className="text-xs text-gray-500">
-                      Requires API key in .env
+                      Rate Limit: {formatRateLimit(provider.rateLimits)}
                     </div>
-                  )}
-                </div>
-              )}
-            </div>
-          </label>
+                    {provider.requiresApiKey && (
+                      <div className="text-xs text-gray-500">
+                        Requires API key (Provider Settings below or .env)
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </label>
+            {rateLimits.statuses[provider.id] && (
+              <div className="ml-8 mt-1 mr-2">
+                <RateLimitQuota
+                  status={rateLimits.statuses[provider.id]}
+                  onSetBudget={(budget) => rateLimits.setBudget(provider.id, budget)}
+                />
+              </div>
+            )}
+          </div>
         ))}
       </div>
 
@@ -163,15 +128,49 @@ export const SettingsPanel = ({ onProviderChange }: SettingsPanelProps) => {
       {selectedProvider === 'csv' && (
         <div className="mt-4 pt-4 border-t border-gray-200">
           <CSVUpload onUploadSuccess={() => {
-            console.log('%c[Settings Panel] CSV uploaded, refreshing...', 'color: #8B5CF6');
-            // Optionally trigger a data refresh
-            if (onProviderChange) {
-              onProviderChange();
-            }
+            log.info('CSV data changed, refreshing...');
+            refresh();
+            onProviderChange?.();
           }} />
         </div>
       )}
 
+      {/* Synthetic Data Setting */}
+      <div className="mt-4 pt-4 border-t border-gray-200">
+        <label className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allowSynthetic}
+            onChange={(e) => handleSyntheticChange(e.target.checked)}
+            className="mt-1"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-900">Allow synthetic data</span>
+            <span className="block text-xs text-gray-500">
+              Fill gaps with generated sample markets and price history. Generated and
+              estimated values are always marked.
+            </span>
+          </span>
+        </label>
+      </div>
+
+      {/* Provider Settings */}
+      <div className="mt-4 pt-4 border-t border-gray-200">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-900">Provider Settings</span>
+          <button
+            onClick={() => setShowConfig(!showConfig)}
+            className="text-xs text-primary hover:underline"
+          >
+            {showConfig ? 'Hide' : 'Configure'}
+          </button>
+        </div>
+        {showConfig && (
+          // Providers read their settings when built, so rebuild them after a change
+          <ProviderConfigPanel onConfigChange={rebuildProviders} />
+        )}
+      </div>
+
       {/* Help Text */}
       <div className="mt-4 pt-4 border-t border-gray-200">
         <p className="text-xs text-gray-500">
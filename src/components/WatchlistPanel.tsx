@@ -1,15 +1,164 @@
-import type { WatchlistPanelProps } from '../types';
+import { useState } from 'react';
+import type { WatchlistItem, WatchlistPanelProps } from '../types';
+import { formatPrice, formatPercentage, formatProvenance } from '../utils/formatters';
 
-export const WatchlistPanel = (_props: WatchlistPanelProps) => {
+/**
+ * Single watchlist row with live price, ordering controls and notes
+ */
+const WatchlistRow = ({
+  item,
+  index,
+  total,
+  market,
+  onSelectMarket,
+  onRemove,
+  onMove,
+  onUpdateNotes,
+}: Omit<WatchlistPanelProps, 'items' | 'liveData'> & {
+  item: WatchlistItem;
+  index: number;
+  total: number;
+  market?: WatchlistPanelProps['liveData'][string];
+}) => {
+  const [editingNotes, setEditingNotes] = useState(false);
+  const [draftNotes, setDraftNotes] = useState(item.notes || '');
+
+  const isPositive = market?.changeDirection === 'up';
+  const isNegative = market?.changeDirection === 'down';
+
+  const handleSaveNotes = () => {
+    onUpdateNotes(item.marketId, draftNotes);
+    setEditingNotes(false);
+  };
+
+  return (
+    <li className="border border-gray-200 rounded p-2">
+      <div className="flex items-start justify-between gap-2">
+        <button
+          onClick={() => onSelectMarket(item.marketId)}
+          className="flex-1 text-left hover:text-primary"
+          title="Show chart"
+        >
+          <p className="font-medium text-sm text-gray-900">{item.marketName}</p>
+          {market ? (
+            <p className="text-xs">
+              <span
+                className={market.provenance.currentPrice === 'observed' ? 'text-gray-700' : 'text-gray-500 italic'}
+                title={market.provenance.currentPrice === 'observed'
+                  ? undefined
+                  : `${formatProvenance(market.provenance.currentPrice)} price`}
+              >
+                {formatPrice(market.currentPrice)}
+              </span>{' '}
+              <span
+                className={isPositive ? 'text-price-up' : isNegative ? 'text-price-down' : 'text-gray-500'}
+                title={market.provenance.priceChange && market.provenance.priceChange !== 'observed'
+                  ? `${formatProvenance(market.provenance.priceChange)} - not reported by a data source`
+                  : undefined}
+              >
+                {market.priceChange === null
+                  ? '—'
+                  : `${isPositive ? '↑' : isNegative ? '↓' : '→'} ${formatPercentage(Math.abs(market.priceChange))}`}
+                {market.provenance.priceChange && market.provenance.priceChange !== 'observed' && '*'}
+              </span>
+            </p>
+          ) : (
+            <p className="text-xs text-gray-400">Loading price...</p>
+          )}
+        </button>
+
+        <div className="flex items-center gap-1 text-xs">
+          <button
+            onClick={() => onMove(item.marketId, 'up')}
+            disabled={index === 0}
+            className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+            title="Move up"
+          >
+            ▲
+          </button>
+          <button
+            onClick={() => onMove(item.marketId, 'down')}
+            disabled={index === total - 1}
+            className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+            title="Move down"
+          >
+            ▼
+          </button>
+          <button
+            onClick={() => onRemove(item.marketId)}
+            className="px-1 text-red-500 hover:text-red-700"
+            title="Remove from watchlist"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {/* Notes */}
+      {editingNotes ? (
+        <div className="mt-2 space-y-1">
+          <textarea
+            value={draftNotes}
+            onChange={(e) => setDraftNotes(e.target.value)}
+            rows={2}
+            placeholder="Add a note..."
+            className="w-full px-2 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+          <div className="flex gap-2">
+            <button onClick={handleSaveNotes} className="text-xs text-primary hover:underline">
+              Save
+            </button>
+            <button
+              onClick={() => {
+                setDraftNotes(item.notes || '');
+                setEditingNotes(false);
+              }}
+              className="text-xs text-gray-500 hover:underline"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setEditingNotes(true)}
+          className="mt-1 block w-full text-left text-xs text-gray-500 hover:text-gray-700"
+        >
+          {item.notes ? `📝 ${item.notes}` : '+ Add note'}
+        </button>
+      )}
+    </li>
+  );
+};
+
+export const WatchlistPanel = ({ items, liveData, ...handlers }: WatchlistPanelProps) => {
   return (
     <div className="bg-white rounded-lg shadow p-4">
       <h2 className="text-xl font-bold mb-4 text-gray-900">My Watchlist</h2>
-      <p className="text-gray-500 text-sm">
-        No markets in watchlist yet.
-      </p>
-      <p className="text-xs text-gray-400 mt-2">
-        Watchlist functionality coming in Phase 5
-      </p>
+
+      {items.length === 0 ? (
+        <>
+          <p className="text-gray-500 text-sm">
+            No markets in watchlist yet.
+          </p>
+          <p className="text-xs text-gray-400 mt-2">
+            Use "+ Add" on a market card to start watching it
+          </p>
+        </>
+      ) : (
+        <ul className="space-y-2">
+          {items.map((item, index) => (
+            <WatchlistRow
+              key={item.marketId}
+              item={item}
+              index={index}
+              total={items.length}
+              market={liveData[item.marketId]}
+              {...handlers}
+            />
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { COLUMN_MAPPING_PRESETS_STORAGE_KEY } from '../utils/constants';
+import {
+  presetMatchesHeaders,
+  type ColumnMappingPreset,
+  type CSVColumnMapping,
+} from '../utils/csvColumnMapping';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Column Mapping');
+
+interface UseColumnMappingPresetsResult {
+  presets: ColumnMappingPreset[];
+  findPreset: (headers: string[]) => ColumnMappingPreset | undefined;
+  savePreset: (name: string, headers: string[], mapping: CSVColumnMapping) => void;
+  deletePreset: (name: string) => void;
+}
+
+/**
+ * Load the persisted column mapping presets from localStorage
+ */
+const loadPresets = (): ColumnMappingPreset[] => {
+  try {
+    const stored = localStorage.getItem(COLUMN_MAPPING_PRESETS_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    log.error('Failed to load presets', error);
+    return [];
+  }
+};
+
+/**
+ * Custom hook to manage named CSV column mapping presets
+ * Saving a preset with an existing name replaces it.
+ */
+export const useColumnMappingPresets = (): UseColumnMappingPresetsResult => {
+  const [presets, setPresets] = useState<ColumnMappingPreset[]>(loadPresets);
+
+  useEffect(() => {
+    localStorage.setItem(COLUMN_MAPPING_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  }, [presets]);
+
+  // Most recently saved preset wins when several match
+  const findPreset = useCallback(
+    (headers: string[]) =>
+      [...presets]
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .find(preset => presetMatchesHeaders(preset, headers)),
+    [presets]
+  );
+
+  const savePreset = useCallback((name: string, headers: string[], mapping: CSVColumnMapping) => {
+    const preset: ColumnMappingPreset = { name, headers, mapping, updatedAt: new Date().toISOString() };
+    setPresets(prev => [...prev.filter(p => p.name !== name), preset]);
+  }, []);
+
+  const deletePreset = useCallback((name: string) => {
+    setPresets(prev => prev.filter(p => p.name !== name));
+  }, []);
+
+  return {
+    presets,
+    findPreset,
+    savePreset,
+    deletePreset,
+  };
+};
@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import type { IHousingDataProvider } from '../services/providers';
+
+export interface DataProviderContextValue {
+  providerType: string;
+  provider: IHousingDataProvider;
+  /** Increases whenever the provider's data changes (e.g. a new CSV upload) */
+  dataVersion: number;
+  /** Switch the active provider without reloading the page */
+  setProviderType: (providerType: string) => void;
+  /** Tell every consumer to re-fetch from the active provider */
+  refresh: () => void;
+  /** Rebuild every provider instance (after a setting the factory reads changes) */
+  rebuildProviders: () => void;
+}
+
+export const DataProviderContext = createContext<DataProviderContextValue | null>(null);
+
+/**
+ * Custom hook to access the active housing data provider
+ * Must be used below DataProviderRoot.
+ */
+export const useDataProvider = (): DataProviderContextValue => {
+  const context = useContext(DataProviderContext);
+  if (!context) {
+    throw new Error('useDataProvider must be used within a DataProviderRoot');
+  }
+  return context;
+};
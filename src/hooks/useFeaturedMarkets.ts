@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { FEATURED_MARKETS_STORAGE_KEY, MOCK_MARKETS } from '../utils/constants';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Featured Markets');
+
+/**
+ * A featured CSV market: picked by the user (by ID) or a default city (by name)
+ */
+export type FeaturedMarket = { id: string } | { city: string; state: string };
+
+// Featured until the user picks markets (the mock markets' cities)
+const DEFAULT_FEATURED_MARKETS: FeaturedMarket[] = MOCK_MARKETS.map(({ city, state }) => ({ city, state }));
+
+interface UseFeaturedMarketsResult {
+  featuredIds: string[];
+  featuredMarkets: FeaturedMarket[];
+  isFeatured: (marketId: string) => boolean;
+  toggleFeatured: (marketId: string) => void;
+  resetFeatured: () => void;
+}
+
+/**
+ * Load the persisted featured market IDs from localStorage
+ */
+const loadFeaturedIds = (): string[] => {
+  try {
+    const stored = localStorage.getItem(FEATURED_MARKETS_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    log.error('Failed to load selection', error);
+    return [];
+  }
+};
+
+/**
+ * Custom hook to manage which CSV markets are shown as featured cards
+ * An empty selection means "use the default featured cities"; featuredMarkets
+ * lists whichever applies.
+ */
+export const useFeaturedMarkets = (): UseFeaturedMarketsResult => {
+  const [featuredIds, setFeaturedIds] = useState<string[]>(loadFeaturedIds);
+
+  useEffect(() => {
+    if (featuredIds.length > 0) {
+      localStorage.setItem(FEATURED_MARKETS_STORAGE_KEY, JSON.stringify(featuredIds));
+    } else {
+      localStorage.removeItem(FEATURED_MARKETS_STORAGE_KEY);
+    }
+  }, [featuredIds]);
+
+  const featuredMarkets = useMemo<FeaturedMarket[]>(
+    () => featuredIds.length > 0 ? featuredIds.map(id => ({ id })) : DEFAULT_FEATURED_MARKETS,
+    [featuredIds]
+  );
+
+  const isFeatured = useCallback(
+    (marketId: string) => featuredIds.includes(marketId),
+    [featuredIds]
+  );
+
+  const toggleFeatured = useCallback((marketId: string) => {
+    setFeaturedIds(prev =>
+      prev.includes(marketId) ? prev.filter(id => id !== marketId) : [...prev, marketId]
+    );
+  }, []);
+
+  const resetFeatured = useCallback(() => {
+    setFeaturedIds([]);
+  }, []);
+
+  return {
+    featuredIds,
+    featuredMarkets,
+    isFeatured,
+    toggleFeatured,
+    resetFeatured,
+  };
+};
@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
 import type { PriceDataPoint, TimeRange } from '../types';
 import { generateHistoricalDataForRange } from '../utils/dataTransform';
+import { abortableDelay, isAbortError } from '../utils/abort';
+import { isSyntheticDataAllowed } from '../utils/syntheticData';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Historical Prices');
 
 interface UseHistoricalPricesResult {
   data: PriceDataPoint[];
@@ -10,7 +15,8 @@ interface UseHistoricalPricesResult {
 
 /**
  * Custom hook to manage historical price data for a market
- * For POC, this generates synthetic historical data
+ * For POC, this generates synthetic historical data (points are marked
+ * 'synthetic'), or returns none when synthetic data is disabled
  * In production, this would fetch from an API endpoint
  *
  * @param currentPrice - Current market price
@@ -29,13 +35,15 @@ export const useHistoricalPrices = (
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchHistoricalData = async () => {
       setLoading(true);
       setError(null);
 
       try {
         // Simulate API delay for realistic loading state
-        await new Promise((resolve) => setTimeout(resolve, 300));
+        await abortableDelay(300, controller.signal);
 
         // Calculate signed price change
         const signedPriceChange =
@@ -54,21 +62,28 @@ export const useHistoricalPrices = (
 
         setData(historicalData);
       } catch (err) {
-        console.error('Error generating historical data:', err);
+        // Superseded by a newer range or unmounted
+        if (isAbortError(err)) return;
+
+        log.error('Error generating historical data', err);
         setError('Failed to load historical data');
         setData([]);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     // Only fetch if we have valid price data
-    if (currentPrice > 0) {
+    if (currentPrice > 0 && isSyntheticDataAllowed()) {
       fetchHistoricalData();
     } else {
       setLoading(false);
       setData([]);
     }
+
+    return () => controller.abort();
   }, [currentPrice, priceChange, changeDirection, timeRange]);
 
   return {
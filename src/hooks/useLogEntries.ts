@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  clearLogEntries,
+  getLogEntries,
+  getLogSettings,
+  setLogSettings,
+  type LogEntry,
+  type LogSettings,
+} from '../utils/logger';
+
+// Entries are written outside React, so the buffer is re-read periodically
+const REFRESH_INTERVAL_MS = 1000;
+
+interface UseLogEntriesResult {
+  entries: LogEntry[];
+  settings: LogSettings;
+  updateSettings: (settings: LogSettings) => void;
+  clear: () => void;
+}
+
+/**
+ * Custom hook exposing the buffered log entries and the log level settings
+ * @param enabled - Poll for new entries (e.g. only while the log console is open)
+ */
+export const useLogEntries = (enabled: boolean = true): UseLogEntriesResult => {
+  const [entries, setEntries] = useState<LogEntry[]>(getLogEntries);
+  const [settings, setSettings] = useState<LogSettings>(getLogSettings);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const refresh = () => {
+      const latest = getLogEntries();
+      // Skip the re-render when nothing was logged since the last read
+      setEntries(prev =>
+        prev.length === latest.length && prev[prev.length - 1]?.id === latest[latest.length - 1]?.id
+          ? prev
+          : latest
+      );
+    };
+
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  const updateSettings = useCallback((next: LogSettings) => {
+    setLogSettings(next);
+    setSettings(getLogSettings());
+  }, []);
+
+  const clear = useCallback(() => {
+    clearLogEntries();
+    setEntries([]);
+  }, []);
+
+  return { entries, settings, updateSettings, clear };
+};
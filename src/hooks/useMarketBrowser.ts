@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import {
+  CSVProvider,
+  type MarketQuery,
+  type MarketQueryResult,
+} from '../services/providers';
+import { useDataProvider } from './useDataProvider';
+
+interface UseMarketBrowserResult {
+  result: MarketQueryResult;
+  states: string[];
+  query: MarketQuery;
+  loading: boolean;
+  updateQuery: (changes: Partial<MarketQuery>) => void;
+  setPage: (page: number) => void;
+}
+
+const EMPTY_RESULT: MarketQueryResult = {
+  markets: [],
+  total: 0,
+  page: 1,
+  pageSize: 25,
+  totalPages: 1,
+};
+
+/**
+ * Custom hook to browse every market loaded by the CSV provider
+ * Filtering, sorting and pagination are delegated to CSVProvider.queryMarkets
+ */
+export const useMarketBrowser = (): UseMarketBrowserResult => {
+  const { provider, dataVersion } = useDataProvider();
+  const [query, setQuery] = useState<MarketQuery>({
+    sortBy: 'sizeRank',
+    sortDirection: 'asc',
+    page: 1,
+    pageSize: 25,
+  });
+  const [result, setResult] = useState<MarketQueryResult>(EMPTY_RESULT);
+  const [states, setStates] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!(provider instanceof CSVProvider)) {
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+
+    // Rejects only when cancelled, which needs no handling
+    provider.waitForDataLoad(controller.signal).then(() => {
+      setResult(provider.queryMarkets(query));
+      setStates(provider.getAvailableStates());
+      setLoading(false);
+    }, () => {});
+
+    return () => controller.abort();
+  }, [provider, query, dataVersion]);
+
+  // Any filter or sort change starts again from the first page
+  const updateQuery = (changes: Partial<MarketQuery>) => {
+    setQuery(prev => ({ ...prev, ...changes, page: 1 }));
+  };
+
+  const setPage = (page: number) => {
+    setQuery(prev => ({ ...prev, page }));
+  };
+
+  return {
+    result,
+    states,
+    query,
+    loading,
+    updateQuery,
+    setPage,
+  };
+};
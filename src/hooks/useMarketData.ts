@@ -1,26 +1,85 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { MarketPriceData } from '../types';
-import { createProvider, getProviderType, CSVProvider } from '../services/providers';
+import {
+  createSourceAttribution,
+  CSVProvider,
+  type IHousingDataProvider,
+  type MarketSourceAttribution,
+  type MarketStats,
+  type ProviderError,
+  type ProviderSkip,
+  selectProviderError,
+  toProviderError,
+} from '../services/providers';
 import {
   transformToMarketPriceData,
+  transformMarketStats,
+  withHistoricalData,
   generateHistoricalData,
   validateMarketData,
 } from '../utils/dataTransform';
 import { MOCK_MARKETS } from '../utils/constants';
+import { isAbortError } from '../utils/abort';
+import { isSyntheticDataAllowed } from '../utils/syntheticData';
+import { useDataProvider } from './useDataProvider';
+import type { FeaturedMarket } from './useFeaturedMarkets';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('useMarketData');
 
 interface UseMarketDataResult {
   data: MarketPriceData[];
   loading: boolean;
-  error: string | null;
+  error: ProviderError | null;
   refetch: () => void;
   forceRefresh: () => void;
 }
 
+/**
+ * Attribution for built-in sample data used in place of a provider's answer
+ */
+const sampleDataSource = (skipped: ProviderSkip[]): MarketSourceAttribution => ({
+  providerId: 'mock',
+  providerName: 'Sample Data',
+  icon: '🎭',
+  isMock: true,
+  skipped,
+});
+
+/**
+ * Record why a provider's answer was not used
+ */
+const providerSkip = (
+  provider: IHousingDataProvider,
+  reason: ProviderSkip['reason'],
+  message: string
+): ProviderSkip => ({
+  providerId: provider.info.id,
+  providerName: provider.info.name,
+  reason,
+  message,
+});
+
+/**
+ * Record a provider failure as the reason its answer was not used
+ */
+const errorSkip = (provider: IHousingDataProvider, error: ProviderError): ProviderSkip => ({
+  ...providerSkip(provider, 'error', error.userMessage),
+  errorKind: error.kind,
+});
+
 /**
  * Mock data generator for when API is not available
+ * Returns no markets when synthetic data is disabled.
+ * @param skipped - Why the real provider did not supply these markets
  */
-const generateMockMarketData = (): MarketPriceData[] => {
-  return [
+const generateMockMarketData = (skipped: ProviderSkip[] = []): MarketPriceData[] => {
+  if (!isSyntheticDataAllowed()) {
+    log.info('Synthetic data disabled - not filling in sample markets');
+    return [];
+  }
+
+  return withSampleSource(skipped, [
     {
       marketId: '1',
       marketName: 'New York, NY',
@@ -75,67 +134,144 @@ const generateMockMarketData = (): MarketPriceData[] => {
       historicalData: generateHistoricalData(295000, 5.9, 12),
       lastUpdated: new Date().toISOString(),
     },
-  ];
+  ]);
+};
+
+const withSampleSource = (
+  skipped: ProviderSkip[],
+  markets: Omit<MarketPriceData, 'provenance' | 'source'>[]
+): MarketPriceData[] =>
+  markets.map(market => ({
+    ...market,
+    provenance: { currentPrice: 'synthetic', priceChange: 'synthetic' },
+    source: sampleDataSource(skipped),
+  }));
+
+/**
+ * Convert a provider's market stats into validated display data
+ */
+const toMarketPriceData = (
+  provider: IHousingDataProvider,
+  stats: MarketStats,
+  city: string,
+  state: string,
+  zipCode?: string
+): MarketPriceData | null => {
+  const marketId = zipCode || `${city}-${state}`;
+  const marketName = `${city}, ${state}`;
+
+  // Chain providers attribute each answer; otherwise it came from this provider
+  const source = stats.source ?? createSourceAttribution(provider);
+
+  const marketData = withHistoricalData(
+    transformToMarketPriceData(marketId, marketName, { ...stats, source }),
+    stats
+  );
+
+  return validateMarketData(marketData) ? marketData : null;
 };
 
 /**
  * Fetch market data for a single location using the provider pattern
+ * Failures resolve to null; cancellation rejects with an AbortError.
  */
-const fetchMarketData = async (
+export const fetchMarketData = async (
+  provider: IHousingDataProvider,
   city: string,
   state: string,
   zipCode?: string,
-  forceRefresh: boolean = false
+  forceRefresh: boolean = false,
+  signal?: AbortSignal
 ): Promise<MarketPriceData | null> => {
   try {
     const location = zipCode || `${city}, ${state}`;
-    const provider = createProvider();
-    const stats = await provider.getMarketStats(location, forceRefresh);
 
-    if (!stats) {
-      return null;
+    // CSV data loads asynchronously from IndexedDB
+    if (provider instanceof CSVProvider) {
+      await provider.waitForDataLoad(signal);
     }
 
-    const marketId = zipCode || `${city}-${state}`;
-    const marketName = `${city}, ${state}`;
-
-    const marketData = transformToMarketPriceData(marketId, marketName, stats);
+    const stats = await provider.getMarketStats(location, forceRefresh, signal);
 
-    // Generate historical data
-    marketData.historicalData = generateHistoricalData(
-      marketData.currentPrice,
-      marketData.changeDirection === 'up'
-        ? marketData.priceChange
-        : -marketData.priceChange,
-      12
-    );
-
-    return validateMarketData(marketData) ? marketData : null;
+    return stats ? toMarketPriceData(provider, stats, city, state, zipCode) : null;
   } catch (error) {
-    console.error(`Failed to fetch data for ${city}, ${state}:`, error);
+    if (isAbortError(error)) {
+      throw error;
+    }
+    log.error(`Failed to fetch data for ${city}, ${state}`, error);
     return null;
   }
 };
 
+/**
+ * Fetch the featured markets with one batch lookup (provider must support it)
+ * Returns results in MOCK_MARKETS order, with the reason for each gap and
+ * the failure to show the user (if any location failed).
+ */
+const fetchMarketDataBatch = async (
+  provider: IHousingDataProvider,
+  forceRefresh: boolean,
+  signal: AbortSignal
+): Promise<{
+  results: (MarketPriceData | null)[];
+  gaps: Map<number, ProviderSkip>;
+  error: ProviderError | null;
+}> => {
+  const locations = MOCK_MARKETS.map(market => market.zipCode || `${market.city}, ${market.state}`);
+  const batch = await provider.getMarketStatsBatch!(locations, forceRefresh, signal);
+  const gaps = new Map<number, ProviderSkip>();
+
+  const results = MOCK_MARKETS.map((market, i) => {
+    const stats = batch.stats[locations[i]];
+    if (stats) {
+      const marketData = toMarketPriceData(provider, stats, market.city, market.state, market.zipCode);
+      if (!marketData) {
+        gaps.set(i, providerSkip(provider, 'no-data', `No usable data for ${market.name}`));
+      }
+      return marketData;
+    }
+
+    const failure = batch.failed.find(({ location }) => location === locations[i]);
+    gaps.set(i, failure
+      ? errorSkip(provider, failure.error)
+      : providerSkip(provider, 'no-data', `No usable data for ${market.name}`));
+    return null;
+  });
+
+  return { results, gaps, error: selectProviderError(batch.failed.map(({ error }) => error)) };
+};
+
 /**
  * Custom hook to fetch market data for multiple markets
  * Falls back to mock data if API is not configured or fails
+ *
+ * @param featuredMarkets - CSV markets to show (see useFeaturedMarkets)
  */
-export const useMarketData = (): UseMarketDataResult => {
+export const useMarketData = (featuredMarkets: FeaturedMarket[]): UseMarketDataResult => {
+  const { provider, providerType, dataVersion } = useDataProvider();
   const [data, setData] = useState<MarketPriceData[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ProviderError | null>(null);
+
+  // Stable key so the fetch only re-runs when the featured selection changes
+  const featuredKey = JSON.stringify(featuredMarkets);
+
+  // Cancels the fetch in progress when a new one starts or on unmount
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const fetchData = useCallback(async (forceRefresh: boolean = false) => {
+    const featured: FeaturedMarket[] = JSON.parse(featuredKey);
+
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
 
-  const fetchData = async (forceRefresh: boolean = false) => {
     setLoading(true);
     setError(null);
 
-    const providerType = getProviderType();
-    const provider = createProvider();
-
-    console.log(
-      `%c[useMarketData] ${forceRefresh ? 'Force refreshing' : 'Fetching'} market data via provider`,
-      'color: #1E40AF; font-weight: bold',
+    log.info(
+      `${forceRefresh ? 'Force refreshing' : 'Fetching'} market data via provider`,
       { forceRefresh, providerType }
     );
 
@@ -143,106 +279,72 @@ export const useMarketData = (): UseMarketDataResult => {
       // For CSV provider, get markets directly from the loaded data
       if (providerType === 'csv' && provider instanceof CSVProvider) {
         // Wait for data to finish loading from IndexedDB
-        await provider.waitForDataLoad();
+        await provider.waitForDataLoad(signal);
 
         const allMarkets = provider.getAllMarkets();
 
         if (allMarkets.length === 0) {
-          console.warn(
-            '%c[useMarketData] CSV provider has no markets - Falling back to MOCK DATA',
-            'color: #F59E0B; font-weight: bold'
-          );
-          setData(generateMockMarketData());
+          log.warn('CSV provider has no markets - Falling back to MOCK DATA');
+          setData(generateMockMarketData([
+            providerSkip(provider, 'no-data', 'No CSV markets loaded'),
+          ]));
           setLoading(false);
           return;
         }
 
-        // Featured cities to display (matching MOCK_MARKETS)
-        const featuredCities = [
-          { city: 'New York', state: 'NY' },
-          { city: 'Los Angeles', state: 'CA' },
-          { city: 'Austin', state: 'TX' },
-          { city: 'Columbus', state: 'OH' },
-          { city: 'Houston', state: 'TX' },
-          { city: 'San Antonio', state: 'TX' },
-        ];
-
-        // Filter for featured cities only
-        const marketsToShow = featuredCities
-          .map(({ city, state }) =>
-            allMarkets.find(market =>
-              market.city === city && market.state === state
-            )
+        const candidates = featured.map(wanted =>
+          allMarkets.find(market =>
+            'id' in wanted
+              ? market.id === wanted.id
+              : market.city === wanted.city && market.state === wanted.state
           )
+        );
+
+        const marketsToShow = candidates
           .filter((market): market is NonNullable<typeof market> => market !== undefined);
 
-        console.log(
-          '%c[useMarketData] Loading markets from CSV',
-          'color: #8B5CF6; font-weight: bold',
+        log.info(
+          'Loading markets from CSV',
           {
             total: allMarkets.length,
-            requested: featuredCities.length,
+            requested: candidates.length,
             found: marketsToShow.length,
             markets: marketsToShow.map(m => `${m.city}, ${m.state}`)
           }
         );
 
-        // Transform to MarketPriceData
-        const transformedMarkets = marketsToShow.map(stats => {
-          const marketId = stats.id || `${stats.city}-${stats.state}`;
-          const marketName = `${stats.city}, ${stats.state}`;
-          const marketData = transformToMarketPriceData(marketId, marketName, stats);
-
-          // Use real historical data if available, otherwise generate
-          if (stats.historicalPrices && stats.historicalPrices.length > 0) {
-            marketData.historicalData = stats.historicalPrices.map(h => ({
-              date: h.date,
-              price: h.price,
-              propertyType: 'single_family' as const,
-            }));
-
-            console.log(
-              `%c[useMarketData] ${marketName} historical data`,
-              'color: #10B981',
-              {
-                dataPoints: marketData.historicalData.length,
-                dateRange: `${marketData.historicalData[0]?.date} to ${marketData.historicalData[marketData.historicalData.length - 1]?.date}`
-              }
-            );
-          } else {
-            // Generate historical data as fallback
-            marketData.historicalData = generateHistoricalData(
-              marketData.currentPrice,
-              marketData.changeDirection === 'up'
-                ? marketData.priceChange
-                : -marketData.priceChange,
-              12
-            );
-          }
-
-          return marketData;
-        }).filter(m => validateMarketData(m));
+        // Transform to MarketPriceData (with real historical data when available)
+        const source = createSourceAttribution(provider);
+        const transformedMarkets = marketsToShow
+          .map(market => transformMarketStats({ ...market, source }))
+          .filter(m => validateMarketData(m));
 
         setData(transformedMarkets);
         setLoading(false);
         return;
       }
 
-      // For other providers, fetch specific markets
-      const promises = MOCK_MARKETS.map((market) =>
-        fetchMarketData(market.city, market.state, market.zipCode, forceRefresh)
-      );
+      // For other providers, fetch specific markets - in one batch when supported
+      let results: (MarketPriceData | null)[];
+      let gaps = new Map<number, ProviderSkip>();
 
-      const results = await Promise.all(promises);
+      if (provider.getMarketStatsBatch) {
+        const batch = await fetchMarketDataBatch(provider, forceRefresh, signal);
+        ({ results, gaps } = batch);
+        setError(batch.error);
+      } else {
+        results = await Promise.all(MOCK_MARKETS.map((market) =>
+          fetchMarketData(provider, market.city, market.state, market.zipCode, forceRefresh, signal)
+        ));
+      }
 
       // Filter out null results and use valid data
       const validData = results.filter(
         (result): result is MarketPriceData => result !== null
       );
 
-      console.log(
-        `%c[useMarketData] API Response Summary`,
-        'color: #1E40AF; font-weight: bold',
+      log.info(
+        'API Response Summary',
         {
           requested: MOCK_MARKETS.length,
           received: validData.length,
@@ -251,54 +353,58 @@ export const useMarketData = (): UseMarketDataResult => {
       );
 
       if (validData.length === 0) {
-        console.warn(
-          '%c[useMarketData] No valid API data - Falling back to MOCK DATA',
-          'color: #F59E0B; font-weight: bold'
-        );
-        setData(generateMockMarketData());
+        log.warn('No valid API data - Falling back to MOCK DATA');
+        const reason = provider.isConfigured()
+          ? providerSkip(provider, 'no-data', 'No usable data returned')
+          : providerSkip(provider, 'not-configured', 'Not configured');
+        setData(generateMockMarketData([reason]));
       } else {
         // If we got some data but not all, fill in with mock data
         if (validData.length < MOCK_MARKETS.length) {
-          console.warn(
-            `%c[useMarketData] Partial API data - Using ${validData.length} real + ${MOCK_MARKETS.length - validData.length} mock`,
-            'color: #F59E0B; font-weight: bold'
+          log.warn(
+            `Partial API data - Using ${validData.length} real + ${MOCK_MARKETS.length - validData.length} mock`
           );
-          const mockData = generateMockMarketData();
-          const combined = [...validData];
 
-          // Add mock data for missing markets
-          for (let i = validData.length; i < MOCK_MARKETS.length; i++) {
-            combined.push(mockData[i]);
-          }
+          // Replace each missing market with its sample data (if allowed)
+          const combined = results
+            .map((result, i) =>
+              result ?? generateMockMarketData([
+                gaps.get(i) ?? providerSkip(provider, 'no-data', `No usable data for ${MOCK_MARKETS[i].name}`),
+              ])[i]
+            )
+            .filter((market): market is MarketPriceData => market !== undefined);
 
           setData(combined);
         } else {
-          console.log(
-            '%c[useMarketData] ✓ Successfully loaded REAL API data',
-            'color: #10B981; font-weight: bold; font-size: 14px'
-          );
+          log.info('✓ Successfully loaded REAL API data');
           setData(validData);
         }
       }
     } catch (err) {
-      console.error('Error fetching market data:', err);
-
-      if (err instanceof Error) {
-        setError(err.message);
-      } else {
-        setError('Failed to load market data. Showing sample data.');
+      // A newer fetch (or unmount) took over - leave state to it
+      if (isAbortError(err)) {
+        return;
       }
 
+      log.error('Error fetching market data', err);
+
+      const providerError = toProviderError(err, { providerId: provider.info.id });
+      setError(providerError);
+
       // Fall back to mock data on error
-      setData(generateMockMarketData());
+      setData(generateMockMarketData([errorSkip(provider, providerError)]));
     } finally {
-      setLoading(false);
+      if (!signal.aborted) {
+        setLoading(false);
+      }
     }
-  };
+  }, [featuredKey, provider, providerType]);
 
+  // Re-runs in place when the provider is switched or its data changes
   useEffect(() => {
     fetchData();
-  }, []);
+    return () => abortControllerRef.current?.abort();
+  }, [fetchData, dataVersion]);
 
   return {
     data,
@@ -1,13 +1,18 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import type { Market } from '../types';
-import { searchProperties, isAPIConfigured, APIError } from '../services/api';
+import { toProviderError, type ProviderError } from '../services/providers';
 import { transformToMarket, deduplicateMarkets } from '../utils/dataTransform';
 import { MOCK_MARKETS } from '../utils/constants';
+import { isAbortError } from '../utils/abort';
+import { useDataProvider } from './useDataProvider';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Market Search');
 
 interface UseMarketSearchResult {
   results: Market[];
   loading: boolean;
-  error: string | null;
+  error: ProviderError | null;
   search: (query: string) => void;
   clearResults: () => void;
 }
@@ -17,9 +22,10 @@ interface UseMarketSearchResult {
  * Falls back to mock data filtering if API is not available
  */
 export const useMarketSearch = (): UseMarketSearchResult => {
+  const { provider } = useDataProvider();
   const [results, setResults] = useState<Market[]>([]);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ProviderError | null>(null);
 
   // Debounce timer reference
   const debounceTimerRef = useRef<number | null>(null);
@@ -59,19 +65,25 @@ export const useMarketSearch = (): UseMarketSearchResult => {
       abortControllerRef.current.abort();
     }
 
-    // Check if API is configured
-    if (!isAPIConfigured()) {
-      console.warn('API not configured, searching mock data');
+    // Check if the active provider can search properties
+    if (
+      provider.info.id === 'mock' ||
+      !provider.info.features.propertySearch ||
+      !provider.searchProperties ||
+      !provider.isConfigured()
+    ) {
+      log.warn(`${provider.info.name} cannot search properties, searching mock data`);
       const mockResults = searchMockData(query);
       setResults(mockResults);
       setLoading(false);
       return;
     }
 
-    try {
-      abortControllerRef.current = new AbortController();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-      const properties = await searchProperties(query);
+    try {
+      const properties = await provider.searchProperties(query, false, controller.signal);
 
       // Transform properties to markets
       const markets = properties.map(transformToMarket);
@@ -86,32 +98,27 @@ export const useMarketSearch = (): UseMarketSearchResult => {
       setError(null);
     } catch (err) {
       // If request was aborted, don't update state
-      if (err instanceof Error && err.name === 'AbortError') {
+      if (isAbortError(err)) {
         return;
       }
 
-      console.error('Search error:', err);
-
-      if (err instanceof APIError) {
-        if (err.isRateLimit) {
-          setError('Search rate limit exceeded. Please try again later.');
-        } else {
-          setError(err.message);
-        }
-
-        // Fall back to mock data on API error
-        const mockResults = searchMockData(query);
-        setResults(mockResults);
-      } else {
-        setError('Search failed. Showing available markets.');
-        const mockResults = searchMockData(query);
-        setResults(mockResults);
-      }
+      log.error('Search error', err);
+
+      setError(toProviderError(err, { providerId: provider.info.id, location: query }));
+
+      // Fall back to mock data on API error
+      const mockResults = searchMockData(query);
+      setResults(mockResults);
     } finally {
-      setLoading(false);
-      abortControllerRef.current = null;
+      // A newer search owns the loading state once this one is aborted
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
-  }, [searchMockData]);
+  }, [provider, searchMockData]);
 
   /**
    * Debounced search function
@@ -123,6 +130,9 @@ export const useMarketSearch = (): UseMarketSearchResult => {
         clearTimeout(debounceTimerRef.current);
       }
 
+      // Results for the previous query are stale now
+      abortControllerRef.current?.abort();
+
       // If query is empty, clear results immediately
       if (!query || query.length < 2) {
         setResults([]);
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import { checkProviderHealth } from '../services/providers';
+import { useDataProvider } from './useDataProvider';
+import { isAbortError } from '../utils/abort';
+import type { ProviderHealth } from '../utils/providerTelemetry';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Provider Health');
+
+// Health checks spend no provider quota (API probes are rate-limited separately), so they can run often
+const HEALTH_CHECK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Custom hook that periodically checks the health of the active provider
+ * Returns null until the first check of the current provider finishes.
+ */
+export const useProviderHealth = (): ProviderHealth | null => {
+  const { provider } = useDataProvider();
+  const [health, setHealth] = useState<ProviderHealth | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const check = () => {
+      checkProviderHealth(provider, controller.signal)
+        .then(setHealth)
+        .catch(error => {
+          if (!isAbortError(error)) {
+            log.error('Health check failed', error);
+          }
+        });
+    };
+
+    check();
+    const interval = setInterval(check, HEALTH_CHECK_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [provider]);
+
+  // Ignore a previous provider's result until the new one is checked
+  return health?.providerId === provider.info.id ? health : null;
+};
@@ -0,0 +1,33 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  clearProviderTelemetry,
+  getAllProviderTelemetry,
+  type ProviderTelemetrySummary,
+} from '../utils/providerTelemetry';
+
+// Calls are recorded outside React, so the store is re-read periodically
+const REFRESH_INTERVAL_MS = 5000;
+
+interface UseProviderTelemetryResult {
+  telemetry: ProviderTelemetrySummary[];
+  clear: () => void;
+}
+
+/**
+ * Custom hook exposing per-provider call metrics (success rate, latency, cache hits)
+ */
+export const useProviderTelemetry = (): UseProviderTelemetryResult => {
+  const [telemetry, setTelemetry] = useState<ProviderTelemetrySummary[]>(getAllProviderTelemetry);
+
+  useEffect(() => {
+    const interval = setInterval(() => setTelemetry(getAllProviderTelemetry()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const clear = useCallback(() => {
+    clearProviderTelemetry();
+    setTelemetry(getAllProviderTelemetry());
+  }, []);
+
+  return { telemetry, clear };
+};
@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getAllRateLimitStatuses,
+  setRateLimitBudget,
+  type RateLimitStatus,
+} from '../utils/rateLimitLedger';
+
+// Requests are counted outside React, so the ledger is re-read periodically
+const REFRESH_INTERVAL_MS = 5000;
+
+interface UseRateLimitStatusResult {
+  statuses: Record<string, RateLimitStatus>;
+  setBudget: (providerId: string, budget: number | null) => void;
+}
+
+const loadStatuses = (): Record<string, RateLimitStatus> =>
+  Object.fromEntries(getAllRateLimitStatuses().map(status => [status.providerId, status]));
+
+/**
+ * Custom hook exposing the remaining request quota of each tracked provider
+ */
+export const useRateLimitStatus = (): UseRateLimitStatusResult => {
+  const [statuses, setStatuses] = useState<Record<string, RateLimitStatus>>(loadStatuses);
+
+  useEffect(() => {
+    const interval = setInterval(() => setStatuses(loadStatuses()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const setBudget = useCallback((providerId: string, budget: number | null) => {
+    setRateLimitBudget(providerId, budget);
+    setStatuses(loadStatuses());
+  }, []);
+
+  return { statuses, setBudget };
+};
@@ -0,0 +1,220 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { MarketPriceData, WatchlistItem } from '../types';
+import { WATCHLIST_STORAGE_KEY } from '../utils/constants';
+import { fetchMarketData } from './useMarketData';
+import { useDataProvider } from './useDataProvider';
+import { isAbortError } from '../utils/abort';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Watchlist');
+
+interface WatchlistMarket {
+  marketId: string;
+  marketName: string;
+  zipCode?: string;
+}
+
+export type WatchlistLiveStatus = 'loaded' | 'loading' | 'unavailable';
+
+interface UseWatchlistResult {
+  items: WatchlistItem[];
+  liveData: Record<string, MarketPriceData>;
+  getLiveStatus: (marketId: string) => WatchlistLiveStatus;
+  isInWatchlist: (marketId: string) => boolean;
+  add: (market: WatchlistMarket) => void;
+  remove: (marketId: string) => void;
+  toggle: (market: WatchlistMarket) => void;
+  move: (marketId: string, direction: 'up' | 'down') => void;
+  updateNotes: (marketId: string, notes: string) => void;
+}
+
+/**
+ * Load the persisted watchlist from localStorage
+ */
+const loadWatchlist = (): WatchlistItem[] => {
+  try {
+    const stored = localStorage.getItem(WATCHLIST_STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    log.error('Failed to load watchlist', error);
+    return [];
+  }
+};
+
+/**
+ * Custom hook to manage the user's watchlist
+ * Items are persisted to localStorage in display order. Live prices come from
+ * the dashboard data when the market is already loaded, otherwise they are
+ * fetched through the active provider (and its cache).
+ *
+ * @param marketData - Markets already loaded by the dashboard
+ */
+export const useWatchlist = (marketData: MarketPriceData[]): UseWatchlistResult => {
+  const { provider, dataVersion } = useDataProvider();
+  const [items, setItems] = useState<WatchlistItem[]>(loadWatchlist);
+  // null marks markets the provider could not resolve, so they are not refetched
+  const [fetchedData, setFetchedData] = useState<Record<string, MarketPriceData | null>>({});
+
+  // Markets fetched from the previous provider (or data) are fetched again
+  useEffect(() => {
+    setFetchedData({});
+  }, [provider, dataVersion]);
+
+  // Persist on every change
+  useEffect(() => {
+    localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(items));
+  }, [items]);
+
+  // Prefer dashboard data, fall back to individually fetched markets
+  const liveData = useMemo(() => {
+    const data: Record<string, MarketPriceData> = {};
+    items.forEach(item => {
+      const loaded = marketData.find(m => m.marketId === item.marketId) || fetchedData[item.marketId];
+      if (loaded) {
+        data[item.marketId] = loaded;
+      }
+    });
+    return data;
+  }, [items, marketData, fetchedData]);
+
+  // Stable key of the watched markets, so editing notes or reordering does not restart fetches
+  const watchedKey = useMemo(
+    () => JSON.stringify(
+      items
+        .map(({ marketId, marketName, zipCode }): WatchlistMarket => ({ marketId, marketName, zipCode }))
+        .sort((a, b) => a.marketId.localeCompare(b.marketId))
+    ),
+    [items]
+  );
+
+  // Fetch markets that are watched but not shown on the dashboard
+  useEffect(() => {
+    const watched: WatchlistMarket[] = JSON.parse(watchedKey);
+    const missing = watched.filter(
+      item =>
+        !marketData.some(m => m.marketId === item.marketId) &&
+        !(item.marketId in fetchedData)
+    );
+
+    if (missing.length === 0) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    Promise.all(
+      missing.map(async item => {
+        const [city, state] = item.marketName.split(',').map(s => s.trim());
+        const data = await fetchMarketData(provider, city, state || '', item.zipCode, false, controller.signal);
+        return { marketId: item.marketId, data };
+      })
+    ).then(results => {
+      if (controller.signal.aborted) return;
+
+      setFetchedData(prev => {
+        const next = { ...prev };
+        results.forEach(({ marketId, data }) => {
+          // Keep the watchlist's ID so lookups stay stable
+          next[marketId] = data ? { ...data, marketId } : null;
+        });
+        return next;
+      });
+    }, error => {
+      if (isAbortError(error)) return;
+
+      log.error('Failed to fetch watched markets', error);
+      // Mark them unavailable rather than loading forever
+      setFetchedData(prev => ({
+        ...prev,
+        ...Object.fromEntries(missing.map(item => [item.marketId, null])),
+      }));
+    });
+
+    return () => controller.abort();
+  }, [provider, watchedKey, marketData, fetchedData]);
+
+  const getLiveStatus = useCallback(
+    (marketId: string): WatchlistLiveStatus =>
+      liveData[marketId] ? 'loaded' : fetchedData[marketId] === null ? 'unavailable' : 'loading',
+    [liveData, fetchedData]
+  );
+
+  const isInWatchlist = useCallback(
+    (marketId: string) => items.some(item => item.marketId === marketId),
+    [items]
+  );
+
+  const add = useCallback((market: WatchlistMarket) => {
+    setItems(prev => {
+      if (prev.some(item => item.marketId === market.marketId)) {
+        return prev;
+      }
+
+      log.info('Added', { market: market.marketName });
+      return [
+        ...prev,
+        {
+          marketId: market.marketId,
+          marketName: market.marketName,
+          zipCode: market.zipCode,
+          addedAt: new Date().toISOString(),
+        },
+      ];
+    });
+  }, []);
+
+  const remove = useCallback((marketId: string) => {
+    setItems(prev => prev.filter(item => item.marketId !== marketId));
+  }, []);
+
+  const toggle = useCallback(
+    (market: WatchlistMarket) => {
+      if (isInWatchlist(market.marketId)) {
+        remove(market.marketId);
+      } else {
+        add(market);
+      }
+    },
+    [isInWatchlist, add, remove]
+  );
+
+  const move = useCallback((marketId: string, direction: 'up' | 'down') => {
+    setItems(prev => {
+      const index = prev.findIndex(item => item.marketId === marketId);
+      const target = direction === 'up' ? index - 1 : index + 1;
+
+      if (index === -1 || target < 0 || target >= prev.length) {
+        return prev;
+      }
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const updateNotes = useCallback((marketId: string, notes: string) => {
+    setItems(prev =>
+      prev.map(item =>
+        item.marketId === marketId ? { ...item, notes: notes.trim() || undefined } : item
+      )
+    );
+  }, []);
+
+  return {
+    items,
+    liveData,
+    getLiveStatus,
+    isInWatchlist,
+    add,
+    remove,
+    toggle,
+    move,
+    updateNotes,
+  };
+};
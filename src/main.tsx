@@ -2,9 +2,16 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { DataProviderRoot } from './components/DataProviderRoot.tsx'
+import { loadProviderPlugins, getConfiguredPluginPaths } from './services/providers'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Third-party providers must be registered before the first provider is created
+loadProviderPlugins(getConfiguredPluginPaths()).finally(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <DataProviderRoot>
+        <App />
+      </DataProviderRoot>
+    </StrictMode>,
+  )
+})
@@ -0,0 +1,15 @@
+/**
+ * API Proxy Configuration
+ *
+ * When VITE_API_PROXY_URL is set, API providers call the proxy server
+ * (server/proxy.mjs) instead of the APIs directly. The proxy holds the API
+ * keys, so no VITE_*_API_KEY needs to be present in the browser bundle.
+ */
+
+/**
+ * Base URL of the API proxy, or null to call the APIs directly
+ */
+export function getApiProxyURL(): string | null {
+  const configured = (import.meta.env.VITE_API_PROXY_URL as string | undefined)?.trim();
+  return configured ? configured.replace(/\/+$/, '') : null;
+}
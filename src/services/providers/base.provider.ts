@@ -2,15 +2,49 @@
  * Base Provider Class
  *
  * Provides common functionality for all housing data providers including
- * caching, error handling, and logging.
+ * caching, error handling, and logging. API calls go through the shared
+ * request layer (coalescing, retries with backoff, circuit breaker), and
+ * every lookup is recorded in the provider telemetry.
  */
 
+import axios, { type AxiosInstance } from 'axios';
 import { IndexedDBCache as APICache, CACHE_TTL } from '../../utils/indexedDBCache';
-import type { IHousingDataProvider, MarketStats, Property, ProviderInfo } from './types';
+import {
+  registerRateLimit,
+  reserveRequest,
+  recordRateLimitHeaders,
+  getRateLimitStatus,
+} from '../../utils/rateLimitLedger';
+import { executeRequest } from '../../utils/requestLayer';
+import { isAbortError, throwIfAborted } from '../../utils/abort';
+import { describeError, recordProviderCall, type ProviderOperation } from '../../utils/providerTelemetry';
+import type {
+  ConnectionTestResult,
+  IHousingDataProvider,
+  MarketStats,
+  MarketStatsBatchResult,
+  Property,
+  ProviderInfo,
+} from './types';
+import { createLogger, type Logger } from '../../utils/logger';
+import { MisconfiguredError, toProviderError, type ProviderError } from './errors';
+
+// Locations fetched at the same time when a batch falls back to single lookups
+const BATCH_CONCURRENCY = 3;
+
+// Market looked up by connection tests (a ZIP every API provider covers)
+const CONNECTION_TEST_LOCATION = '78701';
 
 export abstract class BaseProvider implements IHousingDataProvider {
   abstract readonly info: ProviderInfo;
 
+  /**
+   * Log channel named after the provider
+   */
+  protected get log(): Logger {
+    return createLogger(this.info.name);
+  }
+
   /**
    * Check if provider is configured
    * Override this method to add specific configuration checks
@@ -19,16 +53,48 @@ export abstract class BaseProvider implements IHousingDataProvider {
 
   /**
    * Fetch market stats from the provider's API
-   * Must be implemented by each provider
+   * Must be implemented by each provider; pass the signal on to HTTP calls
    */
-  protected abstract fetchMarketStatsFromAPI(location: string): Promise<MarketStats | null>;
+  protected abstract fetchMarketStatsFromAPI(location: string, signal?: AbortSignal): Promise<MarketStats | null>;
+
+  /**
+   * Fetch several markets in one API call (optional)
+   * Implement when the API accepts multi-region queries. Locations missing
+   * from the returned record count as having no data.
+   */
+  protected fetchMarketStatsBatchFromAPI?(
+    locations: string[],
+    signal?: AbortSignal
+  ): Promise<Record<string, MarketStats | null>>;
 
   /**
    * Fetch properties from the provider's API (optional)
    * Override if provider supports property search
    */
-  protected async fetchPropertiesFromAPI(_query: string): Promise<Property[]> {
-    throw new Error(`${this.info.name} does not support property search`);
+  protected async fetchPropertiesFromAPI(query: string, signal?: AbortSignal): Promise<Property[]> {
+    throwIfAborted(signal);
+    throw this.unsupportedError('property search', query);
+  }
+
+  /**
+   * Fetch a single property from the provider's API (optional)
+   * Override if provider supports property details
+   */
+  protected async fetchPropertyDetailsFromAPI(propertyId: string, signal?: AbortSignal): Promise<Property | null> {
+    throwIfAborted(signal);
+    throw this.unsupportedError('property details', propertyId);
+  }
+
+  /**
+   * Error for a feature this provider does not offer (retrying cannot help)
+   */
+  protected unsupportedError(feature: string, location?: string): MisconfiguredError {
+    return new MisconfiguredError(`${this.info.name} does not support ${feature}`, {
+      providerId: this.info.id,
+      location,
+      retryable: false,
+      userMessage: `${this.info.name} does not offer ${feature}.`,
+    });
   }
 
   /**
@@ -45,128 +111,572 @@ export abstract class BaseProvider implements IHousingDataProvider {
     return `${this.info.id}:search:${query.toLowerCase()}`;
   }
 
+  /**
+   * Get cache key for property details
+   */
+  protected getPropertyDetailsCacheKey(propertyId: string): string {
+    return `${this.info.id}:property:${propertyId}`;
+  }
+
   /**
    * Get market statistics with caching
    */
-  async getMarketStats(location: string, forceRefresh: boolean = false): Promise<MarketStats | null> {
+  async getMarketStats(
+    location: string,
+    forceRefresh: boolean = false,
+    signal?: AbortSignal
+  ): Promise<MarketStats | null> {
+    throwIfAborted(signal);
+    const started = performance.now();
     const cacheKey = this.getMarketStatsCacheKey(location);
 
     // Check cache first (unless force refresh)
     if (!forceRefresh) {
       const cached = await APICache.get<MarketStats>(cacheKey);
       if (cached) {
-        console.log(
-          `%c[${this.info.name}] Cache Hit`,
-          'color: #10B981; font-weight: bold',
-          { location, cacheKey }
-        );
+        this.log.debug('Cache Hit', { location, cacheKey });
+        this.recordCall('market-stats', started, true);
         return cached;
       }
     }
 
-    console.log(
-      `%c[${this.info.name}] Fetching market stats`,
-      'color: #6366F1; font-weight: bold',
-      { location, forceRefresh }
+    this.log.debug('Fetching market stats', { location, forceRefresh });
+
+    try {
+      const stats = await executeRequest(
+        this.info.id,
+        cacheKey,
+        (requestSignal) => this.withProviderErrors(
+          () => this.fetchAndCacheMarketStats(location, cacheKey, requestSignal),
+          location
+        ),
+        signal
+      );
+      this.recordCall('market-stats', started, false);
+      return stats;
+    } catch (error) {
+      this.recordCall('market-stats', started, false, error);
+      if (isAbortError(error)) {
+        this.logCancelled({ location });
+        throw error;
+      }
+      this.log.error('✗ Error fetching market stats', { location, error });
+      throw this.asProviderError(error, location);
+    }
+  }
+
+  /**
+   * Fetch market stats and cache them when they hold usable prices
+   */
+  private async fetchAndCacheMarketStats(
+    location: string,
+    cacheKey: string,
+    signal: AbortSignal
+  ): Promise<MarketStats | null> {
+    const stats = await this.fetchMarketStatsFromAPI(location, signal);
+
+    if (stats) {
+      await this.cacheMarketStats(location, cacheKey, stats);
+    }
+
+    return stats;
+  }
+
+  /**
+   * Cache market stats when they hold usable prices
+   */
+  private async cacheMarketStats(location: string, cacheKey: string, stats: MarketStats): Promise<void> {
+    const hasValidData =
+      stats.saleData?.averagePrice ||
+      stats.saleData?.medianPrice ||
+      stats.averagePrice ||
+      stats.medianPrice;
+
+    if (hasValidData) {
+      await APICache.set(cacheKey, stats, CACHE_TTL.MARKET_STATS);
+      this.log.debug('✓ Cached valid market data', { location });
+    } else {
+      this.log.warn('⚠ No valid data to cache', { location, stats });
+    }
+  }
+
+  /**
+   * Get market statistics for several locations
+   * Cache reads share one IndexedDB transaction. Misses go to the API in a
+   * single call when the provider supports multi-region queries, otherwise
+   * a few at a time. Failed locations are reported, not thrown.
+   */
+  async getMarketStatsBatch(
+    locations: string[],
+    forceRefresh: boolean = false,
+    signal?: AbortSignal
+  ): Promise<MarketStatsBatchResult> {
+    throwIfAborted(signal);
+    const started = performance.now();
+
+    const unique = Array.from(new Set(locations));
+    const cacheKeys = new Map(unique.map(location => [location, this.getMarketStatsCacheKey(location)]));
+    const result: MarketStatsBatchResult = { stats: {}, missing: [], failed: [], cached: [] };
+
+    let misses = unique;
+    if (!forceRefresh) {
+      const hits = await APICache.getMany<MarketStats>(Array.from(cacheKeys.values()));
+      misses = unique.filter(location => {
+        const cached = hits.get(cacheKeys.get(location)!);
+        if (cached) {
+          result.stats[location] = cached;
+          result.cached.push(location);
+          this.recordCall('market-stats-batch', started, true);
+        }
+        return !cached;
+      });
+      throwIfAborted(signal);
+    }
+
+    this.log.debug(
+      'Fetching market stats batch',
+      { requested: unique.length, cached: result.cached.length, fetching: misses.length, forceRefresh }
     );
 
+    if (misses.length > 0) {
+      if (this.fetchMarketStatsBatchFromAPI) {
+        await this.fetchBatchNatively(misses, cacheKeys, result, signal);
+      } else {
+        await this.fetchBatchIndividually(misses, cacheKeys, result, signal);
+      }
+    }
+
+    if (result.failed.length > 0 || result.missing.length > 0) {
+      this.log.warn(
+        '⚠ Partial batch result',
+        {
+          answered: Object.keys(result.stats).length,
+          missing: result.missing,
+          failed: result.failed.map(({ location, error }) => ({ location, error: error.message })),
+        }
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch batch misses with one multi-region API call
+   */
+  private async fetchBatchNatively(
+    locations: string[],
+    cacheKeys: Map<string, string>,
+    result: MarketStatsBatchResult,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const requestKey = `${this.info.id}:market-stats-batch:${[...locations].sort().join('|')}`;
+    const started = performance.now();
+
     try {
-      const stats = await this.fetchMarketStatsFromAPI(location);
-
-      if (stats) {
-        // Store in cache
-        const hasValidData =
-          stats.saleData?.averagePrice ||
-          stats.saleData?.medianPrice ||
-          stats.averagePrice ||
-          stats.medianPrice;
-
-        if (hasValidData) {
-          await APICache.set(cacheKey, stats, CACHE_TTL.MARKET_STATS);
-          console.log(
-            `%c[${this.info.name}] ✓ Cached valid market data`,
-            'color: #10B981',
-            { location }
-          );
+      const answers = await executeRequest(
+        this.info.id,
+        requestKey,
+        (requestSignal) => this.withProviderErrors(
+          () => this.fetchMarketStatsBatchFromAPI!(locations, requestSignal)
+        ),
+        signal
+      );
+
+      for (const location of locations) {
+        this.recordCall('market-stats-batch', started, false);
+        const stats = answers[location];
+        if (stats) {
+          await this.cacheMarketStats(location, cacheKeys.get(location)!, stats);
+          result.stats[location] = stats;
         } else {
-          console.warn(
-            `%c[${this.info.name}] ⚠ No valid data to cache`,
-            'color: #F59E0B',
-            { location, stats }
-          );
+          result.missing.push(location);
         }
       }
-
-      return stats;
     } catch (error) {
-      console.error(
-        `%c[${this.info.name}] ✗ Error fetching market stats`,
-        'color: #EF4444; font-weight: bold',
-        { location, error }
-      );
-      throw error;
+      locations.forEach(() => this.recordCall('market-stats-batch', started, false, error));
+      if (isAbortError(error)) {
+        throw error;
+      }
+      const failure = this.asProviderError(error);
+      locations.forEach(location => result.failed.push({ location, error: failure }));
     }
   }
 
+  /**
+   * Fetch batch misses one location at a time, a few in parallel
+   */
+  private async fetchBatchIndividually(
+    locations: string[],
+    cacheKeys: Map<string, string>,
+    result: MarketStatsBatchResult,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const queue = [...locations];
+
+    const worker = async () => {
+      while (queue.length > 0) {
+        const location = queue.shift()!;
+        const cacheKey = cacheKeys.get(location)!;
+        const started = performance.now();
+
+        try {
+          const stats = await executeRequest(
+            this.info.id,
+            cacheKey,
+            (requestSignal) => this.withProviderErrors(
+              () => this.fetchAndCacheMarketStats(location, cacheKey, requestSignal),
+              location
+            ),
+            signal
+          );
+          this.recordCall('market-stats-batch', started, false);
+          if (stats) {
+            result.stats[location] = stats;
+          } else {
+            result.missing.push(location);
+          }
+        } catch (error) {
+          this.recordCall('market-stats-batch', started, false, error);
+          if (isAbortError(error)) {
+            throw error;
+          }
+          result.failed.push({ location, error: this.asProviderError(error, location) });
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(BATCH_CONCURRENCY, locations.length) }, worker)
+    );
+  }
+
   /**
    * Search for properties with caching (optional feature)
    */
-  async searchProperties(query: string, forceRefresh: boolean = false): Promise<Property[]> {
+  async searchProperties(
+    query: string,
+    forceRefresh: boolean = false,
+    signal?: AbortSignal
+  ): Promise<Property[]> {
+    throwIfAborted(signal);
     if (!this.info.features.propertySearch) {
-      throw new Error(`${this.info.name} does not support property search`);
+      throw this.unsupportedError('property search', query);
     }
 
+    const started = performance.now();
     const cacheKey = this.getPropertySearchCacheKey(query);
 
     // Check cache first (unless force refresh)
     if (!forceRefresh) {
       const cached = await APICache.get<Property[]>(cacheKey);
       if (cached) {
-        console.log(
-          `%c[${this.info.name}] Cache Hit (Search)`,
-          'color: #10B981; font-weight: bold',
-          { query }
-        );
+        this.log.debug('Cache Hit (Search)', { query });
+        this.recordCall('search', started, true);
         return cached;
       }
     }
 
-    console.log(
-      `%c[${this.info.name}] Searching properties`,
-      'color: #6366F1; font-weight: bold',
-      { query }
-    );
+    this.log.debug('Searching properties', { query });
 
     try {
-      const properties = await this.fetchPropertiesFromAPI(query);
+      const results = await executeRequest(this.info.id, cacheKey, (requestSignal) => this.withProviderErrors(async () => {
+        const properties = await this.fetchPropertiesFromAPI(query, requestSignal);
 
-      if (properties && properties.length > 0) {
-        await APICache.set(cacheKey, properties, CACHE_TTL.SEARCH);
-        console.log(
-          `%c[${this.info.name}] ✓ Cached search results`,
-          'color: #10B981',
-          { query, count: properties.length }
-        );
+        if (properties && properties.length > 0) {
+          await APICache.set(cacheKey, properties, CACHE_TTL.SEARCH);
+          this.log.debug('✓ Cached search results', { query, count: properties.length });
+        }
+
+        return properties;
+      }), signal);
+      this.recordCall('search', started, false);
+      return results;
+    } catch (error) {
+      this.recordCall('search', started, false, error);
+      if (isAbortError(error)) {
+        this.logCancelled({ query });
+        throw error;
       }
+      this.log.error('✗ Error searching properties', { query, error });
+      throw this.asProviderError(error);
+    }
+  }
 
-      return properties;
+  /**
+   * Get property details with caching (optional feature)
+   */
+  async getPropertyDetails(
+    propertyId: string,
+    forceRefresh: boolean = false,
+    signal?: AbortSignal
+  ): Promise<Property | null> {
+    throwIfAborted(signal);
+    if (!this.info.features.propertyDetails) {
+      throw this.unsupportedError('property details', propertyId);
+    }
+
+    const started = performance.now();
+    const cacheKey = this.getPropertyDetailsCacheKey(propertyId);
+
+    // Check cache first (unless force refresh)
+    if (!forceRefresh) {
+      const cached = await APICache.get<Property>(cacheKey);
+      if (cached) {
+        this.log.debug('Cache Hit (Property)', { propertyId });
+        this.recordCall('property', started, true);
+        return cached;
+      }
+    }
+
+    this.log.debug('Fetching property details', { propertyId });
+
+    try {
+      const details = await executeRequest(this.info.id, cacheKey, (requestSignal) => this.withProviderErrors(async () => {
+        const property = await this.fetchPropertyDetailsFromAPI(propertyId, requestSignal);
+
+        if (property) {
+          await APICache.set(cacheKey, property, CACHE_TTL.PROPERTY);
+          this.log.debug('✓ Cached property details', { propertyId });
+        }
+
+        return property;
+      }), signal);
+      this.recordCall('property', started, false);
+      return details;
     } catch (error) {
-      console.error(
-        `%c[${this.info.name}] ✗ Error searching properties`,
-        'color: #EF4444; font-weight: bold',
-        { query, error }
+      this.recordCall('property', started, false, error);
+      if (isAbortError(error)) {
+        this.logCancelled({ propertyId });
+        throw error;
+      }
+      this.log.error('✗ Error fetching property details', { propertyId, error });
+      throw this.asProviderError(error);
+    }
+  }
+
+  /**
+   * Make an uncached API call through the request layer (coalescing, retries,
+   * circuit breaker) and record it in the provider telemetry
+   * For provider-specific lookups beyond the cached operations above.
+   */
+  protected async executeUncached<T>(
+    operation: ProviderOperation,
+    requestKey: string,
+    call: (signal: AbortSignal) => Promise<T>,
+    location?: string,
+    signal?: AbortSignal
+  ): Promise<T> {
+    throwIfAborted(signal);
+    const started = performance.now();
+
+    try {
+      const result = await executeRequest(
+        this.info.id,
+        requestKey,
+        (requestSignal) => this.withProviderErrors(() => call(requestSignal), location),
+        signal
       );
-      throw error;
+      this.recordCall(operation, started, false);
+      return result;
+    } catch (error) {
+      this.recordCall(operation, started, false, error);
+      if (isAbortError(error)) {
+        this.logCancelled({ operation, ...(location ? { location } : {}) });
+        throw error;
+      }
+      this.log.error(`✗ Error in ${operation}`, { location, error });
+      throw this.asProviderError(error, location);
+    }
+  }
+
+  /**
+   * Make one uncached request and report authentication, quota and latency
+   * Skips the request layer so the result reflects a single attempt. The
+   * request counts against the provider's quota like any other.
+   */
+  async testConnection(signal?: AbortSignal): Promise<ConnectionTestResult> {
+    const quota = () => {
+      const status = getRateLimitStatus(this.info.id);
+      return status ? { limit: status.limit, remaining: status.remaining, resetAt: status.resetAt } : null;
+    };
+
+    if (!this.isConfigured()) {
+      return {
+        ok: false,
+        auth: 'not-configured',
+        latencyMs: null,
+        quota: quota(),
+        message: 'Required settings are missing',
+      };
+    }
+
+    const started = performance.now();
+
+    try {
+      await this.fetchMarketStatsFromAPI(CONNECTION_TEST_LOCATION, signal);
+      const latencyMs = Math.round(performance.now() - started);
+
+      this.log.info('✓ Connection test passed', { latencyMs });
+
+      return { ok: true, auth: 'ok', latencyMs, quota: quota(), message: 'Connected' };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      const latencyMs = Math.round(performance.now() - started);
+      const providerError = this.asProviderError(error, CONNECTION_TEST_LOCATION);
+
+      this.log.warn('Connection test failed', { kind: providerError.kind, status: providerError.statusCode, error });
+
+      switch (providerError.kind) {
+        case 'quota-exhausted':
+          // Refused locally - nothing was sent
+          return { ok: false, auth: 'unknown', latencyMs: null, quota: quota(), message: providerError.message };
+
+        case 'auth':
+          return {
+            ok: false,
+            auth: 'failed',
+            latencyMs,
+            quota: quota(),
+            message: 'Authentication failed - check the API key',
+          };
+
+        case 'rate-limit':
+          return {
+            ok: false,
+            auth: 'ok',
+            latencyMs,
+            quota: quota(),
+            message: 'Credentials accepted, but the rate limit is exhausted',
+          };
+
+        default:
+          return { ok: false, auth: 'unknown', latencyMs, quota: quota(), message: providerError.message };
+      }
+    }
+  }
+
+  /**
+   * Enforce this provider's request budget on an HTTP client
+   * Every request is counted in the persistent rate-limit ledger before it is
+   * sent (and refused or queued once the budget is spent); rate-limit headers
+   * on responses update the remaining quota. Cache hits never reach the client,
+   * so they do not count. Attach before other response interceptors so the
+   * raw response headers are still available on errors.
+   */
+  protected attachRateLimiter(client: AxiosInstance): void {
+    registerRateLimit(this.info.id, this.info.rateLimits);
+    this.syncRateLimitInfo();
+
+    client.interceptors.request.use(async (config) => {
+      try {
+        await reserveRequest(this.info.id, config.signal as AbortSignal | undefined);
+      } finally {
+        this.syncRateLimitInfo();
+      }
+      return config;
+    });
+
+    client.interceptors.response.use(
+      (response) => {
+        recordRateLimitHeaders(this.info.id, { ...response.headers }, response.status);
+        this.syncRateLimitInfo();
+        return response;
+      },
+      (error) => {
+        const response = error?.response;
+        if (response) {
+          recordRateLimitHeaders(this.info.id, { ...response.headers }, response.status);
+          this.syncRateLimitInfo();
+        }
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Send one HEAD request to a client's base URL, without credentials
+   * Bypasses the client (and so the rate-limit ledger and request layer): an
+   * unauthenticated request spends no quota. Any answer below 500 means the
+   * API is up. Resolves with the round trip in milliseconds. Without any
+   * response it rejects with a NetworkError that has no status code; from a
+   * browser that includes cross-origin blocks.
+   */
+  protected async probeEndpoint(client: AxiosInstance, signal?: AbortSignal): Promise<number> {
+    const started = performance.now();
+    try {
+      await axios.head(client.getUri(), {
+        timeout: client.defaults.timeout,
+        signal,
+        validateStatus: status => status < 500,
+      });
+      return Math.round(performance.now() - started);
+    } catch (error) {
+      throw axios.isCancel(error) ? error : toProviderError(error, { providerId: this.info.id });
+    }
+  }
+
+  /**
+   * Copy the ledger's remaining quota into info.rateLimits
+   */
+  private syncRateLimitInfo(): void {
+    const status = getRateLimitStatus(this.info.id);
+    if (status) {
+      this.info.rateLimits.remaining = status.remaining;
+      this.info.rateLimits.resetAt = status.resetAt;
+    }
+  }
+
+  /**
+   * Map a failure (not a cancellation) onto the provider error hierarchy
+   */
+  private asProviderError(error: unknown, location?: string): ProviderError {
+    return toProviderError(error, { providerId: this.info.id, location });
+  }
+
+  /**
+   * Run an API call, rethrowing its failures as provider errors
+   * Used inside the request layer so retries see each error's retryability.
+   */
+  private async withProviderErrors<T>(call: () => Promise<T>, location?: string): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      throw isAbortError(error) ? error : this.asProviderError(error, location);
     }
   }
 
+  /**
+   * Record a lookup in the provider telemetry
+   * Pass the error for failed or cancelled lookups.
+   */
+  private recordCall(operation: ProviderOperation, started: number, cacheHit: boolean, error?: unknown): void {
+    const failed = error !== undefined && !isAbortError(error);
+    recordProviderCall({
+      providerId: this.info.id,
+      operation,
+      latencyMs: performance.now() - started,
+      outcome: error === undefined ? 'success' : failed ? 'error' : 'cancelled',
+      cacheHit,
+      ...(failed ? describeError(error) : {}),
+    });
+  }
+
+  /**
+   * Log a request that was cancelled by its caller
+   */
+  private logCancelled(details: Record<string, string>): void {
+    this.log.debug('Request cancelled', details);
+  }
+
   /**
    * Log provider initialization
    */
   protected logInitialization(): void {
-    console.log(
-      `%c[${this.info.name}] Provider initialized`,
-      'color: #6366F1; font-weight: bold',
+    this.log.info(
+      'Provider initialized',
       {
         id: this.info.id,
         configured: this.isConfigured(),
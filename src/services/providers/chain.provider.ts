@@ -0,0 +1,381 @@
+/**
+ * Fallback Chain Provider
+ *
+ * Composite provider that asks an ordered list of providers for each location
+ * (e.g. Zillow → RentCast → CSV → Mock) and returns the first answer, tagged
+ * with which provider supplied it and why earlier ones were skipped.
+ */
+
+import type {
+  IHousingDataProvider,
+  MarketSourceAttribution,
+  MarketStats,
+  MarketStatsBatchResult,
+  Property,
+  ProviderInfo,
+  ProviderSkip,
+} from './types';
+import { CSVProvider } from './csv.provider';
+import { getProviderPlugin, type ProviderPlugin } from './pluginRegistry';
+import { isAbortError } from '../../utils/abort';
+import { isSyntheticDataAllowed } from '../../utils/syntheticData';
+import { createLogger } from '../../utils/logger';
+import {
+  MisconfiguredError,
+  selectProviderError,
+  toProviderError,
+  type ProviderError,
+  type ProviderErrorKind,
+} from './errors';
+
+const log = createLogger('Chain Provider');
+
+// Default fallback order when VITE_PROVIDER_CHAIN is not set
+const DEFAULT_PROVIDER_CHAIN = ['zillow-metrics', 'rentcast', 'csv', 'mock'];
+
+/**
+ * Provider metadata (shared with the plugin registry)
+ */
+const CHAIN_INFO: ProviderInfo = {
+  id: 'chain',
+  name: 'Auto (Fallback Chain)',
+  description: 'Tries each provider in turn and shows which one answered',
+  icon: '🔗',
+  requiresApiKey: false,
+  rateLimits: {
+    limit: Infinity,
+    period: 'per provider',
+  },
+  features: {
+    marketStats: true,
+    propertySearch: true,
+    propertyDetails: true,
+  },
+};
+
+/**
+ * Attribute data to a provider
+ */
+export function createSourceAttribution(
+  provider: IHousingDataProvider,
+  skipped: ProviderSkip[] = []
+): MarketSourceAttribution {
+  return {
+    providerId: provider.info.id,
+    providerName: provider.info.name,
+    icon: provider.info.icon,
+    isMock: provider.info.id === 'mock',
+    skipped,
+  };
+}
+
+export class ChainProvider implements IHousingDataProvider {
+  private readonly providers: IHousingDataProvider[];
+
+  readonly info: ProviderInfo;
+
+  constructor(providers: IHousingDataProvider[]) {
+    this.providers = providers;
+    this.info = {
+      ...CHAIN_INFO,
+      description: `Tries ${providers.map(p => p.info.name).join(' → ')} for each market`,
+      rateLimits: { ...CHAIN_INFO.rateLimits },
+      features: {
+        marketStats: providers.some(p => p.info.features.marketStats),
+        propertySearch: providers.some(p => p.info.features.propertySearch),
+        propertyDetails: providers.some(p => p.info.features.propertyDetails),
+      },
+    };
+
+    log.info('Initialized', { chain: providers.map(p => p.info.id) });
+  }
+
+  /**
+   * Providers in the chain, in order
+   */
+  getProviders(): IHousingDataProvider[] {
+    return this.providers;
+  }
+
+  isConfigured(): boolean {
+    return this.providers.some(p => p.isConfigured());
+  }
+
+  /**
+   * Get market stats from the first provider in the chain that has them
+   */
+  async getMarketStats(
+    location: string,
+    forceRefresh: boolean = false,
+    signal?: AbortSignal
+  ): Promise<MarketStats | null> {
+    const skipped: ProviderSkip[] = [];
+
+    for (const provider of this.providers) {
+      // CSV data loads asynchronously from IndexedDB
+      if (provider instanceof CSVProvider) {
+        await provider.waitForDataLoad(signal);
+      }
+
+      if (!provider.isConfigured()) {
+        skipped.push(this.skip(provider, 'not-configured', 'Not configured'));
+        continue;
+      }
+
+      try {
+        const stats = await provider.getMarketStats(location, forceRefresh, signal);
+
+        if (stats) {
+          log.debug(
+            '✓ Answered',
+            { location, provider: provider.info.id, skipped: skipped.map(s => s.providerId) }
+          );
+          return { ...stats, source: createSourceAttribution(provider, skipped) };
+        }
+
+        skipped.push(this.skip(provider, 'no-data', `No data for ${location}`));
+      } catch (error) {
+        // A cancelled lookup ends the whole chain
+        if (isAbortError(error)) {
+          throw error;
+        }
+        const providerError = toProviderError(error, { providerId: provider.info.id, location });
+        skipped.push(this.skip(provider, 'error', providerError.userMessage, providerError.kind));
+      }
+    }
+
+    log.warn('No provider could answer', { location, skipped });
+    return null;
+  }
+
+  /**
+   * Get market stats for several locations, batching each provider's share
+   * Locations a provider cannot answer fall through to the next provider.
+   */
+  async getMarketStatsBatch(
+    locations: string[],
+    forceRefresh: boolean = false,
+    signal?: AbortSignal
+  ): Promise<MarketStatsBatchResult> {
+    const result: MarketStatsBatchResult = { stats: {}, missing: [], failed: [], cached: [] };
+    const skippedByLocation = new Map<string, ProviderSkip[]>(
+      locations.map(location => [location, []])
+    );
+    const errorsByLocation = new Map<string, ProviderError[]>();
+    let remaining = Array.from(skippedByLocation.keys());
+
+    for (const provider of this.providers) {
+      if (remaining.length === 0) break;
+
+      // CSV data loads asynchronously from IndexedDB
+      if (provider instanceof CSVProvider) {
+        await provider.waitForDataLoad(signal);
+      }
+
+      if (!provider.isConfigured()) {
+        const skip = this.skip(provider, 'not-configured', 'Not configured');
+        remaining.forEach(location => skippedByLocation.get(location)!.push(skip));
+        continue;
+      }
+
+      const batch = await this.batchFromProvider(provider, remaining, forceRefresh, signal);
+
+      Object.entries(batch.stats).forEach(([location, stats]) => {
+        result.stats[location] = {
+          ...stats,
+          source: createSourceAttribution(provider, skippedByLocation.get(location)),
+        };
+      });
+      result.cached.push(...batch.cached);
+
+      batch.missing.forEach(location => skippedByLocation.get(location)!.push(
+        { providerId: provider.info.id, providerName: provider.info.name, reason: 'no-data', message: `No data for ${location}` }
+      ));
+      batch.failed.forEach(({ location, error }) => {
+        skippedByLocation.get(location)!.push({
+          providerId: provider.info.id,
+          providerName: provider.info.name,
+          reason: 'error',
+          message: error.userMessage,
+          errorKind: error.kind,
+        });
+        errorsByLocation.set(location, [...(errorsByLocation.get(location) ?? []), error]);
+      });
+
+      log.debug(
+        'Batch answered',
+        {
+          provider: provider.info.id,
+          answered: Object.keys(batch.stats).length,
+          fallingThrough: batch.missing.length + batch.failed.length,
+        }
+      );
+
+      remaining = remaining.filter(location => !(location in result.stats));
+    }
+
+    // Locations no provider answered are failures when a provider failed on them
+    remaining.forEach(location => {
+      const error = selectProviderError(errorsByLocation.get(location) ?? []);
+      if (error) {
+        result.failed.push({ location, error });
+      } else {
+        result.missing.push(location);
+      }
+    });
+
+    if (remaining.length > 0) {
+      log.warn('No provider could answer some locations', { locations: remaining });
+    }
+
+    return result;
+  }
+
+  /**
+   * Ask one provider for a set of locations, batched when it supports it
+   */
+  private async batchFromProvider(
+    provider: IHousingDataProvider,
+    locations: string[],
+    forceRefresh: boolean,
+    signal?: AbortSignal
+  ): Promise<MarketStatsBatchResult> {
+    if (provider.getMarketStatsBatch) {
+      return provider.getMarketStatsBatch(locations, forceRefresh, signal);
+    }
+
+    const result: MarketStatsBatchResult = { stats: {}, missing: [], failed: [], cached: [] };
+    for (const location of locations) {
+      try {
+        const stats = await provider.getMarketStats(location, forceRefresh, signal);
+        if (stats) {
+          result.stats[location] = stats;
+        } else {
+          result.missing.push(location);
+        }
+      } catch (error) {
+        // A cancelled lookup ends the whole chain
+        if (isAbortError(error)) {
+          throw error;
+        }
+        result.failed.push({ location, error: toProviderError(error, { providerId: provider.info.id, location }) });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Search properties with the first configured provider that supports it
+   */
+  async searchProperties(
+    query: string,
+    forceRefresh: boolean = false,
+    signal?: AbortSignal
+  ): Promise<Property[]> {
+    const provider = this.providers.find(p => p.info.features.propertySearch && p.isConfigured());
+
+    if (!provider?.searchProperties) {
+      throw new MisconfiguredError('No provider in the chain supports property search', {
+        providerId: this.info.id,
+        userMessage: 'No configured provider can search properties.',
+      });
+    }
+
+    return provider.searchProperties(query, forceRefresh, signal);
+  }
+
+  /**
+   * Get property details with the first configured provider that supports it
+   */
+  async getPropertyDetails(
+    propertyId: string,
+    forceRefresh: boolean = false,
+    signal?: AbortSignal
+  ): Promise<Property | null> {
+    const provider = this.providers.find(p => p.info.features.propertyDetails && p.isConfigured());
+
+    if (!provider?.getPropertyDetails) {
+      throw new MisconfiguredError('No provider in the chain supports property details', {
+        providerId: this.info.id,
+        userMessage: 'No configured provider can look up property details.',
+      });
+    }
+
+    return provider.getPropertyDetails(propertyId, forceRefresh, signal);
+  }
+
+  private skip(
+    provider: IHousingDataProvider,
+    reason: ProviderSkip['reason'],
+    message: string,
+    errorKind?: ProviderErrorKind
+  ): ProviderSkip {
+    log.info(`Skipping ${provider.info.name}`, { reason, message, errorKind });
+    return {
+      providerId: provider.info.id,
+      providerName: provider.info.name,
+      reason,
+      message,
+      ...(errorKind && { errorKind }),
+    };
+  }
+}
+
+/**
+ * Supplies the instance of a chain member
+ */
+export type ChainMemberResolver = (plugin: ProviderPlugin) => IHousingDataProvider;
+
+// Fresh instances until the provider registry installs its shared ones
+let resolveChainMember: ChainMemberResolver = (plugin) => plugin.create();
+
+/**
+ * Set where chain members come from
+ * The provider registry passes its shared instances, so the chain sees the
+ * same CSV data (uploads, dataset switches) as the rest of the app. Kept as a
+ * hook because the registry depends on the factory, which registers the chain.
+ */
+export function setChainMemberResolver(resolver: ChainMemberResolver): void {
+  resolveChainMember = resolver;
+}
+
+/**
+ * Create the fallback chain from registered providers
+ * Order comes from VITE_PROVIDER_CHAIN (comma-separated provider IDs).
+ * Members are not swapped for Mock when unconfigured, so the chain can
+ * report why each one was skipped. Mock is left out of the chain while
+ * synthetic data is disabled.
+ */
+function createChainProvider(): ChainProvider {
+  const configured = import.meta.env.VITE_PROVIDER_CHAIN as string | undefined;
+  const chain = (configured
+    ? configured.split(',').map(id => id.trim()).filter(Boolean)
+    : DEFAULT_PROVIDER_CHAIN
+  ).filter(id => id !== 'mock' || isSyntheticDataAllowed());
+
+  const providers = chain
+    .map((id): IHousingDataProvider | null => {
+      const plugin = getProviderPlugin(id);
+      if (!plugin || plugin.chainable === false) {
+        log.warn('Unknown provider in chain', { id });
+        return null;
+      }
+      return resolveChainMember(plugin);
+    })
+    .filter((provider): provider is IHousingDataProvider => provider !== null);
+
+  const mock = getProviderPlugin('mock');
+  return new ChainProvider(
+    providers.length > 0 || !isSyntheticDataAllowed() || !mock ? providers : [resolveChainMember(mock)]
+  );
+}
+
+/**
+ * Plugin registration
+ */
+export const chainPlugin: ProviderPlugin = {
+  info: CHAIN_INFO,
+  status: 'available',
+  chainable: false,
+  create: () => createChainProvider(),
+};
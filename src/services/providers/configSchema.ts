@@ -0,0 +1,102 @@
+/**
+ * Provider Configuration Schemas
+ *
+ * Resolves and validates the settings a provider declares in its schema.
+ * A value comes from (first match wins): explicit overrides, the in-app
+ * settings vault (once unlocked), the field's VITE_* env var, the default.
+ */
+
+import type { ProviderConfigField, ProviderConfigValues } from './types';
+import { getStoredProviderConfig } from '../../utils/configVault';
+
+const isSet = (value: string | number | undefined): value is string | number =>
+  value !== undefined && value !== '';
+
+/**
+ * Where a field's value currently comes from
+ */
+export function getConfigValueSource(
+  providerId: string,
+  field: ProviderConfigField
+): 'saved' | 'env' | 'default' | 'unset' {
+  if (isSet(getStoredProviderConfig(providerId)[field.key])) return 'saved';
+  if (field.envVar && isSet(import.meta.env[field.envVar])) return 'env';
+  if (isSet(field.defaultValue)) return 'default';
+  return 'unset';
+}
+
+/**
+ * Resolve every field of a schema to its effective value
+ * Number fields that do not parse fall back to their default.
+ */
+export function resolveProviderConfig(
+  providerId: string,
+  schema: ProviderConfigField[],
+  overrides: ProviderConfigValues = {}
+): ProviderConfigValues {
+  const stored = getStoredProviderConfig(providerId);
+
+  return Object.fromEntries(schema.map(field => {
+    const candidates = [
+      overrides[field.key],
+      stored[field.key],
+      field.envVar ? import.meta.env[field.envVar] : undefined,
+    ];
+    const value = candidates.find(isSet) ?? field.defaultValue ?? '';
+
+    if (field.type === 'number') {
+      const parsed = Number(value);
+      return [field.key, Number.isFinite(parsed) ? parsed : Number(field.defaultValue ?? 0)];
+    }
+
+    return [field.key, String(value).trim()];
+  }));
+}
+
+/**
+ * Check entered values against a schema
+ * Returns an error message per invalid field (empty when all are valid).
+ * Blank fields are valid when an env var or default will fill them.
+ */
+export function validateProviderConfig(
+  schema: ProviderConfigField[],
+  values: ProviderConfigValues
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  schema.forEach(field => {
+    const value = values[field.key];
+
+    if (!isSet(value)) {
+      const hasFallback = (field.envVar && isSet(import.meta.env[field.envVar])) || isSet(field.defaultValue);
+      if (field.required && !hasFallback) {
+        errors[field.key] = `${field.label} is required`;
+      }
+      return;
+    }
+
+    if (field.type === 'number') {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) {
+        errors[field.key] = `${field.label} must be a number`;
+      } else if (field.min !== undefined && parsed < field.min) {
+        errors[field.key] = `${field.label} must be at least ${field.min}`;
+      } else if (field.max !== undefined && parsed > field.max) {
+        errors[field.key] = `${field.label} must be at most ${field.max}`;
+      }
+    }
+
+    if (field.type === 'url') {
+      try {
+        const url = new URL(String(value));
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+          errors[field.key] = `${field.label} must be an http(s) URL`;
+        }
+      } catch {
+        errors[field.key] = `${field.label} must be a valid URL`;
+      }
+    }
+  });
+
+  return errors;
+}
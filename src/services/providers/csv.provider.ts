@@ -1,63 +1,137 @@
 /**
  * CSV File Provider
  *
- * Loads housing market data from a user-uploaded CSV file.
- * Data is stored in localStorage for persistence across sessions.
+ * Loads housing market data from user-uploaded CSV files.
+ * Each import is kept as a dataset in IndexedDB; one dataset (or a merge of
+ * several) is active at a time and persists across sessions.
  */
 
 import { BaseProvider } from './base.provider';
 import type { MarketStats, ProviderInfo } from './types';
-import { parseCSV, validateCSVContent } from '../../utils/csvParser';
+import type { ProviderPlugin } from './pluginRegistry';
 import { IndexedDBCache } from '../../utils/indexedDBCache';
-
-const CSV_FILENAME_STORAGE_KEY = 'csv-file-name';
-const CSV_MARKETS_STORAGE_KEY = 'csv-parsed-markets';
-const CSV_DATA_SOURCE_KEY = 'csv-data-source'; // 'default' or 'user-upload'
+import { parseCSVSource } from '../../utils/csvWorker';
+import type { CSVSource, CSVParseProgress, CSVParseSummary } from '../../utils/csvStream';
+import type { CSVValidationReport } from '../../utils/csvValidation';
+import type { CSVParserOptions } from '../../utils/csvParser';
+import { abortableDelay, isAbortError, raceAbort } from '../../utils/abort';
+import {
+  CSV_CHUNK_KEY_PREFIX,
+  createDatasetId,
+  getDateRange,
+  loadDatasetLibrary,
+  readDatasetMarkets,
+  removeDatasetChunks,
+  saveDatasetLibrary,
+  type CSVDatasetInfo,
+  type CSVDatasetLibrary,
+} from '../../utils/csvDatasetLibrary';
+import { createLogger } from '../../utils/logger';
+import { MisconfiguredError, NotFoundError, ParseError } from './errors';
+
+const log = createLogger('CSV Provider');
 
 // Support environment variable for Cloud Run / serverless deployments
 // Use VITE_DEFAULT_CSV_URL to point to Cloud Storage or CDN
 // Falls back to local file in public folder
 const DEFAULT_CSV_PATH = import.meta.env.VITE_DEFAULT_CSV_URL || '/data/default-housing-data.csv';
 
+// Staged chunks expire unless the import is committed, so abandoned imports do not pile up
+const STAGED_CHUNK_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * A parsed CSV file waiting for the user to review its validation report
+ * Markets are already written to IndexedDB but are not used until committed.
+ */
+export interface StagedCSVImport {
+  filename: string;
+  report: CSVValidationReport;
+  marketCount: number;
+  /** Replace the current dataset with the staged one; resolves to the market count */
+  commit(): Promise<number>;
+  /** Drop the staged data, keeping the current dataset */
+  discard(): Promise<void>;
+}
+
+/**
+ * Query options for browsing loaded markets
+ */
+export interface MarketQuery {
+  search?: string;
+  state?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  sortBy?: 'price' | 'percentChange' | 'state' | 'sizeRank';
+  sortDirection?: 'asc' | 'desc';
+  page?: number;          // 1-based
+  pageSize?: number;
+}
+
+/**
+ * One page of query results
+ */
+export interface MarketQueryResult {
+  markets: MarketStats[];
+  total: number;          // Matches across all pages
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+/**
+ * Get the headline price for a market
+ */
+const getMarketPrice = (market: MarketStats): number | undefined =>
+  market.saleData?.medianPrice ?? market.saleData?.averagePrice ?? market.medianPrice ?? market.averagePrice;
+
+/**
+ * Provider metadata (shared with the plugin registry)
+ */
+const CSV_INFO: ProviderInfo = {
+  id: 'csv',
+  name: 'CSV File',
+  description: 'Upload your own market data from a CSV file',
+  icon: '📊',
+  requiresApiKey: false,
+  rateLimits: {
+    limit: Infinity,
+    period: 'unlimited',
+  },
+  features: {
+    marketStats: true,
+    propertySearch: false,
+    propertyDetails: false,
+  },
+};
+
 export class CSVProvider extends BaseProvider {
   private cachedMarkets: Map<string, MarketStats> = new Map();
   private isDataLoaded: boolean = false;
   private loadingPromise: Promise<void> | null = null;
   private loadingProgress: number = 0;
   private loadingMessage: string = '';
+  private rowsProcessed: number = 0;
+  private library: CSVDatasetLibrary = { datasets: [], activeId: null };
 
-  readonly info: ProviderInfo = {
-    id: 'csv',
-    name: 'CSV File',
-    description: 'Upload your own market data from a CSV file',
-    icon: '📊',
-    requiresApiKey: false,
-    rateLimits: {
-      limit: Infinity,
-      period: 'unlimited',
-    },
-    features: {
-      marketStats: true,
-      propertySearch: false,
-      propertyDetails: false,
-    },
-  };
+  // Own copy, since the remaining quota is written into rateLimits
+  readonly info: ProviderInfo = { ...CSV_INFO, rateLimits: { ...CSV_INFO.rateLimits } };
 
   constructor() {
     super();
     // Load data asynchronously and store the promise
     this.loadingPromise = this.loadDataFromStorage().catch(error => {
-      console.error('[CSV Provider] Failed to load on construction', error);
+      log.error('Failed to load on construction', error);
     });
     this.logInitialization();
   }
 
   /**
    * Wait for data to finish loading
+   * @param signal - Stops waiting (the load itself carries on for other callers)
    */
-  async waitForDataLoad(): Promise<void> {
+  async waitForDataLoad(signal?: AbortSignal): Promise<void> {
     if (this.loadingPromise) {
-      await this.loadingPromise;
+      await raceAbort(this.loadingPromise, signal);
     }
   }
 
@@ -75,160 +149,256 @@ export class CSVProvider extends BaseProvider {
     return this.loadingMessage;
   }
 
+  /**
+   * Get number of CSV rows parsed so far in the current load
+   */
+  getRowsProcessed(): number {
+    return this.rowsProcessed;
+  }
+
   isConfigured(): boolean {
     return this.isDataLoaded && this.cachedMarkets.size > 0;
   }
 
   /**
-   * Load CSV data from IndexedDB if available, otherwise load default CSV
+   * Load the active dataset from IndexedDB if available, otherwise load default CSV
    */
   private async loadDataFromStorage(): Promise<void> {
     try {
-      // Try to load pre-parsed markets first (faster)
-      const cachedMarkets = await IndexedDBCache.get<MarketStats[]>(CSV_MARKETS_STORAGE_KEY);
-
-      if (cachedMarkets && cachedMarkets.length > 0) {
-        const filename = localStorage.getItem(CSV_FILENAME_STORAGE_KEY) || 'unknown.csv';
-        const dataSource = localStorage.getItem(CSV_DATA_SOURCE_KEY) || 'user-upload';
+      this.library = await loadDatasetLibrary();
+      const active = this.getActiveDataset();
 
-        console.log(
-          '%c[CSV Provider] Loading parsed markets from IndexedDB',
-          'color: #8B5CF6; font-weight: bold',
-          { filename, markets: cachedMarkets.length, source: dataSource }
+      if (active) {
+        log.info(
+          'Loading active dataset from IndexedDB',
+          { dataset: active.name, kind: active.kind, datasets: this.library.datasets.length }
         );
 
-        this.cacheMarkets(cachedMarkets);
-        this.isDataLoaded = true;
+        // Try to load pre-parsed markets first (faster)
+        const markets = await readDatasetMarkets(active, this.library.datasets);
 
-        console.log(
-          '%c[CSV Provider] ✓ Data loaded successfully',
-          'color: #10B981; font-weight: bold',
-          { markets: cachedMarkets.length, filename, source: dataSource }
-        );
-        return;
+        if (markets && markets.length > 0) {
+          this.cacheMarkets(markets);
+          this.isDataLoaded = true;
+
+          log.info(
+            '✓ Data loaded successfully',
+            { markets: markets.length, dataset: active.name, source: active.dataSource }
+          );
+          return;
+        }
       }
 
-      // No cached data - load default CSV from public folder
-      console.log(
-        '%c[CSV Provider] No cached data, loading default CSV',
-        'color: #8B5CF6; font-weight: bold'
-      );
+      // No usable dataset - load default CSV from public folder
+      log.info('No cached data, loading default CSV');
       await this.loadDefaultCSV();
     } catch (error) {
-      console.error(
-        '%c[CSV Provider] Failed to load data from storage',
-        'color: #EF4444; font-weight: bold',
-        error
-      );
-      await this.clearData();
+      log.error('Failed to load data from storage', error);
+      this.cachedMarkets.clear();
+      this.isDataLoaded = false;
     }
   }
 
   /**
    * Load default CSV file from public folder
+   * @param signal - Cancels the download
    */
-  private async loadDefaultCSV(): Promise<void> {
+  private async loadDefaultCSV(signal?: AbortSignal): Promise<void> {
     try {
       this.loadingProgress = 0;
       this.loadingMessage = 'Downloading housing data...';
 
-      console.log(
-        '%c[CSV Provider] Fetching default CSV file',
-        'color: #8B5CF6; font-weight: bold',
-        { path: DEFAULT_CSV_PATH }
+      log.info('Fetching default CSV file', { path: DEFAULT_CSV_PATH });
+
+      const markets = await this.importCSV(
+        { kind: 'url', url: DEFAULT_CSV_PATH },
+        'default-housing-data.csv',
+        'default',
+        undefined,
+        signal
       );
 
-      const response = await fetch(DEFAULT_CSV_PATH);
+      this.loadingProgress = 100;
+      this.loadingMessage = 'Complete!';
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch default CSV: ${response.statusText}`);
+      log.info('✓ Default CSV loaded successfully', { markets, source: 'default' });
+    } catch (error) {
+      this.loadingProgress = 0;
+      this.loadingMessage = '';
+      if (isAbortError(error)) {
+        log.info('Default CSV download cancelled');
+      } else {
+        log.error('Failed to load default CSV', error);
       }
+      throw error;
+    }
+  }
 
-      // Get total file size for progress tracking
-      const contentLength = response.headers.get('content-length');
-      const total = contentLength ? parseInt(contentLength, 10) : 0;
+  /**
+   * Stream-parse a CSV source in a Web Worker into a new active dataset
+   * The previous dataset stays active until the new one has fully parsed.
+   * @returns Number of markets loaded
+   */
+  private async importCSV(
+    source: CSVSource,
+    filename: string,
+    dataSource: 'default' | 'user-upload',
+    onProgress?: (progress: CSVParseProgress) => void,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const staged = await this.stageCSV(source, filename, dataSource, onProgress, {}, signal);
+    return staged.commit();
+  }
 
-      this.loadingMessage = total > 0
-        ? `Downloading ${(total / 1024 / 1024).toFixed(1)} MB...`
-        : 'Downloading data...';
+  /**
+   * Parse a CSV source into a staged dataset without changing the active one
+   * The staged import must be committed (added to the library) or discarded.
+   */
+  private async stageCSV(
+    source: CSVSource,
+    filename: string,
+    dataSource: 'default' | 'user-upload',
+    onProgress?: (progress: CSVParseProgress) => void,
+    options: CSVParserOptions = {},
+    signal?: AbortSignal
+  ): Promise<StagedCSVImport> {
+    const datasetKey = `${CSV_CHUNK_KEY_PREFIX}:${Date.now()}`;
+    const chunkKeys: string[] = [];
+    const markets: MarketStats[] = [];
+
+    this.rowsProcessed = 0;
+
+    const removeChunks = () => Promise.all(chunkKeys.map(key => IndexedDBCache.remove(key)));
+
+    let summary: CSVParseSummary;
+    try {
+      summary = await parseCSVSource(source, {
+        onBatch: async (batch) => {
+          const chunkKey = `${datasetKey}:${chunkKeys.length}`;
+          chunkKeys.push(chunkKey);
+          await IndexedDBCache.set(chunkKey, batch, STAGED_CHUNK_TTL);
+          markets.push(...batch);
+        },
+        onProgress: (progress) => {
+          this.rowsProcessed = progress.rowsProcessed;
+          if (progress.totalBytes > 0) {
+            // Stay below 100 until storage has finished
+            this.loadingProgress = Math.min(
+              99,
+              Math.round((progress.bytesLoaded / progress.totalBytes) * 100)
+            );
+          }
+          this.loadingMessage = `Parsed ${progress.rowsProcessed.toLocaleString()} rows...`;
+          onProgress?.(progress);
+        },
+      }, options, signal);
+    } catch (error) {
+      await removeChunks();
+      throw error;
+    }
 
-      let loaded = 0;
-      const reader = response.body?.getReader();
-      const chunks: Uint8Array[] = [];
+    const { report } = summary;
 
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+    log.info(
+      'CSV staged for import',
+      { filename, format: summary.format, accepted: report.acceptedRows, rejected: report.rejectedRows, warnings: report.warningCount }
+    );
 
-          chunks.push(value);
-          loaded += value.length;
+    let settled = false;
 
-          if (total > 0) {
-            this.loadingProgress = Math.round((loaded / total) * 90); // Reserve 10% for parsing
-            console.log(
-              `%c[CSV Provider] Download progress: ${this.loadingProgress}%`,
-              'color: #8B5CF6',
-              { loaded: `${(loaded / 1024 / 1024).toFixed(1)} MB`, total: `${(total / 1024 / 1024).toFixed(1)} MB` }
-            );
-          }
+    return {
+      filename,
+      report,
+      marketCount: markets.length,
+
+      commit: async () => {
+        if (settled) {
+          throw new ParseError(`Staged import of ${filename} has already been committed or discarded`, {
+            providerId: this.info.id,
+            userMessage: `${filename} was already imported or discarded.`,
+          });
         }
-      }
 
-      // Combine chunks into single array
-      const allChunks = new Uint8Array(loaded);
-      let position = 0;
-      for (const chunk of chunks) {
-        allChunks.set(chunk, position);
-        position += chunk.length;
-      }
+        if (markets.length === 0) {
+          settled = true;
+          await removeChunks();
+          throw new ParseError('No valid market data found in CSV file', {
+            providerId: this.info.id,
+            userMessage: `${filename} contains no usable market rows.`,
+          });
+        }
 
-      // Decode to text
-      const csvContent = new TextDecoder('utf-8').decode(allChunks);
-      this.loadingProgress = 90;
-      this.loadingMessage = 'Processing data...';
+        settled = true;
+
+        const dataset: CSVDatasetInfo = {
+          id: createDatasetId(),
+          name: filename,
+          kind: 'file',
+          dataSource,
+          createdAt: new Date().toISOString(),
+          format: summary.format,
+          rowCount: report.totalRows,
+          marketCount: markets.length,
+          dateRange: getDateRange(markets),
+          chunkKeys,
+          sourceIds: [],
+        };
+
+        try {
+          // Keep the chunks for good, then add the dataset to the library and make it active
+          const kept = await IndexedDBCache.updateTTL(chunkKeys, Infinity);
+          if (kept < chunkKeys.length) {
+            throw new ParseError(`Staged data of ${filename} was removed before the import was committed`, {
+              providerId: this.info.id,
+              retryable: true,
+              userMessage: `The parsed data of ${filename} expired before it was saved.`,
+            });
+          }
 
-      // Validate CSV content
-      const validation = validateCSVContent(csvContent);
-      if (!validation.valid) {
-        throw new Error(`Default CSV validation failed: ${validation.error}`);
-      }
+          await this.saveLibrary({
+            datasets: [...this.library.datasets, dataset],
+            activeId: dataset.id,
+          });
+        } catch (error) {
+          await removeChunks();
+          throw error;
+        }
 
-      // Parse CSV
-      const markets = parseCSV(csvContent);
+        // Cache markets in memory
+        this.cacheMarkets(markets);
+        this.isDataLoaded = true;
 
-      if (markets.length === 0) {
-        throw new Error('No valid market data found in default CSV file');
-      }
+        log.info(
+          '✓ CSV imported',
+          { filename, format: summary.format, rows: summary.rowsProcessed, markets: markets.length, chunks: chunkKeys.length }
+        );
 
-      // Store parsed markets in IndexedDB
-      await IndexedDBCache.set(CSV_MARKETS_STORAGE_KEY, markets, Infinity);
+        return markets.length;
+      },
 
-      // Store metadata in localStorage
-      localStorage.setItem(CSV_FILENAME_STORAGE_KEY, 'default-housing-data.csv');
-      localStorage.setItem(CSV_DATA_SOURCE_KEY, 'default');
+      discard: async () => {
+        if (settled) return;
+        settled = true;
+        await removeChunks();
 
-      // Cache markets in memory
-      this.cacheMarkets(markets);
-      this.isDataLoaded = true;
-      this.loadingProgress = 100;
-      this.loadingMessage = 'Complete!';
+        log.info('Staged import discarded', { filename });
+      },
+    };
+  }
 
-      console.log(
-        '%c[CSV Provider] ✓ Default CSV loaded successfully',
-        'color: #10B981; font-weight: bold',
-        { markets: markets.length, source: 'default' }
-      );
-    } catch (error) {
-      this.loadingProgress = 0;
-      this.loadingMessage = '';
-      console.error(
-        '%c[CSV Provider] Failed to load default CSV',
-        'color: #EF4444; font-weight: bold',
-        error
-      );
-      throw error;
-    }
+  /**
+   * Persist the library and keep the in-memory copy in sync
+   */
+  private async saveLibrary(library: CSVDatasetLibrary): Promise<void> {
+    await saveDatasetLibrary(library);
+    this.library = library;
+  }
+
+  /**
+   * Get the active dataset, if any
+   */
+  private getActiveDataset(): CSVDatasetInfo | undefined {
+    return this.library.datasets.find(d => d.id === this.library.activeId);
   }
 
   /**
@@ -258,100 +428,61 @@ export class CSVProvider extends BaseProvider {
       });
     });
 
-    console.log(
-      '%c[CSV Provider] Cached markets',
-      'color: #8B5CF6',
-      { markets: markets.length, lookupKeys: this.cachedMarkets.size }
+    log.debug('Cached markets', { markets: markets.length, lookupKeys: this.cachedMarkets.size });
+  }
+
+  /**
+   * Parse an uploaded CSV file and stage it for review
+   * Nothing changes until the returned import is committed.
+   * @param onProgress - Receives row-level progress while the file is parsed
+   * @param options - Parser options, e.g. a column mapping from the mapping wizard
+   * @param signal - Cancels parsing (rejects with an AbortError)
+   */
+  async stageCSVFile(
+    file: File,
+    onProgress?: (progress: CSVParseProgress) => void,
+    options: CSVParserOptions = {},
+    signal?: AbortSignal
+  ): Promise<StagedCSVImport> {
+    // Commit adds to the library, so it must be loaded first
+    await this.waitForDataLoad(signal);
+
+    log.info(
+      'Staging file',
+      { filename: file.name, size: file.size, type: file.type, mapped: !!options.columnMapping }
     );
+
+    return this.stageCSV({ kind: 'file', file }, file.name, 'user-upload', onProgress, options, signal);
   }
 
   /**
    * Upload and parse a CSV file
+   * @param onProgress - Receives row-level progress while the file is parsed
+   * @param signal - Cancels parsing
    */
-  async uploadCSVFile(file: File): Promise<{ success: boolean; error?: string; markets?: number }> {
+  async uploadCSVFile(
+    file: File,
+    onProgress?: (progress: CSVParseProgress) => void,
+    signal?: AbortSignal
+  ): Promise<{ success: boolean; error?: string; markets?: number }> {
     try {
-      console.log(
-        '%c[CSV Provider] Uploading file',
-        'color: #8B5CF6; font-weight: bold',
-        { filename: file.name, size: file.size, type: file.type }
-      );
-
-      // Read file content
-      const csvContent = await this.readFileAsText(file);
-
-      // Validate CSV content
-      const validation = validateCSVContent(csvContent);
-      if (!validation.valid) {
-        console.error(
-          '%c[CSV Provider] Validation failed',
-          'color: #EF4444; font-weight: bold',
-          validation.error
-        );
-        return { success: false, error: validation.error };
-      }
-
-      // Parse CSV
-      const markets = parseCSV(csvContent);
-
-      if (markets.length === 0) {
-        return { success: false, error: 'No valid market data found in CSV file' };
-      }
+      log.info('Uploading file', { filename: file.name, size: file.size, type: file.type });
 
-      // Store parsed markets in IndexedDB (more efficient than storing raw CSV)
-      await IndexedDBCache.set(CSV_MARKETS_STORAGE_KEY, markets, Infinity);
+      await this.waitForDataLoad(signal);
+      const markets = await this.importCSV({ kind: 'file', file }, file.name, 'user-upload', onProgress, signal);
 
-      // Store filename in localStorage (small, so localStorage is fine)
-      localStorage.setItem(CSV_FILENAME_STORAGE_KEY, file.name);
-      localStorage.setItem(CSV_DATA_SOURCE_KEY, 'user-upload');
-
-      // Cache markets in memory
-      this.cacheMarkets(markets);
-      this.isDataLoaded = true;
-
-      console.log(
-        '%c[CSV Provider] ✓ File uploaded successfully',
-        'color: #10B981; font-weight: bold',
-        { filename: file.name, markets: markets.length, source: 'user-upload' }
-      );
+      log.info('✓ File uploaded successfully', { filename: file.name, markets, source: 'user-upload' });
 
-      return { success: true, markets: markets.length };
+      return { success: true, markets };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
 
-      console.error(
-        '%c[CSV Provider] Upload failed',
-        'color: #EF4444; font-weight: bold',
-        error
-      );
+      log.error('Upload failed', error);
 
       return { success: false, error: errorMessage };
     }
   }
 
-  /**
-   * Read file content as text
-   */
-  private readFileAsText(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-
-      reader.onload = (e) => {
-        const content = e.target?.result;
-        if (typeof content === 'string') {
-          resolve(content);
-        } else {
-          reject(new Error('Failed to read file as text'));
-        }
-      };
-
-      reader.onerror = () => {
-        reject(new Error('File reading error'));
-      };
-
-      reader.readAsText(file);
-    });
-  }
-
   /**
    * Get all markets from CSV
    */
@@ -373,17 +504,261 @@ export class CSVProvider extends BaseProvider {
   }
 
   /**
-   * Get loaded filename
+   * Filter, sort and paginate loaded markets
+   * Works like a server-side query so the UI only renders one page at a time
+   */
+  queryMarkets(query: MarketQuery = {}): MarketQueryResult {
+    const {
+      search,
+      state,
+      minPrice,
+      maxPrice,
+      sortBy = 'sizeRank',
+      sortDirection = 'asc',
+      pageSize = 25,
+    } = query;
+
+    const searchTerm = search?.trim().toLowerCase();
+
+    const filtered = this.getAllMarkets().filter(market => {
+      if (state && market.state !== state) {
+        return false;
+      }
+
+      if (searchTerm) {
+        const name = `${market.city || ''}, ${market.state || ''} ${market.zipCode || ''}`.toLowerCase();
+        if (!name.includes(searchTerm)) {
+          return false;
+        }
+      }
+
+      if (minPrice !== undefined || maxPrice !== undefined) {
+        const price = getMarketPrice(market);
+        if (price === undefined) return false;
+        if (minPrice !== undefined && price < minPrice) return false;
+        if (maxPrice !== undefined && price >= maxPrice) return false;
+      }
+
+      return true;
+    });
+
+    const direction = sortDirection === 'asc' ? 1 : -1;
+
+    // Markets without a value for the sort field always sort last
+    const compareNumbers = (a: number | undefined, b: number | undefined): number => {
+      if (a === undefined && b === undefined) return 0;
+      if (a === undefined) return 1;
+      if (b === undefined) return -1;
+      return (a - b) * direction;
+    };
+
+    filtered.sort((a, b) => {
+      switch (sortBy) {
+        case 'price':
+          return compareNumbers(getMarketPrice(a), getMarketPrice(b));
+        case 'percentChange':
+          return compareNumbers(a.percentChange, b.percentChange);
+        case 'state':
+          return (
+            (a.state || '').localeCompare(b.state || '') * direction ||
+            (a.city || '').localeCompare(b.city || '')
+          );
+        case 'sizeRank':
+        default:
+          return compareNumbers(a.sizeRank, b.sizeRank);
+      }
+    });
+
+    const totalPages = Math.max(1, Math.ceil(filtered.length / pageSize));
+    const page = Math.min(Math.max(1, query.page || 1), totalPages);
+    const start = (page - 1) * pageSize;
+
+    return {
+      markets: filtered.slice(start, start + pageSize),
+      total: filtered.length,
+      page,
+      pageSize,
+      totalPages,
+    };
+  }
+
+  /**
+   * Get the distinct states present in the loaded data
+   */
+  getAvailableStates(): string[] {
+    const states = new Set<string>();
+    this.getAllMarkets().forEach(market => {
+      if (market.state) {
+        states.add(market.state);
+      }
+    });
+    return Array.from(states).sort();
+  }
+
+  /**
+   * Get all stored datasets, oldest first
+   */
+  getDatasets(): CSVDatasetInfo[] {
+    return this.library.datasets;
+  }
+
+  /**
+   * Get the ID of the active dataset
+   */
+  getActiveDatasetId(): string | null {
+    return this.library.activeId;
+  }
+
+  /**
+   * Make a stored dataset the active one
+   */
+  async setActiveDataset(datasetId: string): Promise<void> {
+    await this.waitForDataLoad();
+
+    const dataset = this.library.datasets.find(d => d.id === datasetId);
+    if (!dataset) {
+      throw new NotFoundError(`Dataset not found: ${datasetId}`, {
+        providerId: this.info.id,
+        userMessage: 'That dataset is no longer in the library.',
+      });
+    }
+
+    const markets = await readDatasetMarkets(dataset, this.library.datasets);
+    if (!markets || markets.length === 0) {
+      throw new NotFoundError(`Stored data for ${dataset.name} is missing or incomplete`, {
+        providerId: this.info.id,
+        userMessage: `The stored data for ${dataset.name} is missing. Import the file again.`,
+      });
+    }
+
+    await this.saveLibrary({ ...this.library, activeId: dataset.id });
+    this.cacheMarkets(markets);
+    this.isDataLoaded = true;
+
+    log.info('✓ Switched dataset', { dataset: dataset.name, markets: markets.length });
+  }
+
+  /**
+   * Combine several datasets into a new merged dataset and make it active
+   * Earlier datasets in `datasetIds` take priority for markets present in more than one.
+   */
+  async mergeDatasets(datasetIds: string[], name: string): Promise<CSVDatasetInfo> {
+    await this.waitForDataLoad();
+
+    const sources = datasetIds
+      .map(id => this.library.datasets.find(d => d.id === id))
+      .filter((d): d is CSVDatasetInfo => d !== undefined);
+
+    if (sources.length < 2) {
+      throw new MisconfiguredError(`Merge needs at least two datasets, got ${sources.length}`, {
+        providerId: this.info.id,
+        userMessage: 'Select at least two datasets to merge.',
+      });
+    }
+
+    const dataset: CSVDatasetInfo = {
+      id: createDatasetId(),
+      name,
+      kind: 'merged',
+      dataSource: 'user-upload',
+      createdAt: new Date().toISOString(),
+      format: null,
+      rowCount: sources.reduce((sum, d) => sum + d.rowCount, 0),
+      marketCount: 0,
+      dateRange: null,
+      chunkKeys: [],
+      sourceIds: sources.map(d => d.id),
+    };
+
+    const markets = await readDatasetMarkets(dataset, this.library.datasets);
+    if (!markets || markets.length === 0) {
+      throw new NotFoundError('Stored data for one of the datasets is missing or incomplete', {
+        providerId: this.info.id,
+        userMessage: 'The stored data for one of the datasets is missing. Import it again.',
+      });
+    }
+
+    dataset.marketCount = markets.length;
+    dataset.dateRange = getDateRange(markets);
+
+    await this.saveLibrary({
+      datasets: [...this.library.datasets, dataset],
+      activeId: dataset.id,
+    });
+    this.cacheMarkets(markets);
+    this.isDataLoaded = true;
+
+    log.info('✓ Datasets merged', { name, sources: sources.map(d => d.name), markets: markets.length });
+
+    return dataset;
+  }
+
+  /**
+   * Delete a dataset
+   * Merges left with fewer than two sources are removed too, and the active
+   * merge is rebuilt when it loses a source. If the active dataset is
+   * deleted, the most recent remaining one becomes active.
+   */
+  async deleteDataset(datasetId: string): Promise<void> {
+    await this.waitForDataLoad();
+
+    const dataset = this.library.datasets.find(d => d.id === datasetId);
+    if (!dataset) return;
+
+    let datasets = this.library.datasets.filter(d => d.id !== datasetId);
+    datasets = datasets
+      .map(d => d.kind === 'merged' ? { ...d, sourceIds: d.sourceIds.filter(id => id !== datasetId) } : d)
+      .filter(d => d.kind === 'file' || d.sourceIds.length >= 2);
+
+    // Datasets whose markets changed: the deleted one and merges that lost a source
+    const changed = this.library.datasets.filter(d => {
+      const kept = datasets.find(k => k.id === d.id);
+      return !kept || kept.sourceIds.length !== d.sourceIds.length;
+    });
+
+    const activeId = this.library.activeId;
+    const activeRemoved = !datasets.some(d => d.id === activeId);
+    const activeChanged = changed.some(d => d.id === activeId);
+    const nextActive = activeRemoved ? datasets[datasets.length - 1] : undefined;
+
+    await this.saveLibrary({
+      datasets,
+      activeId: activeRemoved ? nextActive?.id ?? null : activeId,
+    });
+    await removeDatasetChunks(dataset);
+    await Promise.all(changed.map(d => IndexedDBCache.removeByPrefix(this.getDatasetCachePrefix(d.id))));
+
+    log.info('Dataset deleted', { dataset: dataset.name, remaining: datasets.length });
+
+    if (!activeRemoved) {
+      if (activeChanged && activeId) {
+        // A merge that lost one source - rebuild it from the remaining ones
+        await this.setActiveDataset(activeId);
+      }
+      return;
+    }
+
+    if (nextActive) {
+      await this.setActiveDataset(nextActive.id);
+    } else {
+      this.cachedMarkets.clear();
+      this.isDataLoaded = false;
+      await this.loadDefaultCSV();
+    }
+  }
+
+  /**
+   * Get the active dataset's name (filename for file datasets)
    */
   getFilename(): string | null {
-    return localStorage.getItem(CSV_FILENAME_STORAGE_KEY);
+    return this.getActiveDataset()?.name ?? null;
   }
 
   /**
    * Get data source ('default' or 'user-upload')
    */
   getDataSource(): 'default' | 'user-upload' {
-    return (localStorage.getItem(CSV_DATA_SOURCE_KEY) as 'default' | 'user-upload') || 'default';
+    return this.getActiveDataset()?.dataSource ?? 'default';
   }
 
   /**
@@ -395,74 +770,129 @@ export class CSVProvider extends BaseProvider {
 
   /**
    * Reset to default CSV data
+   * Reuses the stored default dataset when there is one.
+   * @param signal - Cancels downloading the default file
    */
-  async resetToDefault(): Promise<void> {
-    console.log(
-      '%c[CSV Provider] Resetting to default data',
-      'color: #8B5CF6; font-weight: bold'
-    );
+  async resetToDefault(signal?: AbortSignal): Promise<void> {
+    log.info('Resetting to default data');
 
-    // Clear current data
-    await this.clearData();
+    await this.waitForDataLoad(signal);
+
+    const defaultDataset = this.library.datasets.find(d => d.kind === 'file' && d.dataSource === 'default');
+    if (defaultDataset) {
+      try {
+        await this.setActiveDataset(defaultDataset.id);
+        return;
+      } catch (error) {
+        // Drop the broken copy and download it again
+        log.warn('Stored default data unusable, reloading', error);
+        await this.saveLibrary({
+          ...this.library,
+          datasets: this.library.datasets.filter(d => d.id !== defaultDataset.id),
+        });
+        await removeDatasetChunks(defaultDataset);
+      }
+    }
 
     // Load default CSV
-    await this.loadDefaultCSV();
+    await this.loadDefaultCSV(signal);
   }
 
   /**
-   * Clear all CSV data
+   * Clear all CSV datasets
    */
   async clearData(): Promise<void> {
-    await IndexedDBCache.remove(CSV_MARKETS_STORAGE_KEY);
-    localStorage.removeItem(CSV_FILENAME_STORAGE_KEY);
-    localStorage.removeItem(CSV_DATA_SOURCE_KEY);
+    await this.waitForDataLoad();
+    await Promise.all(this.library.datasets.map(removeDatasetChunks));
+    await this.saveLibrary({ datasets: [], activeId: null });
     this.cachedMarkets.clear();
     this.isDataLoaded = false;
 
-    console.log(
-      '%c[CSV Provider] Data cleared',
-      'color: #8B5CF6'
-    );
+    log.info('Data cleared');
+  }
+
+  /**
+   * Cache market stats per dataset and source set, so switching datasets or
+   * deleting a merge source never serves stale stats
+   */
+  protected getMarketStatsCacheKey(location: string): string {
+    const active = this.getActiveDataset();
+    const sources = active?.kind === 'merged' ? active.sourceIds.join('+') : 'file';
+    return `${this.getDatasetCachePrefix(this.library.activeId ?? 'none')}${sources}:market-stats:${location}`;
+  }
+
+  /**
+   * Start of every market stats cache key of a dataset
+   */
+  private getDatasetCachePrefix(datasetId: string): string {
+    return `${this.info.id}:${datasetId}:`;
   }
 
   /**
    * Fetch market stats from cached CSV data
    */
-  protected async fetchMarketStatsFromAPI(location: string): Promise<MarketStats | null> {
+  protected async fetchMarketStatsFromAPI(location: string, signal?: AbortSignal): Promise<MarketStats | null> {
     if (!this.isDataLoaded) {
-      console.warn(
-        '%c[CSV Provider] No data loaded',
-        'color: #F59E0B; font-weight: bold',
-        'Upload a CSV file first'
-      );
+      log.warn('No data loaded', 'Upload a CSV file first');
       return null;
     }
 
     // Simulate slight delay for consistency with other providers
-    await new Promise(resolve => setTimeout(resolve, 50));
-
-    // Try exact match first
-    let market = this.cachedMarkets.get(location);
+    await abortableDelay(50, signal);
 
-    // Try case-insensitive match
-    if (!market) {
-      market = this.cachedMarkets.get(location.toLowerCase());
-    }
+    const market = this.findMarket(location);
 
     if (market) {
-      console.log(
-        '%c[CSV Provider] ✓ Found market',
-        'color: #10B981',
-        { location, market: market.city + ', ' + market.state }
-      );
+      log.debug('✓ Found market', { location, market: market.city + ', ' + market.state });
     } else {
-      console.warn(
-        '%c[CSV Provider] Market not found',
-        'color: #F59E0B',
+      log.warn(
+        'Market not found',
         { location, available: Array.from(this.cachedMarkets.keys()).slice(0, 10) }
       );
     }
 
     return market || null;
   }
+
+  /**
+   * Look up several markets at once from the loaded data
+   */
+  protected async fetchMarketStatsBatchFromAPI(
+    locations: string[],
+    signal?: AbortSignal
+  ): Promise<Record<string, MarketStats | null>> {
+    if (!this.isDataLoaded) {
+      return {};
+    }
+
+    await abortableDelay(50, signal);
+
+    const answers: Record<string, MarketStats | null> = {};
+    locations.forEach(location => {
+      answers[location] = this.findMarket(location) ?? null;
+    });
+
+    log.debug(
+      '✓ Batch lookup',
+      { requested: locations.length, found: Object.values(answers).filter(Boolean).length }
+    );
+
+    return answers;
+  }
+
+  /**
+   * Find a loaded market by location (exact, then case-insensitive)
+   */
+  private findMarket(location: string): MarketStats | undefined {
+    return this.cachedMarkets.get(location) ?? this.cachedMarkets.get(location.toLowerCase());
+  }
 }
+
+/**
+ * Plugin registration
+ */
+export const csvPlugin: ProviderPlugin = {
+  info: CSV_INFO,
+  status: 'available',
+  create: () => new CSVProvider(),
+};
@@ -0,0 +1,246 @@
+/**
+ * Provider Errors
+ *
+ * One error hierarchy for every provider. Each error names the failing
+ * provider and location, says whether retrying can help, and carries a
+ * user-facing message next to the technical one. The `kind` lets the UI
+ * offer the right remediation without parsing messages.
+ *
+ * `toProviderError` maps anything a provider throws (axios failures, JSON
+ * parse errors, plain Errors) onto this hierarchy.
+ */
+
+import axios from 'axios';
+
+export type ProviderErrorKind =
+  | 'auth'              // Credentials rejected (401/403)
+  | 'rate-limit'        // Provider asked us to slow down (429)
+  | 'not-found'         // Requested resource does not exist (404, unknown dataset)
+  | 'network'           // Provider unreachable or failing (no response, 5xx)
+  | 'timeout'           // No response within the configured timeout
+  | 'parse'             // Response or file could not be read
+  | 'quota-exhausted'   // Request budget for the period is used up
+  | 'misconfigured'     // Required settings are missing
+  | 'unknown';
+
+export interface ProviderErrorOptions {
+  providerId: string;
+  location?: string;
+  retryable?: boolean;
+  retryAfterMs?: number;
+  statusCode?: number;
+  userMessage?: string;   // Replaces the default message of the error class
+  cause?: unknown;
+}
+
+/**
+ * Base class of every provider error
+ */
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly providerId: string;
+  location?: string;      // Filled in by the provider when the thrower did not know it
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+  readonly statusCode?: number;
+  readonly userMessage: string;
+
+  constructor(
+    kind: ProviderErrorKind,
+    message: string,
+    defaultUserMessage: string,
+    { providerId, location, retryable = false, retryAfterMs, statusCode, userMessage, cause }: ProviderErrorOptions
+  ) {
+    super(message, { cause });
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.providerId = providerId;
+    this.location = location;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+    this.statusCode = statusCode;
+    this.userMessage = userMessage ?? defaultUserMessage;
+  }
+}
+
+export class AuthError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions) {
+    super('auth', message, 'The provider rejected the API key.', options);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions) {
+    super('rate-limit', message, 'The provider is receiving too many requests.', { retryable: true, ...options });
+    this.name = 'RateLimitError';
+  }
+}
+
+export class NotFoundError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions) {
+    super('not-found', message, 'The requested data does not exist.', options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class NetworkError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions) {
+    super('network', message, 'The provider could not be reached.', { retryable: true, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions) {
+    super('timeout', message, 'The provider took too long to respond.', { retryable: true, ...options });
+    this.name = 'TimeoutError';
+  }
+}
+
+export class ParseError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions) {
+    super('parse', message, 'The data could not be read.', options);
+    this.name = 'ParseError';
+  }
+}
+
+export class QuotaExhaustedError extends ProviderError {
+  resetAt?: Date;
+
+  constructor(message: string, options: ProviderErrorOptions & { resetAt?: Date }) {
+    super('quota-exhausted', message, 'The request budget for this period is used up.', options);
+    this.name = 'QuotaExhaustedError';
+    this.resetAt = options.resetAt;
+  }
+}
+
+export class MisconfiguredError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions) {
+    super('misconfigured', message, 'The provider is missing required settings.', options);
+    this.name = 'MisconfiguredError';
+  }
+}
+
+const ERROR_CLASSES: Record<Exclude<ProviderErrorKind, 'unknown'>, new (message: string, options: ProviderErrorOptions) => ProviderError> = {
+  auth: AuthError,
+  'rate-limit': RateLimitError,
+  'not-found': NotFoundError,
+  network: NetworkError,
+  timeout: TimeoutError,
+  parse: ParseError,
+  'quota-exhausted': QuotaExhaustedError,
+  misconfigured: MisconfiguredError,
+};
+
+// Which error to surface when several failed: the ones the user can fix first
+const KIND_PRIORITY: ProviderErrorKind[] = [
+  'misconfigured',
+  'auth',
+  'quota-exhausted',
+  'rate-limit',
+  'network',
+  'timeout',
+  'parse',
+  'not-found',
+  'unknown',
+];
+
+/**
+ * Pick the error to show the user from several failures
+ */
+export function selectProviderError(errors: ProviderError[]): ProviderError | null {
+  return errors.reduce<ProviderError | null>(
+    (selected, error) =>
+      !selected || KIND_PRIORITY.indexOf(error.kind) < KIND_PRIORITY.indexOf(selected.kind) ? error : selected,
+    null
+  );
+}
+
+/**
+ * Create the error class for a kind (e.g. to rebuild an error sent from a worker)
+ */
+export function createProviderError(
+  kind: ProviderErrorKind,
+  message: string,
+  options: ProviderErrorOptions
+): ProviderError {
+  return kind === 'unknown'
+    ? new ProviderError('unknown', message, message, options)
+    : new ERROR_CLASSES[kind](message, options);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? undefined : Math.max(0, date.getTime() - Date.now());
+}
+
+/**
+ * Map any failure onto the provider error hierarchy
+ * Provider errors are returned as they are (with the location filled in).
+ * Do not pass cancellations - check isAbortError first.
+ */
+export function toProviderError(
+  error: unknown,
+  context: { providerId: string; location?: string }
+): ProviderError {
+  if (error instanceof ProviderError) {
+    error.location ??= context.location;
+    return error;
+  }
+
+  const options: ProviderErrorOptions = { ...context, cause: error };
+
+  if (axios.isAxiosError(error)) {
+    const response = error.response;
+
+    if (!response) {
+      return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+        ? new TimeoutError(`Request timed out: ${error.message}`, options)
+        : new NetworkError(`Network error: ${error.message}`, options);
+    }
+
+    const status = response.status;
+    const detail = (response.data as { message?: string } | undefined)?.message || error.message;
+    const withStatus = { ...options, statusCode: status };
+
+    if (status === 401 || status === 403) {
+      return new AuthError(`Authentication failed (${status}): ${detail}`, withStatus);
+    }
+    if (status === 404) {
+      return new NotFoundError(`Not found: ${detail}`, withStatus);
+    }
+    if (status === 429) {
+      return new RateLimitError(`Rate limit exceeded: ${detail}`, {
+        ...withStatus,
+        retryAfterMs: parseRetryAfter(response.headers['retry-after']),
+      });
+    }
+    if (status >= 500) {
+      return new NetworkError(`Provider error (${status}): ${detail}`, {
+        ...withStatus,
+        userMessage: 'The provider is having problems.',
+      });
+    }
+    return new ProviderError('unknown', `Request failed (${status}): ${detail}`, 'The request failed.', withStatus);
+  }
+
+  if (error instanceof SyntaxError) {
+    return new ParseError(`Invalid response: ${error.message}`, options);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new ProviderError('unknown', message, message, options);
+}
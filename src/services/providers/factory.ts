@@ -2,116 +2,93 @@
  * Provider Factory
  *
  * Creates and returns the appropriate housing data provider based on
- * environment configuration or user selection.
+ * environment configuration or user selection. Providers come from the
+ * plugin registry; the built-in ones are registered here.
  */
 
-import type { IHousingDataProvider } from './types';
-import { MockProvider } from './mock.provider';
-import { ZillowMetricsProvider } from './zillow-metrics.provider';
-import { CSVProvider } from './csv.provider';
+import type {
+  ConnectionTestResult,
+  IHousingDataProvider,
+  ProviderConfigField,
+  ProviderConfigValues,
+  RateLimits,
+} from './types';
+import { mockPlugin } from './mock.provider';
+import { zillowMetricsPlugin } from './zillow-metrics.provider';
+import { csvPlugin } from './csv.provider';
+import { rentCastPlugin } from './rentcast.provider';
+import { chainPlugin } from './chain.provider';
+import {
+  getProviderPlugin,
+  getProviderPlugins,
+  registerProviderPlugin,
+  type ProviderPlugin,
+  type ProviderStatus,
+} from './pluginRegistry';
+import { isSyntheticDataAllowed } from '../../utils/syntheticData';
+import { PROVIDER_STORAGE_KEY } from '../../utils/constants';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('Provider Factory');
+
+// Built-in providers, in display order (third-party plugins are listed after them)
+[mockPlugin, csvPlugin, chainPlugin, zillowMetricsPlugin, rentCastPlugin].forEach(registerProviderPlugin);
 
 /**
  * Get the configured provider type from environment or localStorage
  */
 export function getProviderType(): string {
   // Check localStorage first (user selection takes precedence)
-  const storedProvider = localStorage.getItem('housing-data-provider');
+  const storedProvider = localStorage.getItem(PROVIDER_STORAGE_KEY);
   if (storedProvider) {
-    console.log(
-      '%c[Provider Factory] Using provider from localStorage',
-      'color: #8B5CF6; font-weight: bold',
-      { provider: storedProvider }
-    );
+    log.info('Using provider from localStorage', { provider: storedProvider });
     return storedProvider;
   }
 
   // Fall back to environment variable
   const envProvider = import.meta.env.VITE_DATA_PROVIDER || 'mock';
-  console.log(
-    '%c[Provider Factory] Using provider from environment',
-    'color: #8B5CF6; font-weight: bold',
-    { provider: envProvider }
-  );
+  log.info('Using provider from environment', { provider: envProvider });
   return envProvider;
 }
 
 /**
- * Create and return the appropriate housing data provider
+ * Persist the user's provider selection
  */
-export function createProvider(): IHousingDataProvider {
-  const providerType = getProviderType();
-
-  console.log(
-    '%c[Provider Factory] Creating provider',
-    'color: #8B5CF6; font-weight: bold; font-size: 14px',
-    { type: providerType }
-  );
-
-  switch (providerType) {
-    case 'zillow-metrics':
-      // Lazy load Zillow provider
-      return createZillowMetricsProvider();
-
-    case 'rentcast':
-      // Lazy load RentCast provider
-      return createRentCastProvider();
-
-    case 'csv':
-      // CSV file provider
-      return createCSVProvider();
-
-    case 'mock':
-    default:
-      return new MockProvider();
-  }
+export function setProviderType(providerType: string): void {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, providerType);
 }
 
 /**
- * Create Zillow Metrics provider
+ * Create a new housing data provider
+ * Most callers should use the shared instance from the provider registry.
+ * Providers that need an API key fall back to Mock while unconfigured
+ * (unless synthetic data is disabled).
+ * @param providerType - Provider to create (defaults to the configured one)
  */
-function createZillowMetricsProvider(): IHousingDataProvider {
-  const provider = new ZillowMetricsProvider();
-
-  if (!provider.isConfigured()) {
-    console.warn(
-      '%c[Provider Factory] Zillow Metrics not configured',
-      'color: #F59E0B; font-weight: bold',
-      'Falling back to Mock provider. Add VITE_ZILLOW_METRICS_API_KEY to .env'
+export function createProvider(providerType: string = getProviderType()): IHousingDataProvider {
+  log.info('Creating provider', { type: providerType });
+
+  const plugin = getProviderPlugin(providerType);
+  if (!plugin) {
+    log.warn(
+      'Unknown provider',
+      { type: providerType, registered: getProviderPlugins().map(p => p.info.id) }
     );
-    return new MockProvider();
+    return mockPlugin.create();
   }
 
-  return provider;
-}
-
-/**
- * Create RentCast provider
- * (Will be implemented in refactoring step)
- */
-function createRentCastProvider(): IHousingDataProvider {
-  console.warn(
-    '%c[Provider Factory] RentCast provider not yet migrated',
-    'color: #F59E0B; font-weight: bold',
-    'Falling back to Mock provider'
-  );
-
-  // TODO: Implement RentCastProvider by refactoring existing code
-  // For now, fall back to mock
-  return new MockProvider();
-}
-
-/**
- * Create CSV provider
- */
-function createCSVProvider(): IHousingDataProvider {
-  const provider = new CSVProvider();
+  const provider = plugin.create();
 
   if (!provider.isConfigured()) {
-    console.warn(
-      '%c[Provider Factory] CSV provider not configured',
-      'color: #F59E0B; font-weight: bold',
-      'No CSV file loaded. Upload a CSV file to use this provider'
-    );
+    if (plugin.info.requiresApiKey && isSyntheticDataAllowed()) {
+      log.warn(
+        `${plugin.info.name} not configured`,
+        'Falling back to Mock provider. Add its API key in Settings or .env'
+      );
+      return mockPlugin.create();
+    }
+
+    log.warn(`${plugin.info.name} not configured`);
   }
 
   return provider;
@@ -125,36 +102,60 @@ export function getAvailableProviders(): Array<{
   name: string;
   icon: string;
   description: string;
-  status: 'available' | 'pending' | 'requires-setup';
+  status: ProviderStatus;
+  requiresApiKey: boolean;
+  rateLimits: RateLimits;
+}> {
+  return getProviderPlugins().map(({ info, status }) => ({
+    id: info.id,
+    name: info.name,
+    icon: info.icon,
+    description: info.description,
+    status,
+    requiresApiKey: info.requiresApiKey,
+    rateLimits: info.rateLimits,
+  }));
+}
+
+/**
+ * Get the providers that declare a configuration schema
+ */
+export function getConfigurableProviders(): Array<{
+  id: string;
+  name: string;
+  icon: string;
+  schema: ProviderConfigField[];
 }> {
-  return [
-    {
-      id: 'mock',
-      name: 'Mock Data',
-      icon: '🎭',
-      description: 'Sample data for development and testing',
-      status: 'available',
-    },
-    {
-      id: 'csv',
-      name: 'CSV File',
-      icon: '📊',
-      description: 'Upload your own market data from a CSV file',
-      status: 'available',
-    },
-    {
-      id: 'zillow-metrics',
-      name: 'Zillow Market Metrics',
-      icon: '🏘️',
-      description: 'Market-level statistics from national to neighborhood',
-      status: 'requires-setup',
-    },
-    {
-      id: 'rentcast',
-      name: 'RentCast',
-      icon: '🏠',
-      description: 'Property and market data with valuations',
-      status: 'pending', // Will be 'requires-setup' after implementation
-    },
-  ];
+  return getProviderPlugins()
+    .filter((plugin): plugin is ProviderPlugin & { configSchema: ProviderConfigField[] } =>
+      Boolean(plugin.configSchema?.length)
+    )
+    .map(({ info, configSchema }) => ({
+      id: info.id,
+      name: info.name,
+      icon: info.icon,
+      schema: configSchema,
+    }));
+}
+
+/**
+ * Test a provider with the given (possibly unsaved) settings
+ * Uses a throwaway instance, so the shared providers are untouched.
+ */
+export async function testProviderConnection(
+  providerId: string,
+  values: ProviderConfigValues,
+  signal?: AbortSignal
+): Promise<ConnectionTestResult> {
+  const plugin = getProviderPlugin(providerId);
+  if (!plugin) {
+    throw new Error(`Unknown provider: ${providerId}`);
+  }
+
+  const provider = plugin.create(values);
+  if (!provider.testConnection) {
+    throw new Error(`${provider.info.name} does not support connection tests`);
+  }
+
+  return provider.testConnection(signal);
 }
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkProviderHealth } from './healthCheck';
+import { NetworkError, TimeoutError } from './errors';
+import type { IHousingDataProvider } from './types';
+import { recordProviderCall } from '../../utils/providerTelemetry';
+import { setLogSettings } from '../../utils/logger';
+
+let nextId = 0;
+
+/**
+ * Minimal provider with a fresh ID, so no earlier calls or probes apply
+ */
+const createProvider = (overrides: Partial<IHousingDataProvider> & { requiresApiKey?: boolean } = {}): IHousingDataProvider => {
+  const { requiresApiKey = true, ...rest } = overrides;
+  const id = `test-${++nextId}`;
+  return {
+    info: {
+      id,
+      name: `Test ${id}`,
+      description: '',
+      icon: '',
+      requiresApiKey,
+      rateLimits: { limit: 100, period: 'day' },
+      features: { marketStats: true, propertySearch: false, propertyDetails: false },
+    },
+    isConfigured: () => true,
+    getMarketStats: async () => null,
+    ...rest,
+  };
+};
+
+const recordSuccess = (providerId: string) =>
+  recordProviderCall({ providerId, operation: 'market-stats', latencyMs: 120, outcome: 'success', cacheHit: false });
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+  setLogSettings({ level: 'silent', channels: {} });
+});
+
+describe('checkProviderHealth', () => {
+  it('reports a provider without settings as unconfigured', async () => {
+    const provider = createProvider({ isConfigured: () => false });
+
+    expect(await checkProviderHealth(provider)).toMatchObject({ status: 'unconfigured' });
+  });
+
+  it('reports unknown, not healthy, without recent calls or a probe', async () => {
+    const health = await checkProviderHealth(createProvider());
+
+    expect(health).toMatchObject({ status: 'unknown', message: 'No recent requests to judge by' });
+  });
+
+  it('trusts a recent successful call without probing', async () => {
+    const probe = vi.fn(async () => 50);
+    const provider = createProvider({ probe });
+    recordSuccess(provider.info.id);
+
+    expect(await checkProviderHealth(provider)).toMatchObject({ status: 'healthy', message: 'Operating normally' });
+    expect(probe).not.toHaveBeenCalled();
+  });
+
+  it('probes the API when there is no recent call', async () => {
+    const provider = createProvider({ probe: async () => 42 });
+
+    expect(await checkProviderHealth(provider)).toMatchObject({
+      status: 'healthy',
+      message: 'API is reachable',
+      latencyMs: 42,
+    });
+  });
+
+  it('reports down when the API answers the probe with a server error', async () => {
+    const provider = createProvider({
+      probe: async () => {
+        throw new NetworkError('Provider error (503)', { providerId: 'test', statusCode: 503 });
+      },
+    });
+
+    expect(await checkProviderHealth(provider)).toMatchObject({ status: 'down', latencyMs: null });
+  });
+
+  it('reports down when the probe times out', async () => {
+    const provider = createProvider({
+      probe: async () => {
+        throw new TimeoutError('Request timed out', { providerId: 'test' });
+      },
+    });
+
+    expect(await checkProviderHealth(provider)).toMatchObject({ status: 'down' });
+  });
+
+  it('reports unknown when the probe gets no response (e.g. blocked cross-origin)', async () => {
+    const provider = createProvider({
+      probe: async () => {
+        throw new NetworkError('Network error: Network Error', { providerId: 'test' });
+      },
+    });
+
+    expect(await checkProviderHealth(provider)).toMatchObject({ status: 'unknown', latencyMs: null });
+  });
+
+  it('probes each provider at most once per interval', async () => {
+    vi.useFakeTimers();
+    try {
+      const probe = vi.fn(async () => 30);
+      const provider = createProvider({ probe });
+
+      await checkProviderHealth(provider);
+      await checkProviderHealth(provider);
+      expect(probe).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(5 * 60 * 1000);
+      await checkProviderHealth(provider);
+      expect(probe).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reports a configured local source as healthy', async () => {
+    const provider = createProvider({ requiresApiKey: false });
+
+    expect(await checkProviderHealth(provider)).toMatchObject({ status: 'healthy', message: 'Data loaded' });
+  });
+});
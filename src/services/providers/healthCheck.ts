@@ -0,0 +1,230 @@
+/**
+ * Provider Health Checks
+ *
+ * Lightweight checks that never spend provider quota: configuration, the
+ * request layer's circuit breaker, the remaining rate-limit budget and the
+ * outcome of recent calls. When API calls go through the proxy, its free
+ * /health endpoint is pinged as well. Without a recent successful call, an
+ * API is probed with an unauthenticated request (at most every few minutes);
+ * when neither says anything, the status is unknown rather than healthy. A
+ * probe without any response is unknown too: the browser's cross-origin
+ * checks can block it while the API works.
+ * A chain is as healthy as its members.
+ */
+
+import axios from 'axios';
+import { ChainProvider } from './chain.provider';
+import { getApiProxyURL } from './apiProxy';
+import { NetworkError } from './errors';
+import type { IHousingDataProvider } from './types';
+import { getCircuitState } from '../../utils/requestLayer';
+import { getRateLimitStatus } from '../../utils/rateLimitLedger';
+import { isAbortError } from '../../utils/abort';
+import {
+  getProviderCalls,
+  recordProviderHealth,
+  type ProviderHealth,
+  type ProviderHealthStatus,
+} from '../../utils/providerTelemetry';
+
+const PROXY_HEALTH_TIMEOUT_MS = 5000;
+// Recent API calls (cache hits and cancellations excluded) judged per check
+const RECENT_CALL_WINDOW = 10;
+// Fewer recent calls than this say too little to flag a provider
+const MIN_RECENT_CALLS = 3;
+const DEGRADED_ERROR_RATE = 0.5;
+// A successful call this recent shows the provider works
+const RECENT_SUCCESS_MAX_AGE_MS = 10 * 60 * 1000;
+// Probes of one provider are at least this far apart
+const PROBE_INTERVAL_MS = 5 * 60 * 1000;
+
+interface ProbeResult {
+  probedAt: number;
+  status: Extract<ProviderHealthStatus, 'healthy' | 'down' | 'unknown'>;
+  latencyMs: number | null;   // Null when the API did not answer
+  message: string;
+}
+
+const probes = new Map<string, ProbeResult>();
+
+const result = (
+  providerId: string,
+  status: ProviderHealthStatus,
+  message: string,
+  latencyMs: number | null = null
+): ProviderHealth => ({ providerId, status, message, latencyMs, checkedAt: new Date() });
+
+/**
+ * Ping the API proxy's health endpoint
+ * Returns the round trip in milliseconds, or null when the proxy is unreachable.
+ */
+async function pingProxy(proxyURL: string, signal?: AbortSignal): Promise<number | null> {
+  const started = performance.now();
+  try {
+    await axios.get(`${proxyURL}/health`, { timeout: PROXY_HEALTH_TIMEOUT_MS, signal });
+    return Math.round(performance.now() - started);
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    return null;
+  }
+}
+
+/**
+ * Probe a provider's API, reusing the previous result within PROBE_INTERVAL_MS
+ */
+async function probeProvider(
+  providerId: string,
+  probe: (signal?: AbortSignal) => Promise<number>,
+  signal?: AbortSignal
+): Promise<ProbeResult> {
+  const previous = probes.get(providerId);
+  if (previous && Date.now() - previous.probedAt < PROBE_INTERVAL_MS) {
+    return previous;
+  }
+
+  let outcome: ProbeResult;
+  try {
+    const latencyMs = await probe(signal);
+    outcome = { probedAt: Date.now(), status: 'healthy', latencyMs, message: 'API is reachable' };
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    const detail = error instanceof Error ? error.message : String(error);
+    // No response at all: a cross-origin block looks the same as an outage
+    outcome = error instanceof NetworkError && error.statusCode === undefined
+      ? { probedAt: Date.now(), status: 'unknown', latencyMs: null, message: `Probe got no response (${detail})` }
+      : { probedAt: Date.now(), status: 'down', latencyMs: null, message: `API did not answer (${detail})` };
+  }
+
+  probes.set(providerId, outcome);
+  return outcome;
+}
+
+/**
+ * Check a single (non-chain) provider
+ */
+async function checkSingleProvider(provider: IHousingDataProvider, signal?: AbortSignal): Promise<ProviderHealth> {
+  const { id } = provider.info;
+
+  if (!provider.isConfigured()) {
+    return result(id, 'unconfigured', 'Required settings are missing');
+  }
+
+  if (getCircuitState(id) === 'open') {
+    return result(id, 'down', 'Failing fast after repeated errors');
+  }
+
+  let latencyMs: number | null = null;
+  const proxyURL = getApiProxyURL();
+  if (proxyURL && provider.info.requiresApiKey) {
+    latencyMs = await pingProxy(proxyURL, signal);
+    if (latencyMs === null) {
+      return result(id, 'down', 'API proxy is unreachable');
+    }
+  }
+
+  const quota = getRateLimitStatus(id);
+  if (quota && quota.remaining <= 0) {
+    return result(id, 'degraded', `Request quota used up until ${quota.resetAt.toLocaleDateString()}`, latencyMs);
+  }
+
+  const recent = getProviderCalls(id)
+    .filter(call => !call.cacheHit && call.outcome !== 'cancelled')
+    .slice(-RECENT_CALL_WINDOW);
+  const errors = recent.filter(call => call.outcome === 'error');
+  if (recent.length >= MIN_RECENT_CALLS && errors.length / recent.length >= DEGRADED_ERROR_RATE) {
+    const lastError = errors[errors.length - 1];
+    return result(
+      id,
+      'degraded',
+      `${errors.length} of the last ${recent.length} requests failed (${lastError.errorClass})`,
+      latencyMs
+    );
+  }
+
+  if (getCircuitState(id) === 'half-open') {
+    return result(id, 'degraded', 'Recovering from repeated errors', latencyMs);
+  }
+
+  const now = Date.now();
+  if (recent.some(call => call.outcome === 'success' && now - call.timestamp <= RECENT_SUCCESS_MAX_AGE_MS)) {
+    return result(id, 'healthy', 'Operating normally', latencyMs);
+  }
+
+  // Local sources have no API that could be unreachable
+  if (!provider.info.requiresApiKey) {
+    return result(id, 'healthy', 'Data loaded', latencyMs);
+  }
+
+  // Through the proxy, only the proxy itself can be reached without credentials
+  if (!proxyURL && provider.probe) {
+    const probe = await probeProvider(id, provider.probe.bind(provider), signal);
+    return result(id, probe.status, probe.message, probe.latencyMs);
+  }
+
+  return result(id, 'unknown', 'No recent requests to judge by', latencyMs);
+}
+
+/**
+ * Combine the health of chain members (unconfigured members are skipped by the chain)
+ * Members with unknown health count as neither healthy nor down.
+ */
+function combineChainHealth(providerId: string, members: IHousingDataProvider[], checks: ProviderHealth[]): ProviderHealth {
+  const active = checks.filter(check => check.status !== 'unconfigured');
+
+  if (active.length === 0) {
+    return result(providerId, 'unconfigured', 'No provider in the chain is configured');
+  }
+
+  const known = active.filter(check => check.status !== 'unknown');
+  if (known.length === 0) {
+    return result(providerId, 'unknown', 'No recent requests to judge by');
+  }
+
+  const unhealthy = known.filter(check => check.status !== 'healthy');
+  if (unhealthy.length === 0) {
+    return result(
+      providerId,
+      'healthy',
+      known.length === active.length
+        ? `All ${active.length} sources operating normally`
+        : `${known.length} of ${active.length} sources operating normally, the rest not yet checked`
+    );
+  }
+
+  const nameOf = (id: string) => members.find(member => member.info.id === id)?.info.name ?? id;
+  const status = unhealthy.length === active.length && unhealthy.every(check => check.status === 'down')
+    ? 'down'
+    : 'degraded';
+
+  return result(
+    providerId,
+    status,
+    unhealthy.map(check => `${nameOf(check.providerId)}: ${check.message}`).join('; ')
+  );
+}
+
+/**
+ * Check a provider's health and store the result in the provider telemetry
+ */
+export async function checkProviderHealth(
+  provider: IHousingDataProvider,
+  signal?: AbortSignal
+): Promise<ProviderHealth> {
+  let health: ProviderHealth;
+
+  if (provider instanceof ChainProvider) {
+    const members = provider.getProviders();
+    const checks = await Promise.all(members.map(member => checkSingleProvider(member, signal)));
+    checks.forEach(recordProviderHealth);
+    health = combineChainHealth(provider.info.id, members, checks);
+  } else {
+    health = await checkSingleProvider(provider, signal);
+  }
+
+  recordProviderHealth(health);
+  return health;
+}
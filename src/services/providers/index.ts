@@ -12,15 +12,74 @@ export type {
   ProviderInfo,
   RateLimits,
   ProviderConfig,
+  ProviderSkip,
+  MarketSourceAttribution,
+  MarketStatsBatchResult,
+  MarketMetric,
+  MetricDataPoint,
+  ProviderConfigField,
+  ProviderConfigValues,
+  ConnectionTestResult,
 } from './types';
 
+// Errors
+export {
+  ProviderError,
+  AuthError,
+  RateLimitError,
+  NotFoundError,
+  NetworkError,
+  TimeoutError,
+  ParseError,
+  QuotaExhaustedError,
+  MisconfiguredError,
+  createProviderError,
+  toProviderError,
+  selectProviderError,
+} from './errors';
+export type { ProviderErrorKind, ProviderErrorOptions } from './errors';
+
 // Base provider class
 export { BaseProvider } from './base.provider';
 
 // Provider implementations
 export { MockProvider } from './mock.provider';
-export { ZillowMetricsProvider } from './zillow-metrics.provider';
+export {
+  ZillowMetricsProvider,
+  ZILLOW_METRIC_TYPES,
+  ZILLOW_METRICS_CONFIG_SCHEMA,
+} from './zillow-metrics.provider';
+export type { ZillowMetricTypeKey } from './zillow-metrics.provider';
 export { CSVProvider } from './csv.provider';
+export type { MarketQuery, MarketQueryResult, StagedCSVImport } from './csv.provider';
+export { RentCastProvider, RENTCAST_CONFIG_SCHEMA } from './rentcast.provider';
+export { ChainProvider, createSourceAttribution } from './chain.provider';
 
 // Provider factory
-export { createProvider, getProviderType, getAvailableProviders } from './factory';
+export {
+  createProvider,
+  getProviderType,
+  setProviderType,
+  getAvailableProviders,
+  getConfigurableProviders,
+  testProviderConnection,
+} from './factory';
+
+// Provider settings
+export { resolveProviderConfig, validateProviderConfig, getConfigValueSource } from './configSchema';
+
+// Provider plugins
+export {
+  registerProviderPlugin,
+  getProviderPlugin,
+  getProviderPlugins,
+  loadProviderPlugins,
+  getConfiguredPluginPaths,
+} from './pluginRegistry';
+export type { ProviderPlugin, ProviderStatus } from './pluginRegistry';
+
+// Shared provider instances
+export { getProvider, getCSVProvider, resetProviders } from './registry';
+
+// Health checks
+export { checkProviderHealth } from './healthCheck';
@@ -3,32 +3,139 @@
  *
  * Provides sample/mock data for development and testing.
  * No API key required, unlimited usage.
+ *
+ * Output is deterministic: every value is drawn from a seeded random stream,
+ * so the same seed, scenario and reference date always give the same markets,
+ * history, properties, latency and injected errors. Configure with
+ * VITE_MOCK_SEED, VITE_MOCK_SCENARIO and VITE_MOCK_REFERENCE_DATE, or pass
+ * options to the constructor.
  */
 
 import { BaseProvider } from './base.provider';
+import { NetworkError, RateLimitError } from './errors';
 import type { MarketStats, Property, ProviderInfo } from './types';
+import type { ProviderPlugin } from './pluginRegistry';
+import {
+  DEFAULT_MOCK_SCENARIO,
+  MOCK_SCENARIOS,
+  isMockScenarioId,
+  type MockScenario,
+  type MockScenarioId,
+} from './mockScenarios';
+import { abortableDelay } from '../../utils/abort';
+import { createSeededRandom, type SeededRandom } from '../../utils/seededRandom';
+import { fillSeriesGaps } from '../../utils/seriesGaps';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('Mock Data');
+
+const DEFAULT_SEED = 'housing-data-poc';
+const HISTORY_MONTHS = 120;   // Ten years of monthly history
+const RECENT_MONTHS = 24;     // Window that uses the scenario's recent growth
+const RECENT_PERIODS = 12;    // Months used for min/max/average, matching the other providers
+
+// Map common zip codes to cities
+const ZIP_TO_CITY: Record<string, { city: string; state: string }> = {
+  '48201': { city: 'Detroit', state: 'MI' },
+  '92805': { city: 'Anaheim', state: 'CA' },
+  '78701': { city: 'Austin', state: 'TX' },
+  '33101': { city: 'Miami', state: 'FL' },
+  '98101': { city: 'Seattle', state: 'WA' },
+};
+
+// Typical current prices for well-known cities; others get a seeded price
+const BASE_PRICES: Record<string, number> = {
+  'Detroit': 225000,
+  'Anaheim': 875000,
+  'Austin': 550000,
+  'Miami': 625000,
+  'Seattle': 825000,
+};
+
+export interface MockProviderOptions {
+  seed?: string | number;
+  scenario?: MockScenarioId;
+  referenceDate?: Date;    // Last month of generated history (defaults to the current month)
+}
+
+/**
+ * Scenario chosen with VITE_MOCK_SCENARIO
+ */
+function getConfiguredScenario(): MockScenarioId {
+  const configured = import.meta.env.VITE_MOCK_SCENARIO as string | undefined;
+  if (!configured) {
+    return DEFAULT_MOCK_SCENARIO;
+  }
+  if (!isMockScenarioId(configured)) {
+    log.warn(
+      'Unknown scenario - using default',
+      { scenario: configured, supported: Object.keys(MOCK_SCENARIOS) }
+    );
+    return DEFAULT_MOCK_SCENARIO;
+  }
+  return configured;
+}
+
+/**
+ * Reference date from VITE_MOCK_REFERENCE_DATE (YYYY-MM-DD), if valid
+ */
+function getConfiguredReferenceDate(): Date | undefined {
+  const configured = import.meta.env.VITE_MOCK_REFERENCE_DATE as string | undefined;
+  const date = configured ? new Date(configured) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Last day of a month as YYYY-MM-DD (UTC)
+ */
+const monthEnd = (year: number, month: number): string =>
+  new Date(Date.UTC(year, month + 1, 0)).toISOString().split('T')[0];
+
+/**
+ * Provider metadata (shared with the plugin registry)
+ */
+const MOCK_INFO: ProviderInfo = {
+  id: 'mock',
+  name: 'Mock Data',
+  description: 'Sample data for development and testing',
+  icon: '🎭',
+  requiresApiKey: false,
+  rateLimits: {
+    limit: Infinity,
+    period: 'unlimited',
+  },
+  features: {
+    marketStats: true,
+    propertySearch: true,
+    propertyDetails: false,
+  },
+};
 
 export class MockProvider extends BaseProvider {
-  readonly info: ProviderInfo = {
-    id: 'mock',
-    name: 'Mock Data',
-    description: 'Sample data for development and testing',
-    icon: '🎭',
-    requiresApiKey: false,
-    rateLimits: {
-      limit: Infinity,
-      period: 'unlimited',
-    },
-    features: {
-      marketStats: true,
-      propertySearch: true,
-      propertyDetails: false,
-    },
-  };
-
-  constructor() {
+  private readonly seed: string;
+  private readonly scenario: MockScenario;
+  private readonly referenceDate: Date;
+  // Shared stream for per-request latency and errors, so retries can succeed
+  private readonly requestRandom: SeededRandom;
+
+  readonly info: ProviderInfo;
+
+  constructor(options: MockProviderOptions = {}) {
     super();
+
+    this.seed = String(options.seed ?? import.meta.env.VITE_MOCK_SEED ?? DEFAULT_SEED);
+    this.scenario = MOCK_SCENARIOS[options.scenario ?? getConfiguredScenario()];
+    this.referenceDate = options.referenceDate ?? getConfiguredReferenceDate() ?? new Date();
+    this.requestRandom = createSeededRandom(this.seed, `requests:${this.scenario.id}`);
+
+    this.info = {
+      ...MOCK_INFO,
+      description: `${MOCK_INFO.description} (${this.scenario.name} scenario)`,
+      rateLimits: { ...MOCK_INFO.rateLimits },
+    };
+
     this.logInitialization();
+    log.info('Scenario', { scenario: this.scenario.id, seed: this.seed });
   }
 
   isConfigured(): boolean {
@@ -36,56 +143,56 @@ export class MockProvider extends BaseProvider {
     return true;
   }
 
-  protected async fetchMarketStatsFromAPI(location: string): Promise<MarketStats | null> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 100));
-
-    // Parse location
-    const isZipCode = /^\d{5}$/.test(location);
-    let city = '';
-    let state = '';
-    let zipCode = '';
-
-    if (isZipCode) {
-      zipCode = location;
-      // Map common zip codes to cities
-      const zipToCityMap: Record<string, { city: string; state: string }> = {
-        '48201': { city: 'Detroit', state: 'MI' },
-        '92805': { city: 'Anaheim', state: 'CA' },
-        '78701': { city: 'Austin', state: 'TX' },
-        '33101': { city: 'Miami', state: 'FL' },
-        '98101': { city: 'Seattle', state: 'WA' },
-      };
-      const match = zipToCityMap[zipCode];
-      if (match) {
-        city = match.city;
-        state = match.state;
-      } else {
-        city = 'Unknown';
-        state = 'XX';
-      }
-    } else {
-      const parts = location.split(',').map(s => s.trim());
-      city = parts[0] || 'Unknown';
-      state = parts[1] || 'XX';
+  /**
+   * Scenario this provider simulates
+   */
+  getScenario(): MockScenario {
+    return this.scenario;
+  }
+
+  /**
+   * Keep cached answers of different seeds and scenarios apart
+   */
+  protected getMarketStatsCacheKey(location: string): string {
+    return `${super.getMarketStatsCacheKey(location)}:${this.scenario.id}:${this.seed}`;
+  }
+
+  protected getPropertySearchCacheKey(query: string): string {
+    return `${super.getPropertySearchCacheKey(query)}:${this.scenario.id}:${this.seed}`;
+  }
+
+  protected async fetchMarketStatsFromAPI(location: string, signal?: AbortSignal): Promise<MarketStats | null> {
+    // Simulate API latency and failures
+    await this.simulateRequest(signal);
+
+    const { city, state, zipCode } = this.parseLocation(location);
+    const random = createSeededRandom(this.seed, `market:${this.scenario.id}:${location.toLowerCase()}`);
+
+    if (random.chance(this.scenario.missingMarketRate)) {
+      log.debug('No data for market (sparse scenario)', { location });
+      return null;
     }
 
-    // Generate realistic-looking mock data based on location
-    const basePrices: Record<string, number> = {
-      'Detroit': 225000,
-      'Anaheim': 875000,
-      'Austin': 550000,
-      'Miami': 625000,
-      'Seattle': 825000,
-    };
+    const basePrice = this.getBasePrice(city, location);
+    const historicalPrices = this.generateHistory(basePrice, random);
+    const latest = historicalPrices[historicalPrices.length - 1];
 
-    const basePrice = basePrices[city] || 350000;
-    const variation = (Math.random() - 0.5) * 0.1; // ±5% variation
-    const medianPrice = Math.round(basePrice * (1 + variation));
-    const averagePrice = Math.round(medianPrice * 1.05); // Avg is typically 5% higher
+    // Year-over-year change, or the last step when a year back is missing
+    const latestDate = new Date(latest.date);
+    const yearAgo = monthEnd(latestDate.getUTCFullYear() - 1, latestDate.getUTCMonth());
+    const previous = historicalPrices.find(point => point.date === yearAgo)
+      ?? historicalPrices[historicalPrices.length - 2];
+    const priceChange = previous ? ((latest.price - previous.price) / previous.price) * 100 : 0;
 
-    // Random price change between -5% and +10%
-    const priceChange = (Math.random() * 15) - 5;
+    const recentPrices = historicalPrices.slice(-RECENT_PERIODS).map(point => point.price);
+    const medianPrice = latest.price;
+    const medianSquareFootage = random.int(1500, 2200);
+
+    // Hot markets sell faster
+    const recentGrowth = this.scenario.recentAnnualGrowth ?? this.scenario.annualGrowth;
+    const medianDaysOnMarket = Math.round(
+      Math.min(150, Math.max(5, 40 - recentGrowth * 1.5 + random.gaussian() * 5))
+    );
 
     return {
       id: zipCode || `${city}-${state}`,
@@ -93,33 +200,37 @@ export class MockProvider extends BaseProvider {
       state,
       zipCode,
       saleData: {
-        lastUpdatedDate: new Date().toISOString(),
-        averagePrice,
+        lastUpdatedDate: latest.date,
+        averagePrice: Math.round(medianPrice * 1.05), // Avg is typically 5% higher
         medianPrice,
-        minPrice: Math.round(medianPrice * 0.5),
-        maxPrice: Math.round(medianPrice * 3),
-        averagePricePerSquareFoot: Math.round(medianPrice / 2000),
-        medianPricePerSquareFoot: Math.round(medianPrice / 2200),
+        minPrice: Math.min(...recentPrices),
+        maxPrice: Math.max(...recentPrices),
+        averagePricePerSquareFoot: Math.round((medianPrice * 1.05) / (medianSquareFootage * 1.08)),
+        medianPricePerSquareFoot: Math.round(medianPrice / medianSquareFootage),
         minPricePerSquareFoot: Math.round(medianPrice / 3000),
         maxPricePerSquareFoot: Math.round(medianPrice / 1000),
-        averageSquareFootage: 2000,
-        medianSquareFootage: 1850,
+        averageSquareFootage: Math.round(medianSquareFootage * 1.08),
+        medianSquareFootage,
         minSquareFootage: 800,
         maxSquareFootage: 5000,
-        averageDaysOnMarket: Math.round(20 + Math.random() * 60),
-        medianDaysOnMarket: Math.round(15 + Math.random() * 40),
+        averageDaysOnMarket: Math.round(medianDaysOnMarket * 1.3),
+        medianDaysOnMarket,
         minDaysOnMarket: 1,
       },
       percentChange: priceChange,
+      historicalPrices,
     };
   }
 
-  protected async fetchPropertiesFromAPI(query: string): Promise<Property[]> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 150));
+  protected async fetchPropertiesFromAPI(query: string, signal?: AbortSignal): Promise<Property[]> {
+    // Simulate API latency and failures
+    await this.simulateRequest(signal);
+
+    const random = createSeededRandom(this.seed, `properties:${this.scenario.id}:${query.toLowerCase()}`);
+    const basePrice = this.getBasePrice(this.parseLocation(query).city, query);
 
-    // Generate 5-10 mock properties
-    const count = 5 + Math.floor(Math.random() * 6);
+    // Sparse data returns short (sometimes empty) result lists
+    const count = this.scenario.missingMarketRate > 0 ? random.int(0, 4) : random.int(5, 10);
     const properties: Property[] = [];
 
     for (let i = 0; i < count; i++) {
@@ -129,14 +240,125 @@ export class MockProvider extends BaseProvider {
         city: query,
         state: 'XX',
         zipCode: '00000',
-        price: Math.round(200000 + Math.random() * 500000),
-        propertyType: ['Single Family', 'Condo', 'Townhouse'][Math.floor(Math.random() * 3)],
-        bedrooms: 2 + Math.floor(Math.random() * 4),
-        bathrooms: 1 + Math.floor(Math.random() * 3),
-        squareFootage: Math.round(1000 + Math.random() * 2500),
+        price: Math.round((basePrice * random.range(0.5, 1.8)) / 1000) * 1000,
+        propertyType: random.pick(['Single Family', 'Condo', 'Townhouse']),
+        bedrooms: random.int(2, 5),
+        bathrooms: random.int(1, 3),
+        squareFootage: Math.round(random.range(1000, 3500)),
       });
     }
 
     return properties;
   }
+
+  /**
+   * Wait the scenario's latency, then fail if the scenario injects an error
+   */
+  private async simulateRequest(signal?: AbortSignal): Promise<void> {
+    const [minLatency, maxLatency] = this.scenario.latencyMs;
+    const latency = Math.round(this.requestRandom.range(minLatency, maxLatency));
+    const fails = this.requestRandom.chance(this.scenario.errorRate);
+
+    await abortableDelay(latency, signal);
+
+    if (!fails) {
+      return;
+    }
+
+    log.warn('Injecting failure', { scenario: this.scenario.id, error: this.scenario.error });
+
+    if (this.scenario.error === 'rate-limit') {
+      throw new RateLimitError('Rate limit exceeded (mock)', {
+        providerId: this.info.id,
+        statusCode: 429,
+        retryAfterMs: 1000,
+      });
+    }
+    throw new NetworkError('Mock server error (503)', {
+      providerId: this.info.id,
+      statusCode: 503,
+      userMessage: 'The provider is having problems.',
+    });
+  }
+
+  /**
+   * Current price level of a market (seeded for cities without a known price)
+   */
+  private getBasePrice(city: string, location: string): number {
+    if (BASE_PRICES[city]) {
+      return BASE_PRICES[city];
+    }
+    const random = createSeededRandom(this.seed, `price:${location.toLowerCase()}`);
+    return Math.round(random.range(180000, 900000) / 1000) * 1000;
+  }
+
+  /**
+   * Generate monthly history ending near the base price in the reference month
+   * Months can be missing in sparse scenarios (the latest month never is);
+   * gaps after the first month are interpolated.
+   */
+  private generateHistory(basePrice: number, random: SeededRandom): NonNullable<MarketStats['historicalPrices']> {
+    // Each market drifts a little from the scenario's trend
+    const marketOffset = random.range(-1.5, 1.5);
+    const monthlyRates = Array.from({ length: HISTORY_MONTHS }, (_, month) => {
+      const isRecent = month >= HISTORY_MONTHS - RECENT_MONTHS;
+      const annual = (isRecent ? this.scenario.recentAnnualGrowth : undefined) ?? this.scenario.annualGrowth;
+      return Math.pow(1 + (annual + marketOffset) / 100, 1 / 12) - 1;
+    });
+
+    // Start where the trend would end at the base price
+    const trend = monthlyRates.reduce((product, rate) => product * (1 + rate), 1);
+    let price = basePrice / trend;
+
+    const endYear = this.referenceDate.getUTCFullYear();
+    const endMonth = this.referenceDate.getUTCMonth();
+    const dates: string[] = [];
+    const reported = new Map<string, number>();
+
+    monthlyRates.forEach((rate, month) => {
+      price *= 1 + rate + random.gaussian() * this.scenario.monthlyVolatility;
+
+      const date = monthEnd(endYear, endMonth - (HISTORY_MONTHS - 1 - month));
+      dates.push(date);
+
+      const isLatest = month === HISTORY_MONTHS - 1;
+      if (!isLatest && random.chance(this.scenario.missingMonthRate)) {
+        return;
+      }
+
+      reported.set(date, Math.round(price));
+    });
+
+    return fillSeriesGaps(dates, reported);
+  }
+
+  /**
+   * Parse a ZIP code or "City, State" string
+   */
+  private parseLocation(location: string): { city: string; state: string; zipCode: string } {
+    if (/^\d{5}$/.test(location)) {
+      const match = ZIP_TO_CITY[location];
+      return {
+        city: match?.city ?? 'Unknown',
+        state: match?.state ?? 'XX',
+        zipCode: location,
+      };
+    }
+
+    const parts = location.split(',').map(s => s.trim());
+    return {
+      city: parts[0] || 'Unknown',
+      state: parts[1] || 'XX',
+      zipCode: '',
+    };
+  }
 }
+
+/**
+ * Plugin registration
+ */
+export const mockPlugin: ProviderPlugin = {
+  info: MOCK_INFO,
+  status: 'available',
+  create: () => new MockProvider(),
+};
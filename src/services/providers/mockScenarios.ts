@@ -0,0 +1,123 @@
+/**
+ * Mock Provider Scenarios
+ *
+ * Named market conditions for the mock provider. A scenario sets how prices
+ * move over the generated history, how much data is missing, and what
+ * latency and errors requests see.
+ */
+
+export type MockScenarioId =
+  | 'normal'
+  | 'boom'
+  | 'crash'
+  | 'flat'
+  | 'sparse'
+  | 'slow-network'
+  | 'rate-limited';
+
+export interface MockScenario {
+  id: MockScenarioId;
+  name: string;
+  description: string;
+  annualGrowth: number;                  // Typical yearly price growth (%)
+  recentAnnualGrowth?: number;           // Growth over the last two years, when it differs (%)
+  monthlyVolatility: number;             // Standard deviation of monthly noise (fraction)
+  latencyMs: [number, number];           // Request latency range
+  missingMarketRate: number;             // Share of markets with no data at all
+  missingMonthRate: number;              // Share of months missing from each history
+  errorRate: number;                     // Share of requests that fail
+  error?: 'rate-limit' | 'server';       // Kind of failure injected
+}
+
+export const MOCK_SCENARIOS: Record<MockScenarioId, MockScenario> = {
+  normal: {
+    id: 'normal',
+    name: 'Normal',
+    description: 'Moderate growth with everyday noise',
+    annualGrowth: 4,
+    monthlyVolatility: 0.004,
+    latencyMs: [80, 150],
+    missingMarketRate: 0,
+    missingMonthRate: 0,
+    errorRate: 0,
+  },
+  boom: {
+    id: 'boom',
+    name: 'Boom',
+    description: 'Prices accelerating sharply over the last two years',
+    annualGrowth: 6,
+    recentAnnualGrowth: 18,
+    monthlyVolatility: 0.005,
+    latencyMs: [80, 150],
+    missingMarketRate: 0,
+    missingMonthRate: 0,
+    errorRate: 0,
+  },
+  crash: {
+    id: 'crash',
+    name: 'Crash',
+    description: 'Steady growth followed by a steep two-year decline',
+    annualGrowth: 5,
+    recentAnnualGrowth: -15,
+    monthlyVolatility: 0.008,
+    latencyMs: [80, 150],
+    missingMarketRate: 0,
+    missingMonthRate: 0,
+    errorRate: 0,
+  },
+  flat: {
+    id: 'flat',
+    name: 'Flat',
+    description: 'No meaningful price movement',
+    annualGrowth: 0,
+    monthlyVolatility: 0.001,
+    latencyMs: [80, 150],
+    missingMarketRate: 0,
+    missingMonthRate: 0,
+    errorRate: 0,
+  },
+  sparse: {
+    id: 'sparse',
+    name: 'Sparse Data',
+    description: 'Many markets missing and gaps in every history',
+    annualGrowth: 4,
+    monthlyVolatility: 0.004,
+    latencyMs: [80, 150],
+    missingMarketRate: 0.4,
+    missingMonthRate: 0.3,
+    errorRate: 0,
+  },
+  'slow-network': {
+    id: 'slow-network',
+    name: 'Slow Network',
+    description: 'Multi-second latency and occasional server errors',
+    annualGrowth: 4,
+    monthlyVolatility: 0.004,
+    latencyMs: [2000, 6000],
+    missingMarketRate: 0,
+    missingMonthRate: 0,
+    errorRate: 0.15,
+    error: 'server',
+  },
+  'rate-limited': {
+    id: 'rate-limited',
+    name: 'Rate Limited',
+    description: 'Half of all requests rejected with 429 Too Many Requests',
+    annualGrowth: 4,
+    monthlyVolatility: 0.004,
+    latencyMs: [80, 150],
+    missingMarketRate: 0,
+    missingMonthRate: 0,
+    errorRate: 0.5,
+    error: 'rate-limit',
+  },
+};
+
+export const DEFAULT_MOCK_SCENARIO: MockScenarioId = 'normal';
+
+/**
+ * Check whether a string names a known scenario
+ */
+export function isMockScenarioId(value: string): value is MockScenarioId {
+  return Object.hasOwn(MOCK_SCENARIOS, value);
+}
@@ -0,0 +1,116 @@
+/**
+ * Provider Plugin Registry
+ *
+ * Single list of the providers the app knows about. Each provider registers
+ * its metadata, status, config schema and constructor once; the factory,
+ * settings screens and fallback chain all read from here.
+ *
+ * Third-party providers can be loaded at startup from ES modules listed in
+ * VITE_PROVIDER_PLUGINS (comma-separated URLs). A plugin module default-exports
+ * a ProviderPlugin (or an array of them).
+ */
+
+import type {
+  IHousingDataProvider,
+  ProviderConfigField,
+  ProviderConfigValues,
+  ProviderInfo,
+} from './types';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('Provider Plugins');
+
+/**
+ * How ready a provider is for use
+ */
+export type ProviderStatus = 'available' | 'requires-setup' | 'pending';
+
+/**
+ * Everything the app needs to know about a provider
+ */
+export interface ProviderPlugin {
+  info: ProviderInfo;                     // Static metadata (instances may refine the description)
+  status: ProviderStatus;
+  configSchema?: ProviderConfigField[];   // Shown on the in-app settings screen
+  chainable?: boolean;                    // Can be a fallback chain member (default true)
+  /**
+   * Build a provider instance
+   * @param config - Settings to use instead of the saved / env ones (e.g. to test unsaved values)
+   */
+  create(config?: ProviderConfigValues): IHousingDataProvider;
+}
+
+const plugins = new Map<string, ProviderPlugin>();
+
+const isProviderPlugin = (value: unknown): value is ProviderPlugin => {
+  const plugin = value as ProviderPlugin | null;
+  return Boolean(
+    plugin &&
+    typeof plugin.info?.id === 'string' &&
+    typeof plugin.info.name === 'string' &&
+    typeof plugin.create === 'function'
+  );
+};
+
+/**
+ * Register a provider (IDs must be unique; later duplicates are ignored)
+ */
+export function registerProviderPlugin(plugin: ProviderPlugin): boolean {
+  if (!isProviderPlugin(plugin)) {
+    log.error('Invalid plugin - needs info.id, info.name and create()', plugin);
+    return false;
+  }
+
+  if (plugins.has(plugin.info.id)) {
+    log.warn('Provider already registered', { id: plugin.info.id });
+    return false;
+  }
+
+  plugins.set(plugin.info.id, plugin);
+  return true;
+}
+
+/**
+ * Get a registered provider by ID
+ */
+export function getProviderPlugin(id: string): ProviderPlugin | undefined {
+  return plugins.get(id);
+}
+
+/**
+ * Get every registered provider, in registration order
+ */
+export function getProviderPlugins(): ProviderPlugin[] {
+  return Array.from(plugins.values());
+}
+
+/**
+ * Module URLs listed in VITE_PROVIDER_PLUGINS
+ */
+export function getConfiguredPluginPaths(): string[] {
+  return ((import.meta.env.VITE_PROVIDER_PLUGINS as string | undefined) || '')
+    .split(',')
+    .map(path => path.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Import provider plugin modules and register what they export
+ * A module that fails to load is logged and skipped.
+ */
+export async function loadProviderPlugins(modulePaths: string[]): Promise<void> {
+  await Promise.all(modulePaths.map(async (modulePath) => {
+    try {
+      const module = await import(/* @vite-ignore */ modulePath);
+      const exported: unknown[] = [module.default].flat();
+      const registered = exported.filter(plugin => registerProviderPlugin(plugin as ProviderPlugin));
+
+      log.info(
+        'Loaded plugin module',
+        { modulePath, providers: registered.map(plugin => (plugin as ProviderPlugin).info.id) }
+      );
+    } catch (error) {
+      log.error('Failed to load plugin module', { modulePath, error });
+    }
+  }));
+}
@@ -0,0 +1,62 @@
+/**
+ * Provider Registry
+ *
+ * Keeps one provider instance per provider type, so every hook and component
+ * shares the same provider (and CSV data, circuit breakers, in-flight
+ * requests) instead of creating its own. Switching provider types only
+ * changes which instance is active; the others stay loaded.
+ */
+
+import type { IHousingDataProvider } from './types';
+import { CSVProvider } from './csv.provider';
+import { createProvider, getProviderType } from './factory';
+import { setChainMemberResolver } from './chain.provider';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('Provider Registry');
+
+const instances = new Map<string, IHousingDataProvider>();
+
+/**
+ * Get the shared provider for a type, creating it on first use
+ * @param providerType - Provider to get (defaults to the configured one)
+ */
+export function getProvider(providerType: string = getProviderType()): IHousingDataProvider {
+  let provider = instances.get(providerType);
+  if (!provider) {
+    provider = createProvider(providerType);
+    instances.set(providerType, provider);
+  }
+  return provider;
+}
+
+// The chain uses the shared members too
+setChainMemberResolver((plugin) => {
+  const shared = getProvider(plugin.info.id);
+  // An unconfigured API provider is shared as its Mock stand-in; the chain
+  // needs the real one to report why it was skipped
+  return shared.info.id === plugin.info.id ? shared : plugin.create();
+});
+
+/**
+ * Get the shared CSV provider (used for uploads whichever provider is active)
+ */
+export function getCSVProvider(): CSVProvider {
+  const provider = getProvider('csv');
+  if (provider instanceof CSVProvider) {
+    return provider;
+  }
+
+  const csvProvider = new CSVProvider();
+  instances.set('csv', csvProvider);
+  return csvProvider;
+}
+
+/**
+ * Drop every shared instance so the next lookup builds fresh providers
+ * Needed when a setting changes how the factory builds them (e.g. synthetic data).
+ */
+export function resetProviders(): void {
+  instances.clear();
+  log.info('Provider instances reset');
+}
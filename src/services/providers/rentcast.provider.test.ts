@@ -0,0 +1,365 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RentCastProvider } from './rentcast.provider';
+import { AuthError, NetworkError, NotFoundError, RateLimitError } from './errors';
+import { checkProviderHealth } from './healthCheck';
+import { clearProviderTelemetry } from '../../utils/providerTelemetry';
+import { setLogSettings } from '../../utils/logger';
+
+// In-memory stand-in for the IndexedDB cache (no IndexedDB in Node)
+const memoryCache = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('../../utils/indexedDBCache', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../utils/indexedDBCache')>(),
+  IndexedDBCache: {
+    get: async (key: string) => memoryCache.get(key) ?? null,
+    getMany: async (keys: string[]) =>
+      new Map(keys.filter(key => memoryCache.has(key)).map(key => [key, memoryCache.get(key)])),
+    set: async (key: string, data: unknown) => {
+      memoryCache.set(key, data);
+    },
+  },
+}));
+
+/**
+ * localStorage for the rate-limit ledger and settings vault
+ */
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+  key(index: number) { return Array.from(this.items.keys())[index] ?? null; }
+  get length() { return this.items.size; }
+}
+
+interface StubRequest {
+  path: string;
+  query: Record<string, string>;
+  apiKey: string | undefined;
+}
+
+type StubHandler = (request: StubRequest) => { status: number; body?: unknown; headers?: Record<string, string> };
+
+const API_KEY = 'test-key';
+
+const AUSTIN_MARKET = {
+  id: '78701',
+  zipCode: '78701',
+  saleData: { averagePrice: 612000, medianPrice: 545000, lastUpdatedDate: '2025-06-01' },
+};
+
+const PROPERTIES = [
+  { id: 'prop-1', addressLine1: '100 Congress Ave', city: 'Austin', state: 'TX', zipCode: '78701', price: 750000 },
+  { id: 'prop-2', addressLine1: '200 Lavaca St', city: 'Austin', state: 'TX', zipCode: '78701', price: 480000 },
+];
+
+/**
+ * Local stand-in for the RentCast API
+ */
+const defaultHandler: StubHandler = ({ path, query, apiKey }) => {
+  if (apiKey !== API_KEY) {
+    return { status: 401, body: { message: 'Invalid API key' } };
+  }
+
+  if (path === '/markets') {
+    if (query.zipCode === '78701' || (query.city === 'Austin' && query.state === 'TX')) {
+      return { status: 200, body: AUSTIN_MARKET };
+    }
+    if (query.zipCode === '10001') {
+      // Older response shape
+      return { status: 200, body: { markets: [{ ...AUSTIN_MARKET, id: '10001', zipCode: '10001' }] } };
+    }
+    if (query.zipCode === '60601') {
+      return { status: 429, body: { message: 'Too many requests' }, headers: { 'Retry-After': '0' } };
+    }
+    return { status: 404, body: { message: 'Market not found' } };
+  }
+
+  if (path === '/properties') {
+    return query.city === 'Austin' || query.zipCode === '78701'
+      ? { status: 200, body: PROPERTIES }
+      : { status: 200, body: [] };
+  }
+
+  if (path === '/avm/value') {
+    return { status: 200, body: { price: 512000, address: query.address } };
+  }
+
+  const match = /^\/properties\/(.+)$/.exec(path);
+  if (match) {
+    const property = PROPERTIES.find(p => p.id === decodeURIComponent(match[1]));
+    return property ? { status: 200, body: property } : { status: 404, body: { message: 'Property not found' } };
+  }
+
+  return { status: 404, body: { message: 'Unknown endpoint' } };
+};
+
+let server: Server;
+let baseURL: string;
+let handler: StubHandler = defaultHandler;
+let requests: StubRequest[] = [];
+
+const createProvider = (apiKey: string = API_KEY) => new RentCastProvider({ apiKey, baseURL });
+
+const requestsTo = (path: string) => requests.filter(request => request.path === path);
+
+beforeAll(async () => {
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const request: StubRequest = {
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      apiKey: req.headers['x-api-key'] as string | undefined,
+    };
+    requests.push(request);
+
+    const { status, body, headers } = handler(request);
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  setLogSettings({ level: 'silent', channels: {} });
+  memoryCache.clear();
+  handler = defaultHandler;
+  requests = [];
+});
+
+describe('RentCastProvider', () => {
+  describe('configuration', () => {
+    it('is configured with an API key', () => {
+      expect(createProvider().isConfigured()).toBe(true);
+    });
+
+    it('is not configured with the placeholder key', () => {
+      expect(createProvider('your_api_key_here').isConfigured()).toBe(false);
+    });
+  });
+
+  describe('getMarketStats', () => {
+    it('queries a ZIP code and sends the API key', async () => {
+      const stats = await createProvider().getMarketStats('78701');
+
+      expect(stats).toEqual(AUSTIN_MARKET);
+      expect(requestsTo('/markets')).toEqual([{ path: '/markets', query: { zipCode: '78701' }, apiKey: API_KEY }]);
+    });
+
+    it('splits "City, State" into query parameters', async () => {
+      await createProvider().getMarketStats('Austin, TX');
+
+      expect(requestsTo('/markets')[0].query).toEqual({ city: 'Austin', state: 'TX' });
+    });
+
+    it('adds the default state to a bare city', async () => {
+      await new RentCastProvider({ apiKey: API_KEY, baseURL, defaultState: 'tx' }).getMarketStats('Austin');
+
+      expect(requestsTo('/markets')[0].query).toEqual({ city: 'Austin', state: 'TX' });
+    });
+
+    it('unwraps the older markets array response', async () => {
+      const stats = await createProvider().getMarketStats('10001');
+
+      expect(stats?.zipCode).toBe('10001');
+    });
+
+    it('returns null for an unexpected response', async () => {
+      handler = () => ({ status: 200, body: { unexpected: true } });
+
+      expect(await createProvider().getMarketStats('78702')).toBeNull();
+    });
+
+    it('rejects without a request when not configured', async () => {
+      await expect(createProvider('').getMarketStats('78703')).rejects.toMatchObject({ kind: 'misconfigured' });
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('searchProperties', () => {
+    it('searches by city', async () => {
+      const properties = await createProvider().searchProperties('Austin');
+
+      expect(properties).toEqual(PROPERTIES);
+      expect(requestsTo('/properties')[0].query).toEqual({ city: 'Austin', limit: '50' });
+    });
+
+    it('searches by ZIP code', async () => {
+      await createProvider().searchProperties('78701');
+
+      expect(requestsTo('/properties')[0].query).toEqual({ zipCode: '78701', limit: '50' });
+    });
+
+    it('returns an empty list when nothing matches', async () => {
+      expect(await createProvider().searchProperties('Nowhere')).toEqual([]);
+    });
+  });
+
+  describe('getPropertyDetails', () => {
+    it('fetches a property by ID', async () => {
+      expect(await createProvider().getPropertyDetails('prop-2')).toEqual(PROPERTIES[1]);
+    });
+
+    it('returns null for an unknown property', async () => {
+      expect(await createProvider().getPropertyDetails('missing')).toBeNull();
+    });
+  });
+
+  describe('error mapping', () => {
+    it('maps 401 to AuthError', async () => {
+      const error = await createProvider('wrong-key').getMarketStats('78704').catch(e => e);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error).toMatchObject({ kind: 'auth', statusCode: 401, providerId: 'rentcast', location: '78704' });
+      expect(requests).toHaveLength(1);
+    });
+
+    it('maps 404 to NotFoundError without retrying', async () => {
+      const error = await createProvider().getMarketStats('99999').catch(e => e);
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error).toMatchObject({ kind: 'not-found', statusCode: 404, location: '99999' });
+      expect(requests).toHaveLength(1);
+    });
+
+    it('maps 429 to RateLimitError after retrying with Retry-After', async () => {
+      const error = await createProvider().getMarketStats('60601').catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error).toMatchObject({ kind: 'rate-limit', statusCode: 429, retryAfterMs: 0 });
+      expect(requestsTo('/markets')).toHaveLength(4);
+    });
+
+    it('returns the data once a 429 clears', async () => {
+      let attempts = 0;
+      handler = (request) => ++attempts === 1
+        ? { status: 429, body: { message: 'Too many requests' }, headers: { 'Retry-After': '0' } }
+        : defaultHandler(request);
+
+      expect(await createProvider().getMarketStats('78701')).toEqual(AUSTIN_MARKET);
+      expect(attempts).toBe(2);
+    });
+  });
+
+  describe('getValueEstimate', () => {
+    it('fetches an estimate for an address', async () => {
+      const estimate = await createProvider().getValueEstimate('100 Congress Ave, Austin, TX');
+
+      expect(estimate).toEqual({ price: 512000, address: '100 Congress Ave, Austin, TX' });
+      expect(requestsTo('/avm/value')).toHaveLength(1);
+    });
+
+    it('rejects without a request when not configured', async () => {
+      await expect(createProvider('').getValueEstimate('78701')).rejects.toMatchObject({ kind: 'misconfigured' });
+      expect(requests).toHaveLength(0);
+    });
+
+    it('retries through the request layer and maps errors', async () => {
+      let attempts = 0;
+      handler = (request) => ++attempts === 1
+        ? { status: 429, body: { message: 'Too many requests' }, headers: { 'Retry-After': '0' } }
+        : defaultHandler(request);
+
+      expect(await createProvider().getValueEstimate('78701')).toMatchObject({ price: 512000 });
+      expect(attempts).toBe(2);
+
+      handler = () => ({ status: 401, body: { message: 'Invalid API key' } });
+      await expect(createProvider().getValueEstimate('78702')).rejects.toBeInstanceOf(AuthError);
+    });
+  });
+
+  describe('probe', () => {
+    it('reaches the API without the key or any quota', async () => {
+      const provider = createProvider();
+
+      expect(await provider.probe()).toBeGreaterThanOrEqual(0);
+      expect(requests).toEqual([{ path: '/', query: {}, apiKey: undefined }]);
+      expect(provider.info.rateLimits.remaining).toBe(50);
+    });
+
+    it('rejects when the API answers with a server error', async () => {
+      handler = () => ({ status: 503 });
+
+      await expect(createProvider().probe()).rejects.toMatchObject({ providerId: 'rentcast', statusCode: 503 });
+    });
+
+    it('reports unknown health when the probe gets no response', async () => {
+      // Nothing listens on port 1, like a request the browser blocked before it was answered
+      const provider = new RentCastProvider({ apiKey: API_KEY, baseURL: 'http://127.0.0.1:1' });
+
+      await expect(provider.probe()).rejects.toBeInstanceOf(NetworkError);
+      clearProviderTelemetry(); // Earlier tests' successful calls would count as evidence
+      expect(await checkProviderHealth(provider)).toMatchObject({ status: 'unknown', latencyMs: null });
+    });
+  });
+
+  describe('caching through BaseProvider', () => {
+    it('answers repeated market lookups from the cache', async () => {
+      const provider = createProvider();
+
+      await provider.getMarketStats('78701');
+      const cached = await provider.getMarketStats('78701');
+
+      expect(cached).toEqual(AUSTIN_MARKET);
+      expect(requestsTo('/markets')).toHaveLength(1);
+      expect(memoryCache.has('rentcast:market-stats:78701')).toBe(true);
+    });
+
+    it('shares the cache between provider instances', async () => {
+      await createProvider().getMarketStats('78701');
+      await createProvider().getMarketStats('78701');
+
+      expect(requestsTo('/markets')).toHaveLength(1);
+    });
+
+    it('bypasses the cache on force refresh', async () => {
+      const provider = createProvider();
+
+      await provider.getMarketStats('78701');
+      await provider.getMarketStats('78701', true);
+
+      expect(requestsTo('/markets')).toHaveLength(2);
+    });
+
+    it('does not cache market stats without prices', async () => {
+      handler = () => ({ status: 200, body: { id: '78705', saleData: { lastUpdatedDate: '2025-06-01' } } });
+      const provider = createProvider();
+
+      await provider.getMarketStats('78705');
+      await provider.getMarketStats('78705');
+
+      expect(requestsTo('/markets')).toHaveLength(2);
+    });
+
+    it('caches search results and property details', async () => {
+      const provider = createProvider();
+
+      await provider.searchProperties('Austin');
+      await provider.searchProperties('austin');
+      await provider.getPropertyDetails('prop-1');
+      await provider.getPropertyDetails('prop-1');
+
+      expect(requestsTo('/properties')).toHaveLength(1);
+      expect(requestsTo('/properties/prop-1')).toHaveLength(1);
+    });
+
+    it('counts requests, not cache hits, against the rate limit', async () => {
+      const provider = createProvider();
+
+      await provider.getMarketStats('78701');
+      await provider.getMarketStats('78701');
+
+      expect(provider.info.rateLimits.remaining).toBe(49);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * RentCast Provider
+ *
+ * Property records, valuations and market statistics from the RentCast API.
+ *
+ * API Documentation: https://developers.rentcast.io/reference/introduction
+ * Base URL: https://api.rentcast.io/v1 (or {VITE_API_PROXY_URL}/rentcast)
+ */
+
+import axios, { type AxiosInstance } from 'axios';
+import { BaseProvider } from './base.provider';
+import type { MarketStats, Property, ProviderConfigField, ProviderConfigValues, ProviderInfo } from './types';
+import { MisconfiguredError, NotFoundError, toProviderError } from './errors';
+import { getApiProxyURL } from './apiProxy';
+import { resolveProviderConfig } from './configSchema';
+import type { ProviderPlugin } from './pluginRegistry';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('RentCast');
+
+const RENTCAST_BASE_URL = 'https://api.rentcast.io/v1';
+
+/**
+ * Settings for the in-app configuration screen
+ */
+export const RENTCAST_CONFIG_SCHEMA: ProviderConfigField[] = [
+  {
+    key: 'apiKey',
+    label: 'API Key',
+    type: 'secret',
+    required: true,
+    envVar: 'VITE_RENTCAST_API_KEY',
+    description: 'From the RentCast API dashboard',
+  },
+  {
+    key: 'baseURL',
+    label: 'Base URL',
+    type: 'url',
+    defaultValue: RENTCAST_BASE_URL,
+  },
+  {
+    key: 'timeoutMs',
+    label: 'Timeout (ms)',
+    type: 'number',
+    defaultValue: 10000,
+    min: 1000,
+    max: 60000,
+  },
+  {
+    key: 'defaultState',
+    label: 'Default State',
+    type: 'text',
+    placeholder: 'e.g. TX',
+    description: 'Used for locations given without a state',
+  },
+];
+
+interface RentCastMarketResponse extends MarketStats {
+  markets?: MarketStats[];
+}
+
+/**
+ * Provider metadata (shared with the plugin registry)
+ */
+const RENTCAST_INFO: ProviderInfo = {
+  id: 'rentcast',
+  name: 'RentCast',
+  description: 'Property and market data with valuations',
+  icon: '🏠',
+  requiresApiKey: true,
+  rateLimits: {
+    limit: 50,
+    period: 'month',
+  },
+  features: {
+    marketStats: true,
+    propertySearch: true,
+    propertyDetails: true,
+  },
+};
+
+export class RentCastProvider extends BaseProvider {
+  private apiKey: string;
+  private proxied: boolean;   // Requests go through the API proxy, which adds the key
+  private defaultState: string;
+  private client: AxiosInstance;
+
+  readonly configSchema = RENTCAST_CONFIG_SCHEMA;
+
+  // Own copy, since the remaining quota is written into rateLimits
+  readonly info: ProviderInfo = { ...RENTCAST_INFO, rateLimits: { ...RENTCAST_INFO.rateLimits } };
+
+  /**
+   * @param overrides - Settings to use instead of the saved / env ones (e.g. to test unsaved values)
+   */
+  constructor(overrides: ProviderConfigValues = {}) {
+    super();
+
+    const config = resolveProviderConfig(this.info.id, RENTCAST_CONFIG_SCHEMA, overrides);
+    const proxyURL = getApiProxyURL();
+    this.proxied = proxyURL !== null;
+    this.apiKey = this.proxied ? '' : String(config.apiKey);
+    this.defaultState = String(config.defaultState).toUpperCase();
+
+    this.client = axios.create({
+      baseURL: proxyURL ? `${proxyURL}/rentcast` : String(config.baseURL),
+      headers: {
+        ...(this.proxied ? {} : { 'X-Api-Key': this.apiKey }),
+        'Content-Type': 'application/json',
+      },
+      timeout: Number(config.timeoutMs),
+    });
+
+    this.attachRateLimiter(this.client);
+
+    this.client.interceptors.response.use(
+      (response) => response,
+      (error) => {
+        // Cancellations pass through unchanged; budget refusals already are provider errors
+        throw axios.isCancel(error) ? error : toProviderError(error, { providerId: this.info.id });
+      }
+    );
+
+    this.logInitialization();
+  }
+
+  isConfigured(): boolean {
+    const configured = this.proxied || Boolean(this.apiKey && this.apiKey !== 'your_api_key_here');
+
+    if (!configured) {
+      log.warn('Not configured', 'Add an API key in Settings or VITE_RENTCAST_API_KEY to .env');
+    }
+
+    return configured;
+  }
+
+  async probe(signal?: AbortSignal): Promise<number> {
+    return this.probeEndpoint(this.client, signal);
+  }
+
+  protected async fetchMarketStatsFromAPI(location: string, signal?: AbortSignal): Promise<MarketStats | null> {
+    if (!this.isConfigured()) {
+      throw this.notConfiguredError();
+    }
+
+    const params = this.parseLocation(location);
+
+    log.debug('Fetching market stats', { location, params, endpoint: '/markets' });
+
+    const response = await this.client.get<RentCastMarketResponse>('/markets', { params, signal });
+    const data = response.data;
+
+    // RentCast returns the market directly; older responses wrapped it in a markets array
+    if (data?.saleData) {
+      return data;
+    }
+
+    if (Array.isArray(data?.markets) && data.markets.length > 0) {
+      return data.markets[0];
+    }
+
+    log.warn('⚠ Unexpected response structure', { location, params, response: data });
+    return null;
+  }
+
+  protected async fetchPropertiesFromAPI(query: string, signal?: AbortSignal): Promise<Property[]> {
+    if (!this.isConfigured()) {
+      throw this.notConfiguredError();
+    }
+
+    const params = /^\d{5}$/.test(query)
+      ? { zipCode: query, limit: 50 }
+      : { city: query, limit: 50 };
+
+    const response = await this.client.get<Property[]>('/properties', { params, signal });
+    return response.data || [];
+  }
+
+  protected async fetchPropertyDetailsFromAPI(propertyId: string, signal?: AbortSignal): Promise<Property | null> {
+    if (!this.isConfigured()) {
+      throw this.notConfiguredError();
+    }
+
+    try {
+      const response = await this.client.get<Property>(
+        `/properties/${encodeURIComponent(propertyId)}`,
+        { signal }
+      );
+      return response.data || null;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a property value estimate (not cached)
+   * @param address - Full address or ZIP code
+   * @param signal - Cancels the request
+   */
+  async getValueEstimate(address: string, signal?: AbortSignal): Promise<Record<string, unknown>> {
+    if (!this.isConfigured()) {
+      throw this.notConfiguredError();
+    }
+
+    return this.executeUncached('value-estimate', `${this.info.id}:value-estimate:${address}`, async (requestSignal) => {
+      const response = await this.client.get<Record<string, unknown>>('/avm/value', {
+        params: { address },
+        signal: requestSignal,
+      });
+      return response.data;
+    }, address, signal);
+  }
+
+  private notConfiguredError(): MisconfiguredError {
+    return new MisconfiguredError(
+      'RentCast provider not configured. Add an API key in Settings or VITE_RENTCAST_API_KEY to .env',
+      { providerId: this.info.id, userMessage: 'RentCast needs an API key.' }
+    );
+  }
+
+  /**
+   * Parse location string into RentCast query parameters
+   */
+  private parseLocation(location: string): Record<string, string> {
+    if (/^\d{5}$/.test(location)) {
+      return { zipCode: location };
+    }
+
+    // Parse "City, State" format
+    const parts = location.split(',').map(s => s.trim());
+    if (parts.length === 2) {
+      return { city: parts[0], state: parts[1] };
+    }
+
+    return this.defaultState ? { city: location, state: this.defaultState } : { city: location };
+  }
+}
+
+/**
+ * Plugin registration
+ */
+export const rentCastPlugin: ProviderPlugin = {
+  info: RENTCAST_INFO,
+  status: 'requires-setup',
+  configSchema: RENTCAST_CONFIG_SCHEMA,
+  create: (config) => new RentCastProvider(config),
+};
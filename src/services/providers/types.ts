@@ -4,6 +4,8 @@
  * Defines the contract that all housing data providers must implement.
  */
 
+import type { ProviderError, ProviderErrorKind } from './errors';
+
 /**
  * Market statistics data structure
  * Standardized across all providers
@@ -17,6 +19,8 @@ export interface MarketStats {
   averagePrice?: number;
   medianPrice?: number;
   percentChange?: number;
+  // Market size ranking (1 = largest), when the source provides one
+  sizeRank?: number;
   // Nested saleData structure (preferred)
   saleData?: {
     lastUpdatedDate?: string;
@@ -39,11 +43,60 @@ export interface MarketStats {
   rentalData?: {
     [key: string]: any;
   };
+  // Listing activity (Redfin / Realtor.com market trackers)
+  inventoryData?: {
+    activeListings?: number;
+    newListings?: number;
+    pendingListings?: number;
+    totalListings?: number;
+    homesSold?: number;
+    monthsOfSupply?: number;
+  };
+  // Provider that supplied this data (set by the fallback chain)
+  source?: MarketSourceAttribution;
   // Historical time-series data (for charts)
   historicalPrices?: Array<{
     date: string;
     price: number;
+    interpolated?: boolean;   // Filled in between reported periods
   }>;
+  // Additional dated metric series, oldest first (e.g. Zillow rent index, inventory)
+  metricSeries?: Partial<Record<MarketMetric, MetricDataPoint[]>>;
+}
+
+/**
+ * Market metrics a provider can supply as dated series
+ */
+export type MarketMetric = 'homeValue' | 'rentIndex' | 'inventory' | 'newListings' | 'daysToPending';
+
+/**
+ * One dated value of a metric series
+ */
+export interface MetricDataPoint {
+  date: string;
+  value: number;
+}
+
+/**
+ * Why a provider in a fallback chain did not answer
+ */
+export interface ProviderSkip {
+  providerId: string;
+  providerName: string;
+  reason: 'not-configured' | 'no-data' | 'error';
+  message: string;
+  errorKind?: ProviderErrorKind;   // For reason 'error'
+}
+
+/**
+ * Which provider supplied a market's data
+ */
+export interface MarketSourceAttribution {
+  providerId: string;
+  providerName: string;
+  icon: string;
+  isMock: boolean;           // Synthetic sample data rather than a real source
+  skipped: ProviderSkip[];   // Earlier providers in the chain that did not answer
 }
 
 /**
@@ -62,6 +115,17 @@ export interface Property {
   squareFootage?: number;
 }
 
+/**
+ * Result of a batch market stats lookup
+ * Failures of individual locations are reported instead of failing the batch.
+ */
+export interface MarketStatsBatchResult {
+  stats: Record<string, MarketStats>;   // By requested location
+  missing: string[];                    // Answered, but no data for the location
+  failed: Array<{ location: string; error: ProviderError }>;
+  cached: string[];                     // Locations served from cache
+}
+
 /**
  * Rate limit information
  */
@@ -89,6 +153,42 @@ export interface ProviderInfo {
   };
 }
 
+/**
+ * One setting in a provider's configuration schema
+ */
+export interface ProviderConfigField {
+  key: string;
+  label: string;
+  type: 'secret' | 'url' | 'number' | 'text';
+  description?: string;
+  required?: boolean;
+  defaultValue?: string | number;
+  envVar?: string;         // Build-time fallback (VITE_*) when no value is saved
+  placeholder?: string;
+  min?: number;            // Number fields only
+  max?: number;
+}
+
+/**
+ * Setting values by field key
+ */
+export type ProviderConfigValues = Record<string, string | number>;
+
+/**
+ * Outcome of a provider connection test
+ */
+export interface ConnectionTestResult {
+  ok: boolean;
+  auth: 'ok' | 'failed' | 'not-configured' | 'unknown';
+  latencyMs: number | null;
+  quota: {
+    limit: number;
+    remaining: number;
+    resetAt: Date;
+  } | null;
+  message: string;
+}
+
 /**
  * Main provider interface
  * All housing data providers must implement this interface
@@ -99,38 +199,72 @@ export interface IHousingDataProvider {
    */
   readonly info: ProviderInfo;
 
+  /**
+   * Settings the provider accepts (optional - for the in-app configuration screen)
+   */
+  readonly configSchema?: ProviderConfigField[];
+
   /**
    * Check if provider is properly configured with required credentials
    */
   isConfigured(): boolean;
 
+  /**
+   * Make one live request and report authentication, quota and latency (optional feature)
+   * @param signal - Cancels the test (rejects with an AbortError)
+   */
+  testConnection?(signal?: AbortSignal): Promise<ConnectionTestResult>;
+
+  /**
+   * Check that the API answers, without credentials or quota (optional feature)
+   * Resolves with the round trip in milliseconds; rejects with a ProviderError
+   * when the API is unreachable.
+   * @param signal - Cancels the probe (rejects with an AbortError)
+   */
+  probe?(signal?: AbortSignal): Promise<number>;
+
   /**
    * Get market statistics for a location
    * @param location - ZIP code or "City, State" format
    * @param forceRefresh - Bypass cache and fetch fresh data
+   * @param signal - Cancels the request (rejects with an AbortError)
+   */
+  getMarketStats(location: string, forceRefresh?: boolean, signal?: AbortSignal): Promise<MarketStats | null>;
+
+  /**
+   * Get market statistics for several locations at once (optional feature)
+   * @param locations - ZIP codes or "City, State" strings
+   * @param forceRefresh - Bypass cache and fetch fresh data
+   * @param signal - Cancels the whole batch (rejects with an AbortError)
    */
-  getMarketStats(location: string, forceRefresh?: boolean): Promise<MarketStats | null>;
+  getMarketStatsBatch?(
+    locations: string[],
+    forceRefresh?: boolean,
+    signal?: AbortSignal
+  ): Promise<MarketStatsBatchResult>;
 
   /**
    * Search for properties by location (optional feature)
    * @param query - City name or ZIP code
    * @param forceRefresh - Bypass cache and fetch fresh data
+   * @param signal - Cancels the request (rejects with an AbortError)
    */
-  searchProperties?(query: string, forceRefresh?: boolean): Promise<Property[]>;
+  searchProperties?(query: string, forceRefresh?: boolean, signal?: AbortSignal): Promise<Property[]>;
 
   /**
    * Get detailed property information by ID (optional feature)
    * @param propertyId - Unique property identifier
    * @param forceRefresh - Bypass cache and fetch fresh data
+   * @param signal - Cancels the request (rejects with an AbortError)
    */
-  getPropertyDetails?(propertyId: string, forceRefresh?: boolean): Promise<Property | null>;
+  getPropertyDetails?(propertyId: string, forceRefresh?: boolean, signal?: AbortSignal): Promise<Property | null>;
 }
 
 /**
  * Provider configuration from environment variables
  */
 export interface ProviderConfig {
-  type: 'zillow-metrics' | 'rentcast' | 'mock';
+  type: string;           // Registered provider ID (see pluginRegistry)
   apiKey?: string;
   baseURL?: string;
   options?: Record<string, any>;
@@ -2,105 +2,245 @@
  * Zillow Housing Market Metrics Provider
  *
  * Uses the Bridge Data Output API to access Zillow's ZHVI (Zillow Home Value Index)
- * and other housing market metrics.
+ * and other housing market metrics. ZHVI is always fetched; rent index,
+ * inventory, new listings and days to pending can be added with
+ * VITE_ZILLOW_METRIC_TYPES (comma-separated Bridge metricTypeKey values).
  *
  * API Documentation: https://documenter.getpostman.com/view/9197254/UVsFz93V
  * Base URL: https://api.bridgedataoutput.com/api/v2/zgecon/marketreport
+ *   (or {VITE_API_PROXY_URL}/zillow/marketreport)
  */
 
 import axios, { type AxiosInstance } from 'axios';
 import { BaseProvider } from './base.provider';
-import type { MarketStats, ProviderInfo } from './types';
+import type {
+  MarketMetric,
+  MarketStats,
+  MetricDataPoint,
+  ProviderConfigField,
+  ProviderConfigValues,
+  ProviderInfo,
+} from './types';
+import { getApiProxyURL } from './apiProxy';
+import { resolveProviderConfig } from './configSchema';
+import type { ProviderPlugin } from './pluginRegistry';
+import { createLogger } from '../../utils/logger';
+import { AuthError, MisconfiguredError, toProviderError } from './errors';
+
+const log = createLogger('Zillow Metrics');
+
+interface ZillowMetricRow {
+  stateCodeFIPS: string;
+  releaseDate: string;
+  dataValue: number;
+  regionCity: string | null;
+  timePeriodTypeKey: string;
+  metricTypeKey: string;
+  regionMetro: string;
+  regionTypeID: number;
+  regionID: number;
+  regionType: string;
+  regionCounty: string;
+  cutTypeKey: string;
+  municipalCodeFIPS: string;
+  regionState: string;
+  timePeriodEndDateTime: string;
+  id: number;
+  region: string;
+  createDate: string;
+  url: string;
+}
 
 interface ZillowMetricResponse {
   success: boolean;
   status: number;
-  bundle: Array<{
-    stateCodeFIPS: string;
-    releaseDate: string;
-    dataValue: number;
-    regionCity: string | null;
-    timePeriodTypeKey: string;
-    metricTypeKey: string;
-    regionMetro: string;
-    regionTypeID: number;
-    regionID: number;
-    regionType: string;
-    regionCounty: string;
-    cutTypeKey: string;
-    municipalCodeFIPS: string;
-    regionState: string;
-    timePeriodEndDateTime: string;
-    id: number;
-    region: string;
-    createDate: string;
-    url: string;
-  }>;
+  total?: number;
+  bundle: ZillowMetricRow[];
+}
+
+interface FetchedRows {
+  rows: ZillowMetricRow[];
+  fetched: number;          // Rows received, before the metric filter
+  total: number | null;     // Rows matching the query, when the API reports it
+  truncated: boolean;       // Paging stopped at MAX_PAGES with rows left
+}
+
+export type ZillowMetricTypeKey = 'zhvi' | 'zori' | 'invt_fs' | 'new_listings' | 'med_doz_pending';
+
+/**
+ * Bridge metric types the provider can request
+ * Each metric is published for its own housing segment (cutTypeKey).
+ */
+export const ZILLOW_METRIC_TYPES: Record<ZillowMetricTypeKey, {
+  metric: MarketMetric;
+  label: string;
+  cutTypeKey: string;
+}> = {
+  zhvi: { metric: 'homeValue', label: 'Home Value Index (ZHVI)', cutTypeKey: 'uc_sfrcondo' },
+  zori: { metric: 'rentIndex', label: 'Observed Rent Index (ZORI)', cutTypeKey: 'uc_sfrcondomfr' },
+  invt_fs: { metric: 'inventory', label: 'For-Sale Inventory', cutTypeKey: 'sfrcondo' },
+  new_listings: { metric: 'newListings', label: 'New Listings', cutTypeKey: 'sfrcondo' },
+  med_doz_pending: { metric: 'daysToPending', label: 'Median Days to Pending', cutTypeKey: 'sfrcondo' },
+};
+
+const ZILLOW_BASE_URL = 'https://api.bridgedataoutput.com/api/v2/zgecon/marketreport';
+
+/**
+ * Settings for the in-app configuration screen
+ */
+export const ZILLOW_METRICS_CONFIG_SCHEMA: ProviderConfigField[] = [
+  {
+    key: 'accessToken',
+    label: 'Access Token',
+    type: 'secret',
+    required: true,
+    envVar: 'VITE_ZILLOW_METRICS_API_KEY',
+    description: 'Bridge Data Output server token',
+  },
+  {
+    key: 'baseURL',
+    label: 'Base URL',
+    type: 'url',
+    defaultValue: ZILLOW_BASE_URL,
+  },
+  {
+    key: 'timeoutMs',
+    label: 'Timeout (ms)',
+    type: 'number',
+    defaultValue: 15000,
+    min: 1000,
+    max: 60000,
+  },
+  {
+    key: 'defaultState',
+    label: 'Default State',
+    type: 'text',
+    placeholder: 'e.g. TX',
+    description: 'Preferred state when a city name matches several regions',
+  },
+];
+
+const PAGE_SIZE = 200;   // Bridge's maximum page size
+const MAX_PAGES = 10;    // Stops runaway paging on very broad queries (batches are split instead)
+const RECENT_PERIODS = 12; // Months used for min/max/average, matching the ZHVI CSV parser
+
+const isMetricTypeKey = (key: string): key is ZillowMetricTypeKey => Object.hasOwn(ZILLOW_METRIC_TYPES, key);
+
+/**
+ * Metric types selected with VITE_ZILLOW_METRIC_TYPES (ZHVI is always included)
+ */
+function getConfiguredMetricTypes(): ZillowMetricTypeKey[] {
+  const configured = (import.meta.env.VITE_ZILLOW_METRIC_TYPES || '')
+    .split(',')
+    .map((key: string) => key.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = configured.filter((key: string) => !isMetricTypeKey(key));
+  if (unknown.length > 0) {
+    log.warn('Ignoring unknown metric types', { unknown, supported: Object.keys(ZILLOW_METRIC_TYPES) });
+  }
+
+  return Array.from(new Set<ZillowMetricTypeKey>(['zhvi', ...configured.filter(isMetricTypeKey)]));
 }
 
+/**
+ * Provider metadata (shared with the plugin registry)
+ */
+const ZILLOW_METRICS_INFO: ProviderInfo = {
+  id: 'zillow-metrics',
+  name: 'Zillow Market Metrics',
+  description: 'ZHVI and market statistics via Bridge Data Output API',
+  icon: '🏘️',
+  requiresApiKey: true,
+  rateLimits: {
+    limit: 1000, // Estimate - needs verification
+    period: 'day',
+  },
+  features: {
+    marketStats: true,
+    propertySearch: false,
+    propertyDetails: false,
+  },
+};
+
 export class ZillowMetricsProvider extends BaseProvider {
-  private baseURL = 'https://api.bridgedataoutput.com/api/v2/zgecon/marketreport';
   private accessToken: string;
+  private proxied: boolean;   // Requests go through the API proxy, which adds the token
+  private defaultState: string;
   private client: AxiosInstance;
+  private metricTypeKeys: ZillowMetricTypeKey[];
+
+  readonly configSchema = ZILLOW_METRICS_CONFIG_SCHEMA;
+
+  // Own copy, since the remaining quota is written into rateLimits
+  readonly info: ProviderInfo = { ...ZILLOW_METRICS_INFO, rateLimits: { ...ZILLOW_METRICS_INFO.rateLimits } };
 
-  readonly info: ProviderInfo = {
-    id: 'zillow-metrics',
-    name: 'Zillow Market Metrics',
-    description: 'ZHVI and market statistics via Bridge Data Output API',
-    icon: '🏘️',
-    requiresApiKey: true,
-    rateLimits: {
-      limit: 1000, // Estimate - needs verification
-      period: 'day',
-    },
-    features: {
-      marketStats: true,
-      propertySearch: false,
-      propertyDetails: false,
-    },
-  };
-
-  constructor() {
+  /**
+   * @param metricTypeKeys - Metrics to fetch (defaults to VITE_ZILLOW_METRIC_TYPES); ZHVI is always included
+   * @param overrides - Settings to use instead of the saved / env ones (e.g. to test unsaved values)
+   */
+  constructor(
+    metricTypeKeys: ZillowMetricTypeKey[] = getConfiguredMetricTypes(),
+    overrides: ProviderConfigValues = {}
+  ) {
     super();
 
-    this.accessToken = import.meta.env.VITE_ZILLOW_METRICS_API_KEY || '';
+    const config = resolveProviderConfig(this.info.id, ZILLOW_METRICS_CONFIG_SCHEMA, overrides);
+    const proxyURL = getApiProxyURL();
+    this.proxied = proxyURL !== null;
+    this.accessToken = this.proxied ? '' : String(config.accessToken);
+    this.defaultState = String(config.defaultState).toUpperCase();
+    this.metricTypeKeys = Array.from(new Set<ZillowMetricTypeKey>(['zhvi', ...metricTypeKeys]));
 
     this.client = axios.create({
-      baseURL: this.baseURL,
-      timeout: 15000, // 15 second timeout
+      baseURL: proxyURL ? `${proxyURL}/zillow/marketreport` : String(config.baseURL),
+      timeout: Number(config.timeoutMs),
     });
 
+    this.attachRateLimiter(this.client);
+
     this.logInitialization();
   }
 
   isConfigured(): boolean {
-    const configured = Boolean(this.accessToken && this.accessToken.length > 0);
+    const configured = this.proxied || Boolean(this.accessToken && this.accessToken.length > 0);
 
     if (!configured) {
-      console.warn(
-        '%c[Zillow Metrics] Not configured',
-        'color: #F59E0B; font-weight: bold',
-        'Missing VITE_ZILLOW_METRICS_API_KEY in .env'
-      );
+      log.warn('Not configured', 'Add an access token in Settings or VITE_ZILLOW_METRICS_API_KEY to .env');
     }
 
     return configured;
   }
 
-  protected async fetchMarketStatsFromAPI(location: string): Promise<MarketStats | null> {
+  async probe(signal?: AbortSignal): Promise<number> {
+    return this.probeEndpoint(this.client, signal);
+  }
+
+  /**
+   * Metric types this provider requests
+   */
+  getMetricTypes(): ZillowMetricTypeKey[] {
+    return [...this.metricTypeKeys];
+  }
+
+  /**
+   * Include the metric selection so changing it does not serve stale entries
+   */
+  protected getMarketStatsCacheKey(location: string): string {
+    const baseKey = super.getMarketStatsCacheKey(location);
+    return this.metricTypeKeys.length > 1 ? `${baseKey}:${this.metricTypeKeys.join('+')}` : baseKey;
+  }
+
+  protected async fetchMarketStatsFromAPI(location: string, signal?: AbortSignal): Promise<MarketStats | null> {
     if (!this.isConfigured()) {
-      throw new Error('Zillow Metrics provider not configured. Add VITE_ZILLOW_METRICS_API_KEY to .env');
+      throw this.notConfiguredError();
     }
 
     // Parse location
     const { city, state, zipCode } = this.parseLocation(location);
 
     if (!city && !zipCode) {
-      console.error(
-        '%c[Zillow Metrics] Invalid location format',
-        'color: #EF4444',
-        { location, expected: 'City, State or ZIP code' }
-      );
+      log.error('Invalid location format', { location, expected: 'City, State or ZIP code' });
       return null;
     }
 
@@ -119,126 +259,297 @@ export class ZillowMetricsProvider extends BaseProvider {
 
       // Build API request parameters
       const params = {
-        access_token: this.accessToken,
-        metricTypeKey: 'zhvi', // Zillow Home Value Index
-        cutTypeKey: 'uc_sfrcondo', // Single-family homes and condos
+        ...this.getMetricParams(),
         regionTypeID,
         region: regionParam,
       };
 
-      console.log(
-        '%c[Zillow Metrics] Fetching ZHVI',
-        'color: #6366F1',
-        { params: { ...params, access_token: '***' } }
+      log.debug(
+        'Fetching metrics',
+        { params: { ...params, access_token: this.proxied ? '(proxy)' : '***' } }
       );
 
-      const response = await this.client.get<ZillowMetricResponse>('', { params });
+      const { rows, fetched, total, truncated } = await this.fetchRows(params, signal);
+      if (truncated) {
+        log.warn('Paging limit reached - results truncated', { location, fetched, total });
+      }
 
-      console.log(
-        '%c[Zillow Metrics] ✓ Response received',
-        'color: #10B981',
-        {
-          success: response.data.success,
-          status: response.data.status,
-          dataPoints: response.data.bundle?.length || 0,
-        }
-      );
+      log.debug('✓ Response received', { dataPoints: rows.length });
 
-      if (!response.data.success || !response.data.bundle || response.data.bundle.length === 0) {
-        console.warn(
-          '%c[Zillow Metrics] No data in response',
-          'color: #F59E0B',
-          { location, response: response.data }
-        );
+      if (rows.length === 0) {
+        log.warn('No data in response', { location });
         return null;
       }
 
+      // Prefer rows in the requested state when the city name is ambiguous
+      const stateRows = state
+        ? rows.filter(row => row.regionState?.toUpperCase() === state.toUpperCase())
+        : [];
+
       // Transform response to MarketStats
-      return this.transformResponse(response.data, city, state, zipCode);
+      return this.transformResponse(stateRows.length > 0 ? stateRows : rows, city, state, zipCode);
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const message = error.response?.data?.message || error.message;
-
-        if (status === 401 || status === 403) {
-          console.error(
-            '%c[Zillow Metrics] Authentication failed',
-            'color: #EF4444; font-weight: bold',
-            'Check VITE_ZILLOW_METRICS_API_KEY'
-          );
-        } else if (status === 429) {
-          console.error(
-            '%c[Zillow Metrics] Rate limit exceeded',
-            'color: #EF4444; font-weight: bold',
-            'Too many requests'
-          );
-        } else {
-          console.error(
-            '%c[Zillow Metrics] API request failed',
-            'color: #EF4444',
-            { status, message, location }
-          );
-        }
+      if (axios.isCancel(error)) {
+        throw error;
+      }
+
+      const providerError = toProviderError(error, { providerId: this.info.id, location });
+
+      if (providerError instanceof AuthError) {
+        log.error(
+          'Authentication failed',
+          'Check the access token (Settings or VITE_ZILLOW_METRICS_API_KEY)'
+        );
+        throw new AuthError(providerError.message, {
+          providerId: this.info.id,
+          location,
+          statusCode: providerError.statusCode,
+          userMessage: 'Zillow Metrics rejected the access token.',
+          cause: error,
+        });
       }
 
-      throw error;
+      if (providerError.kind === 'rate-limit') {
+        log.error('Rate limit exceeded', 'Too many requests');
+      } else {
+        log.error('API request failed', { status: providerError.statusCode, message: providerError.message, location });
+      }
+
+      throw providerError;
+    }
+  }
+
+  /**
+   * Fetch metrics for several regions with one request per region level
+   * The marketreport endpoint filters on a comma-separated `region.in` list;
+   * rows are matched back to locations by region name (and state for cities).
+   */
+  protected async fetchMarketStatsBatchFromAPI(
+    locations: string[],
+    signal?: AbortSignal
+  ): Promise<Record<string, MarketStats | null>> {
+    if (!this.isConfigured()) {
+      throw this.notConfiguredError();
+    }
+
+    const parsed = locations.map(location => ({ location, ...this.parseLocation(location) }));
+    const groups = [
+      { regionTypeID: 8, items: parsed.filter(item => item.zipCode) },           // ZIP code level
+      { regionTypeID: 6, items: parsed.filter(item => !item.zipCode && item.city) }, // City level
+    ];
+
+    const answers: Record<string, MarketStats | null> = {};
+
+    for (const { regionTypeID, items } of groups) {
+      if (items.length === 0) continue;
+
+      const regions = Array.from(new Set(items.map(item => item.zipCode || item.city)));
+
+      log.debug('Fetching metrics batch', { regionTypeID, regions: regions.length });
+
+      const bundle = await this.fetchRegionRows(regionTypeID, regions, signal);
+
+      items.forEach(item => {
+        const region = (item.zipCode || item.city).toLowerCase();
+        const regionRows = bundle.filter(row => row.region?.toLowerCase() === region);
+        // Prefer rows in the requested state when the city name is ambiguous
+        const stateRows = item.state
+          ? regionRows.filter(row => row.regionState?.toUpperCase() === item.state.toUpperCase())
+          : [];
+        const rows = stateRows.length > 0 ? stateRows : regionRows;
+
+        answers[item.location] = rows.length > 0
+          ? this.transformResponse(rows, item.city, item.state, item.zipCode)
+          : null;
+      });
+    }
+
+    return answers;
+  }
+
+  /**
+   * Metric and segment filters for the configured metric types
+   */
+  private getMetricParams(): Record<string, string> {
+    // The proxy adds the token itself
+    const auth: Record<string, string> = this.proxied ? {} : { access_token: this.accessToken };
+
+    if (this.metricTypeKeys.length === 1) {
+      const [key] = this.metricTypeKeys;
+      return {
+        ...auth,
+        metricTypeKey: key,
+        cutTypeKey: ZILLOW_METRIC_TYPES[key].cutTypeKey,
+      };
+    }
+
+    const cutTypeKeys = new Set(this.metricTypeKeys.map(key => ZILLOW_METRIC_TYPES[key].cutTypeKey));
+    return {
+      ...auth,
+      'metricTypeKey.in': this.metricTypeKeys.join(','),
+      'cutTypeKey.in': Array.from(cutTypeKeys).join(','),
+    };
+  }
+
+  /**
+   * Fetch rows for a list of regions
+   * A list with more rows than paging allows is split in half until each
+   * request fits, so large batches are not cut short.
+   */
+  private async fetchRegionRows(
+    regionTypeID: number,
+    regions: string[],
+    signal?: AbortSignal
+  ): Promise<ZillowMetricRow[]> {
+    const params = {
+      ...this.getMetricParams(),
+      regionTypeID,
+      'region.in': regions.join(','),
+    };
+    const { rows, fetched, total, truncated } = await this.fetchRows(params, signal);
+
+    if (!truncated) {
+      return rows;
+    }
+
+    if (regions.length === 1) {
+      log.warn('Paging limit reached - results truncated', { region: regions[0], fetched, total });
+      return rows;
+    }
+
+    const half = Math.ceil(regions.length / 2);
+    log.debug('Batch exceeds paging limit - splitting', { regions: regions.length, fetched, total });
+
+    return [
+      ...await this.fetchRegionRows(regionTypeID, regions.slice(0, half), signal),
+      ...await this.fetchRegionRows(regionTypeID, regions.slice(half), signal),
+    ];
+  }
+
+  /**
+   * Fetch up to MAX_PAGES pages of a query, keeping rows of the configured metrics
+   */
+  private async fetchRows(
+    params: Record<string, string | number>,
+    signal?: AbortSignal
+  ): Promise<FetchedRows> {
+    const rows: ZillowMetricRow[] = [];
+    let total: number | null = null;
+    let complete = false;
+
+    for (let page = 0; page < MAX_PAGES && !complete; page++) {
+      const response = await this.client.get<ZillowMetricResponse>('', {
+        params: { ...params, limit: PAGE_SIZE, offset: page * PAGE_SIZE },
+        signal,
+      });
+
+      const bundle = response.data.success ? response.data.bundle ?? [] : [];
+      rows.push(...bundle);
+
+      total = response.data.total ?? null;
+      complete = bundle.length < PAGE_SIZE || (total !== null && rows.length >= total);
     }
+
+    // Segment filters are combined across metrics, so drop other metric/segment pairs
+    return {
+      rows: rows.filter(row =>
+        isMetricTypeKey(row.metricTypeKey) &&
+        this.metricTypeKeys.includes(row.metricTypeKey) &&
+        ZILLOW_METRIC_TYPES[row.metricTypeKey].cutTypeKey === row.cutTypeKey
+      ),
+      fetched: rows.length,
+      total,
+      truncated: !complete,
+    };
+  }
+
+  /**
+   * Build a dated series (oldest first) from one metric's rows
+   * Rows repeated across releases keep the most recently released value.
+   */
+  private toSeries(rows: ZillowMetricRow[]): MetricDataPoint[] {
+    const byDate = new Map<string, ZillowMetricRow>();
+
+    rows.forEach(row => {
+      const date = (row.timePeriodEndDateTime || row.releaseDate).slice(0, 10);
+      const existing = byDate.get(date);
+      if (!existing || new Date(row.releaseDate) > new Date(existing.releaseDate)) {
+        byDate.set(date, row);
+      }
+    });
+
+    return Array.from(byDate.entries())
+      .filter(([, row]) => Number.isFinite(row.dataValue))
+      .map(([date, row]) => ({ date, value: row.dataValue }))
+      .sort((a, b) => a.date.localeCompare(b.date));
   }
 
   /**
-   * Transform Zillow API response to MarketStats format
+   * Transform Zillow metric rows of one region to MarketStats format
    */
   private transformResponse(
-    data: ZillowMetricResponse,
+    rows: ZillowMetricRow[],
     city: string,
     state: string,
     zipCode?: string
   ): MarketStats | null {
-    const bundle = data.bundle;
+    const metricSeries: Partial<Record<MarketMetric, MetricDataPoint[]>> = {};
+    this.metricTypeKeys.forEach(key => {
+      const series = this.toSeries(rows.filter(row => row.metricTypeKey === key));
+      if (series.length > 0) {
+        metricSeries[ZILLOW_METRIC_TYPES[key].metric] = series;
+      }
+    });
 
-    if (!bundle || bundle.length === 0) {
+    const zhviRows = rows.filter(row => row.metricTypeKey === 'zhvi');
+    const homeValues = (metricSeries.homeValue ?? []).filter(point => point.value > 0);
+
+    if (zhviRows.length === 0 || homeValues.length === 0) {
       return null;
     }
 
-    // Sort by release date (most recent first)
-    const sorted = [...bundle].sort(
-      (a, b) => new Date(b.releaseDate).getTime() - new Date(a.releaseDate).getTime()
+    const latestRow = zhviRows.reduce((latest, row) =>
+      new Date(row.releaseDate) > new Date(latest.releaseDate) ? row : latest
     );
-
-    const latest = sorted[0];
-    const previous = sorted[1];
+    const latest = homeValues[homeValues.length - 1];
+    const previous = homeValues[homeValues.length - 2];
 
     // Calculate price change from previous month
     let percentChange = 0;
-    if (latest && previous && previous.dataValue > 0) {
-      percentChange = ((latest.dataValue - previous.dataValue) / previous.dataValue) * 100;
+    if (previous && previous.value > 0) {
+      percentChange = ((latest.value - previous.value) / previous.value) * 100;
     }
 
-    // Calculate min/max from available data
-    const values = sorted.map(item => item.dataValue).filter(v => v > 0);
-    const minPrice = values.length > 0 ? Math.min(...values) : 0;
-    const maxPrice = values.length > 0 ? Math.max(...values) : 0;
-    const avgPrice = values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : 0;
+    // Calculate min/max/average over the recent periods
+    const values = homeValues.slice(-RECENT_PERIODS).map(point => point.value);
+    const minPrice = Math.min(...values);
+    const maxPrice = Math.max(...values);
+    const avgPrice = values.reduce((sum, val) => sum + val, 0) / values.length;
+
+    const latestOf = (metric: MarketMetric): number | undefined => {
+      const series = metricSeries[metric];
+      return series && series.length > 0 ? series[series.length - 1].value : undefined;
+    };
 
-    console.log(
-      '%c[Zillow Metrics] ✓ Transformed data',
-      'color: #6366F1',
+    log.debug(
+      '✓ Transformed data',
       {
-        region: latest.region,
-        currentValue: latest.dataValue,
+        region: latestRow.region,
+        currentValue: latest.value,
         percentChange: percentChange.toFixed(2) + '%',
-        dataPoints: sorted.length,
+        dataPoints: homeValues.length,
+        metrics: Object.keys(metricSeries),
       }
     );
 
     return {
-      id: latest.regionID.toString(),
-      city: city || latest.regionCity || latest.region,
-      state: state || latest.regionState,
+      id: latestRow.regionID.toString(),
+      city: city || latestRow.regionCity || latestRow.region,
+      state: state || latestRow.regionState,
       zipCode: zipCode,
       saleData: {
-        lastUpdatedDate: latest.releaseDate,
-        medianPrice: Math.round(latest.dataValue),
+        lastUpdatedDate: latestRow.releaseDate,
+        medianPrice: Math.round(latest.value),
         averagePrice: Math.round(avgPrice),
         minPrice: Math.round(minPrice),
         maxPrice: Math.round(maxPrice),
@@ -250,10 +561,25 @@ export class ZillowMetricsProvider extends BaseProvider {
         averageDaysOnMarket: undefined,
         medianDaysOnMarket: undefined,
       },
+      rentalData: metricSeries.rentIndex
+        ? { medianRent: Math.round(latestOf('rentIndex')!) }
+        : undefined,
+      inventoryData: metricSeries.inventory || metricSeries.newListings
+        ? { activeListings: latestOf('inventory'), newListings: latestOf('newListings') }
+        : undefined,
       percentChange,
+      historicalPrices: homeValues.map(point => ({ date: point.date, price: Math.round(point.value) })),
+      metricSeries,
     };
   }
 
+  private notConfiguredError(): MisconfiguredError {
+    return new MisconfiguredError(
+      'Zillow Metrics provider not configured. Add an access token in Settings or VITE_ZILLOW_METRICS_API_KEY to .env',
+      { providerId: this.info.id, userMessage: 'Zillow Metrics needs an access token.' }
+    );
+  }
+
   /**
    * Parse location string into components
    */
@@ -274,8 +600,18 @@ export class ZillowMetricsProvider extends BaseProvider {
     // Parse "City, State" format
     const parts = location.split(',').map(s => s.trim());
     const city = parts[0] || '';
-    const state = parts[1] || '';
+    const state = parts[1] || this.defaultState;
 
     return { city, state };
   }
 }
+
+/**
+ * Plugin registration
+ */
+export const zillowMetricsPlugin: ProviderPlugin = {
+  info: ZILLOW_METRICS_INFO,
+  status: 'requires-setup',
+  configSchema: ZILLOW_METRICS_CONFIG_SCHEMA,
+  create: (config) => new ZillowMetricsProvider(undefined, config),
+};
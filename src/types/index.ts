@@ -1,3 +1,5 @@
+import type { MarketSourceAttribution } from '../services/providers/types';
+
 // Market types
 export interface Market {
   id: string;
@@ -7,21 +9,33 @@ export interface Market {
   zipCode?: string;
 }
 
+// How a value was obtained:
+// - observed: reported by a data source
+// - interpolated: estimated between observed values (gap-filled months)
+// - synthetic: generated (sample data or random fill)
+export type DataProvenance = 'observed' | 'interpolated' | 'synthetic';
+
 // Price data types
 export interface PriceDataPoint {
   date: string;          // ISO date string
   price: number;
   propertyType: 'single_family' | 'condo' | 'apartment';
+  provenance: DataProvenance;
 }
 
 export interface MarketPriceData {
   marketId: string;
   marketName: string;
   currentPrice: number;
-  priceChange: number;   // percentage
+  priceChange: number | null;   // percentage; null when no source reports one
   changeDirection: 'up' | 'down' | 'neutral';
   historicalData: PriceDataPoint[];
   lastUpdated: string;
+  provenance: {
+    currentPrice: DataProvenance;
+    priceChange?: DataProvenance;   // Absent when priceChange is null
+  };
+  source?: MarketSourceAttribution;  // Provider that supplied the data
 }
 
 // Watchlist types
@@ -29,6 +43,8 @@ export interface WatchlistItem {
   marketId: string;
   marketName: string;
   addedAt: string;       // ISO date string
+  zipCode?: string;
+  notes?: string;
 }
 
 // Component prop types
@@ -36,11 +52,13 @@ export interface MarketCardProps {
   market: MarketPriceData;
   onClick: () => void;
   onAddToWatchlist?: () => void;
+  isInWatchlist?: boolean;
 }
 
 export interface PriceChartProps {
   data: PriceDataPoint[];
   timeRange: '1M' | '6M' | '1Y' | '5Y' | 'MAX';
+  loading?: boolean;     // Data is still being fetched
 }
 
 export interface TimeRangeSelectorProps {
@@ -53,7 +71,12 @@ export interface MarketSearchProps {
 }
 
 export interface WatchlistPanelProps {
+  items: WatchlistItem[];
+  liveData: Record<string, MarketPriceData>;
   onSelectMarket: (marketId: string) => void;
+  onRemove: (marketId: string) => void;
+  onMove: (marketId: string, direction: 'up' | 'down') => void;
+  onUpdateNotes: (marketId: string, notes: string) => void;
 }
 
 // Time range type
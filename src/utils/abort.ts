@@ -0,0 +1,78 @@
+/**
+ * Cancellation Helpers
+ *
+ * Small utilities for AbortSignal-based cancellation shared by providers,
+ * the request layer and hooks.
+ */
+
+import axios from 'axios';
+
+/**
+ * Create the error used for cancelled operations (same shape as fetch's)
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('The operation was aborted', 'AbortError');
+}
+
+/**
+ * Check whether an error means the operation was cancelled
+ * Covers fetch/DOM AbortErrors and axios cancellations.
+ */
+export function isAbortError(error: unknown): boolean {
+  return axios.isCancel(error) || (error as { name?: string } | null)?.name === 'AbortError';
+}
+
+/**
+ * Throw an AbortError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Wait for a delay, rejecting early with an AbortError when the signal aborts
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with a promise's outcome, or reject with an AbortError as soon as the
+ * signal aborts (the underlying work is not cancelled)
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
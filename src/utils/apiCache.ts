@@ -5,6 +5,10 @@
  * Helps reduce API calls and improve performance by caching responses locally.
  */
 
+import { createLogger } from './logger';
+
+const log = createLogger('Cache');
+
 interface CachedData<T> {
   data: T;
   timestamp: number;
@@ -54,24 +58,16 @@ export class APICache {
 
       // Check if expired
       if (age > ttl) {
-        console.log(
-          '%c[Cache] Expired',
-          'color: #F59E0B',
-          { key, ageHours: (age / (1000 * 60 * 60)).toFixed(1) }
-        );
+        log.debug('Expired', { key, ageHours: (age / (1000 * 60 * 60)).toFixed(1) });
         this.remove(key);
         return null;
       }
 
-      console.log(
-        '%c[Cache] ✓ Hit',
-        'color: #10B981; font-weight: bold',
-        { key, ageMinutes: (age / (1000 * 60)).toFixed(1) }
-      );
+      log.debug('✓ Hit', { key, ageMinutes: (age / (1000 * 60)).toFixed(1) });
 
       return data;
     } catch (error) {
-      console.error('[Cache] Error reading from cache:', error);
+      log.error('Error reading from cache', error);
       return null;
     }
   }
@@ -93,18 +89,14 @@ export class APICache {
 
       localStorage.setItem(fullKey, JSON.stringify(cached));
 
-      console.log(
-        '%c[Cache] ✓ Stored',
-        'color: #6366F1',
-        { key, ttlHours: (ttlMs / (1000 * 60 * 60)).toFixed(1) }
-      );
+      log.debug('✓ Stored', { key, ttlHours: (ttlMs / (1000 * 60 * 60)).toFixed(1) });
     } catch (error) {
       // localStorage might be full or disabled
-      console.error('[Cache] Error storing in cache:', error);
+      log.error('Error storing in cache', error);
 
       // Try to clear old entries and retry
       if (error instanceof Error && error.name === 'QuotaExceededError') {
-        console.warn('[Cache] Storage quota exceeded, clearing old entries');
+        log.warn('Storage quota exceeded, clearing old entries');
         this.clearExpired();
       }
     }
@@ -118,9 +110,9 @@ export class APICache {
     try {
       const fullKey = this.prefix + key;
       localStorage.removeItem(fullKey);
-      console.log('%c[Cache] Removed', 'color: #EF4444', { key });
+      log.debug('Removed', { key });
     } catch (error) {
-      console.error('[Cache] Error removing from cache:', error);
+      log.error('Error removing from cache', error);
     }
   }
 
@@ -139,13 +131,9 @@ export class APICache {
         }
       });
 
-      console.log(
-        '%c[Cache] ✓ Cleared',
-        'color: #EF4444; font-weight: bold',
-        { itemsCleared: cleared }
-      );
+      log.info('✓ Cleared', { itemsCleared: cleared });
     } catch (error) {
-      console.error('[Cache] Error clearing cache:', error);
+      log.error('Error clearing cache', error);
     }
   }
 
@@ -179,14 +167,10 @@ export class APICache {
       });
 
       if (cleared > 0) {
-        console.log(
-          '%c[Cache] Cleared expired entries',
-          'color: #F59E0B',
-          { itemsCleared: cleared }
-        );
+        log.info('Cleared expired entries', { itemsCleared: cleared });
       }
     } catch (error) {
-      console.error('[Cache] Error clearing expired cache:', error);
+      log.error('Error clearing expired cache', error);
     }
   }
 
@@ -213,7 +197,7 @@ export class APICache {
         totalSize,
       };
     } catch (error) {
-      console.error('[Cache] Error getting stats:', error);
+      log.error('Error getting stats', error);
       return {
         count: 0,
         keys: [],
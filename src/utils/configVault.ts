@@ -0,0 +1,204 @@
+/**
+ * Provider Configuration Vault
+ *
+ * Stores the settings entered in the app (API keys, base URLs, timeouts)
+ * encrypted in localStorage with a key derived from a user passphrase
+ * (PBKDF2 + AES-GCM via WebCrypto). The passphrase is never stored; the
+ * decrypted settings live in memory until the vault is locked or the page
+ * is closed. While locked, providers fall back to VITE_* env vars.
+ */
+
+import { PROVIDER_CONFIG_STORAGE_KEY } from './constants';
+import type { ProviderConfigValues } from '../services/providers/types';
+import { createLogger } from './logger';
+
+const log = createLogger('Config Vault');
+
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+interface StoredVault {
+  version: number;
+  salt: string;   // Base64
+  iv: string;     // Base64
+  data: string;   // Base64 AES-GCM ciphertext of the settings JSON
+}
+
+type VaultContents = Record<string, ProviderConfigValues>;
+
+interface VaultSession {
+  key: CryptoKey;
+  salt: Uint8Array<ArrayBuffer>;
+  contents: VaultContents;
+}
+
+/**
+ * Thrown when the vault cannot be opened or written
+ */
+export class ConfigVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigVaultError';
+  }
+}
+
+// Unlocked settings, kept in memory only
+let session: VaultSession | null = null;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const loadVault = (): StoredVault | null => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_CONFIG_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed?.version === VAULT_VERSION ? parsed : null;
+  } catch (error) {
+    log.error('Failed to read stored settings', error);
+    return null;
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const persist = async (active: VaultSession): Promise<void> => {
+  // A fresh IV for every write; reusing one with the same key breaks AES-GCM
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    active.key,
+    new TextEncoder().encode(JSON.stringify(active.contents))
+  );
+
+  const vault: StoredVault = {
+    version: VAULT_VERSION,
+    salt: toBase64(active.salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+  localStorage.setItem(PROVIDER_CONFIG_STORAGE_KEY, JSON.stringify(vault));
+};
+
+/**
+ * Check whether encrypted settings have been saved
+ */
+export function hasStoredProviderConfig(): boolean {
+  return loadVault() !== null;
+}
+
+/**
+ * Check whether the settings are unlocked for this session
+ */
+export function isProviderConfigUnlocked(): boolean {
+  return session !== null;
+}
+
+/**
+ * Unlock the saved settings (or start a new vault protected by this passphrase)
+ * Throws ConfigVaultError when the passphrase is wrong.
+ */
+export async function unlockProviderConfig(passphrase: string): Promise<void> {
+  if (!passphrase) {
+    throw new ConfigVaultError('Enter a passphrase.');
+  }
+
+  const vault = loadVault();
+
+  if (!vault) {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    session = { key: await deriveKey(passphrase, salt), salt, contents: {} };
+    log.info('New vault created');
+    return;
+  }
+
+  const salt = fromBase64(vault.salt);
+  const key = await deriveKey(passphrase, salt);
+
+  let contents: VaultContents;
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+      key,
+      fromBase64(vault.data)
+    );
+    contents = JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    // AES-GCM authentication fails for a wrong key, so this is the wrong passphrase
+    throw new ConfigVaultError('Incorrect passphrase.');
+  }
+
+  session = { key, salt, contents };
+  log.info('Unlocked', { providers: Object.keys(contents) });
+}
+
+/**
+ * Forget the decrypted settings (providers fall back to env vars)
+ */
+export function lockProviderConfig(): void {
+  session = null;
+  log.info('Locked');
+}
+
+/**
+ * Get a provider's saved settings ({} while locked)
+ */
+export function getStoredProviderConfig(providerId: string): ProviderConfigValues {
+  return session?.contents[providerId] ?? {};
+}
+
+/**
+ * Save a provider's settings (the vault must be unlocked)
+ * Empty values are dropped so the env var or default applies again.
+ */
+export async function saveStoredProviderConfig(providerId: string, values: ProviderConfigValues): Promise<void> {
+  if (!session) {
+    throw new ConfigVaultError('Unlock the saved settings first.');
+  }
+
+  const kept = Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== '')
+  );
+
+  session = {
+    ...session,
+    contents: { ...session.contents, [providerId]: kept },
+  };
+  await persist(session);
+
+  log.info('Settings saved', { providerId, fields: Object.keys(kept) });
+}
+
+/**
+ * Delete every saved setting (e.g. after a forgotten passphrase)
+ */
+export function clearStoredProviderConfig(): void {
+  localStorage.removeItem(PROVIDER_CONFIG_STORAGE_KEY);
+  session = null;
+  log.info('Saved settings deleted');
+}
@@ -1,9 +1,12 @@
-// API Configuration
-export const API_BASE_URL = 'https://api.rentcast.io/v1';
-export const API_KEY = import.meta.env.VITE_RENTCAST_API_KEY || '';
-
 // localStorage keys
+export const PROVIDER_STORAGE_KEY = 'housing-data-provider';
 export const WATCHLIST_STORAGE_KEY = 'housing-watchlist';
+export const FEATURED_MARKETS_STORAGE_KEY = 'housing-featured-markets';
+export const COLUMN_MAPPING_PRESETS_STORAGE_KEY = 'housing-csv-mapping-presets';
+export const RATE_LIMIT_LEDGER_STORAGE_KEY = 'housing-rate-limit-ledger';
+export const SYNTHETIC_DATA_STORAGE_KEY = 'housing-allow-synthetic-data';
+export const PROVIDER_CONFIG_STORAGE_KEY = 'housing-provider-config';
+export const LOG_SETTINGS_STORAGE_KEY = 'housing-log-settings';
 
 // Time ranges
 export const TIME_RANGES = ['1M', '6M', '1Y', '5Y', 'MAX'] as const;
@@ -0,0 +1,216 @@
+/**
+ * CSV Column Mapping
+ *
+ * Describes how the columns of an arbitrary CSV file map onto MarketStats
+ * fields, so files from Redfin, Realtor.com, assessors or spreadsheets can be
+ * imported without renaming headers first.
+ */
+
+import type { MarketStats } from '../services/providers/types';
+import { isBlankRecord, tokenizeCSV } from './csvTokenizer';
+
+type SaleDataField = keyof NonNullable<MarketStats['saleData']>;
+
+/**
+ * Target field for a column - top-level or nested with a dot
+ */
+export type MarketFieldPath =
+  | 'id'
+  | 'city'
+  | 'state'
+  | 'zipCode'
+  | 'sizeRank'
+  | 'percentChange'
+  | `saleData.${SaleDataField}`
+  | `rentalData.${string}`;
+
+export interface MarketFieldOption {
+  path: MarketFieldPath;
+  label: string;
+  group: 'Market' | 'Sale data' | 'Rental data';
+  numeric: boolean;
+}
+
+/**
+ * Column mapping keyed by normalized header name (trimmed, lowercase)
+ * Columns without an entry are ignored.
+ */
+export type CSVColumnMapping = Record<string, MarketFieldPath>;
+
+/**
+ * A saved mapping, auto-applied to files with the same headers
+ */
+export interface ColumnMappingPreset {
+  name: string;
+  headers: string[];      // Normalized headers of the file the preset was saved from
+  mapping: CSVColumnMapping;
+  updatedAt: string;
+}
+
+/**
+ * Fields offered in the mapping wizard
+ */
+export const MARKET_FIELD_OPTIONS: MarketFieldOption[] = [
+  { path: 'city', label: 'City', group: 'Market', numeric: false },
+  { path: 'state', label: 'State', group: 'Market', numeric: false },
+  { path: 'zipCode', label: 'ZIP code', group: 'Market', numeric: false },
+  { path: 'id', label: 'Market ID', group: 'Market', numeric: false },
+  { path: 'sizeRank', label: 'Size rank', group: 'Market', numeric: true },
+  { path: 'percentChange', label: 'Percent change', group: 'Market', numeric: true },
+
+  { path: 'saleData.lastUpdatedDate', label: 'Last updated date', group: 'Sale data', numeric: false },
+  { path: 'saleData.medianPrice', label: 'Median price', group: 'Sale data', numeric: true },
+  { path: 'saleData.averagePrice', label: 'Average price', group: 'Sale data', numeric: true },
+  { path: 'saleData.minPrice', label: 'Min price', group: 'Sale data', numeric: true },
+  { path: 'saleData.maxPrice', label: 'Max price', group: 'Sale data', numeric: true },
+  { path: 'saleData.medianPricePerSquareFoot', label: 'Median price / sq ft', group: 'Sale data', numeric: true },
+  { path: 'saleData.averagePricePerSquareFoot', label: 'Average price / sq ft', group: 'Sale data', numeric: true },
+  { path: 'saleData.medianSquareFootage', label: 'Median sq ft', group: 'Sale data', numeric: true },
+  { path: 'saleData.averageSquareFootage', label: 'Average sq ft', group: 'Sale data', numeric: true },
+  { path: 'saleData.medianDaysOnMarket', label: 'Median days on market', group: 'Sale data', numeric: true },
+  { path: 'saleData.averageDaysOnMarket', label: 'Average days on market', group: 'Sale data', numeric: true },
+
+  { path: 'rentalData.lastUpdatedDate', label: 'Last updated date', group: 'Rental data', numeric: false },
+  { path: 'rentalData.medianRent', label: 'Median rent', group: 'Rental data', numeric: true },
+  { path: 'rentalData.averageRent', label: 'Average rent', group: 'Rental data', numeric: true },
+  { path: 'rentalData.minRent', label: 'Min rent', group: 'Rental data', numeric: true },
+  { path: 'rentalData.maxRent', label: 'Max rent', group: 'Rental data', numeric: true },
+  { path: 'rentalData.medianRentPerSquareFoot', label: 'Median rent / sq ft', group: 'Rental data', numeric: true },
+  { path: 'rentalData.averageRentPerSquareFoot', label: 'Average rent / sq ft', group: 'Rental data', numeric: true },
+  { path: 'rentalData.medianDaysOnMarket', label: 'Median days on market', group: 'Rental data', numeric: true },
+  { path: 'rentalData.totalListings', label: 'Total listings', group: 'Rental data', numeric: true },
+];
+
+/**
+ * Header aliases understood by the simple CSV format, used to pre-fill the wizard
+ */
+const FIELD_ALIASES: Partial<Record<MarketFieldPath, string[]>> = {
+  city: ['city', 'region', 'regionname', 'region_name'],
+  state: ['state', 'state_code', 'statecode'],
+  zipCode: ['zipcode', 'zip_code', 'zip', 'postal_code'],
+  sizeRank: ['sizerank', 'size_rank'],
+  percentChange: ['percentchange', 'percent_change', 'change'],
+  'saleData.lastUpdatedDate': ['lastupdateddate', 'last_updated', 'date'],
+  'saleData.medianPrice': ['medianprice', 'median_price', 'median_sale_price'],
+  'saleData.averagePrice': ['averageprice', 'average_price'],
+  'saleData.minPrice': ['minprice', 'min_price'],
+  'saleData.maxPrice': ['maxprice', 'max_price'],
+  'saleData.averagePricePerSquareFoot': ['averagepricepersquarefoot', 'average_price_per_sqft', 'price_per_sqft'],
+  'saleData.medianPricePerSquareFoot': ['medianpricepersquarefoot', 'median_price_per_sqft'],
+  'saleData.averageSquareFootage': ['averagesquarefootage', 'average_sqft', 'sqft'],
+  'saleData.medianSquareFootage': ['mediansquarefootage', 'median_sqft'],
+  'saleData.averageDaysOnMarket': ['averagedaysonmarket', 'average_dom', 'dom'],
+  'saleData.medianDaysOnMarket': ['mediandaysonmarket', 'median_dom'],
+  'rentalData.medianRent': ['medianrent', 'median_rent'],
+  'rentalData.averageRent': ['averagerent', 'average_rent', 'rent'],
+};
+
+/**
+ * Look up a field option by path
+ */
+export function getFieldOption(path: MarketFieldPath): MarketFieldOption | undefined {
+  return MARKET_FIELD_OPTIONS.find(option => option.path === path);
+}
+
+/**
+ * Suggest a mapping from known header aliases
+ * Each field is assigned to at most one column.
+ */
+export function suggestColumnMapping(headers: string[]): CSVColumnMapping {
+  const mapping: CSVColumnMapping = {};
+  const assigned = new Set<MarketFieldPath>();
+
+  headers.forEach(header => {
+    const entry = Object.entries(FIELD_ALIASES).find(
+      ([path, aliases]) => !assigned.has(path as MarketFieldPath) && aliases?.includes(header)
+    );
+
+    if (entry) {
+      const path = entry[0] as MarketFieldPath;
+      mapping[header] = path;
+      assigned.add(path);
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Get the required fields a mapping does not assign
+ */
+export function getMissingRequiredFields(mapping: CSVColumnMapping): MarketFieldPath[] {
+  const mapped = new Set(Object.values(mapping));
+  return (['city', 'state'] as MarketFieldPath[]).filter(path => !mapped.has(path));
+}
+
+/**
+ * Check whether a preset was saved from a file with the same headers (in any order)
+ */
+export function presetMatchesHeaders(preset: ColumnMappingPreset, headers: string[]): boolean {
+  if (preset.headers.length !== headers.length) {
+    return false;
+  }
+
+  const presetHeaders = [...preset.headers].sort();
+  return [...headers].sort().every((header, index) => header === presetHeaders[index]);
+}
+
+/**
+ * Apply a mapping to a record of values, building a partial MarketStats
+ * Numeric fields are parsed by `parseNumeric`, which decides how bad values are reported.
+ */
+export function applyColumnMapping(
+  headers: string[],
+  values: string[],
+  mapping: CSVColumnMapping,
+  parseNumeric: (value: string, column: string) => number | undefined
+): MarketStats {
+  const market: MarketStats = {};
+
+  headers.forEach((header, index) => {
+    const path = mapping[header];
+    const value = values[index]?.trim();
+    if (!path || !value) return;
+
+    const fieldValue = getFieldOption(path)?.numeric ? parseNumeric(value, header) : value;
+    if (fieldValue === undefined) return;
+
+    const [group, field] = path.split('.');
+
+    if (group === 'saleData' || group === 'rentalData') {
+      const nested: Record<string, unknown> = market[group] ?? {};
+      nested[field] = fieldValue;
+      market[group] = nested;
+    } else {
+      (market as Record<string, unknown>)[group] = fieldValue;
+    }
+  });
+
+  return market;
+}
+
+/**
+ * Read the header and first rows of a file for the mapping preview
+ */
+export async function readCSVPreview(
+  file: File,
+  maxRows: number = 5
+): Promise<{ headers: string[]; rawHeaders: string[]; rows: string[][] }> {
+  // The first 64KB is plenty for a header and a few rows
+  const text = await file.slice(0, 64 * 1024).text();
+  const records = tokenizeCSV(text).filter(record => !isBlankRecord(record));
+
+  if (records.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  // Drop the last record when the slice may have cut it short
+  const complete = file.size > 64 * 1024 ? records.slice(0, -1) : records;
+  const [rawHeaders, ...rows] = complete.length > 0 ? complete : records;
+
+  return {
+    headers: rawHeaders.map(h => h.trim().toLowerCase()),
+    rawHeaders: rawHeaders.map(h => h.trim()),
+    rows: rows.slice(0, maxRows),
+  };
+}
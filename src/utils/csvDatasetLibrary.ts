@@ -0,0 +1,243 @@
+/**
+ * CSV Dataset Library
+ *
+ * Persists every imported CSV as its own dataset in IndexedDB, plus "merged"
+ * datasets that combine several imports. Markets of a file dataset are stored
+ * in chunks (written while the file is parsed); the library record holds the
+ * metadata and which dataset is active.
+ */
+
+import type { MarketStats } from '../services/providers/types';
+import { IndexedDBCache } from './indexedDBCache';
+import type { CSVFormat } from './csvParser';
+import { createLogger } from './logger';
+
+const log = createLogger('CSV Datasets');
+
+const CSV_DATASET_LIBRARY_KEY = 'csv-dataset-library';
+
+// Layout used before the library existed: a single dataset, either a chunk
+// manifest or (older still) a plain MarketStats[]
+const LEGACY_MARKETS_STORAGE_KEY = 'csv-parsed-markets';
+const LEGACY_FILENAME_STORAGE_KEY = 'csv-file-name';
+const LEGACY_DATA_SOURCE_KEY = 'csv-data-source';
+
+/**
+ * Prefix for market chunk keys; a dataset's chunks share `${prefix}:${timestamp}`
+ */
+export const CSV_CHUNK_KEY_PREFIX = LEGACY_MARKETS_STORAGE_KEY;
+
+export interface CSVDatasetInfo {
+  id: string;
+  name: string;               // Filename, or the name given to a merge
+  kind: 'file' | 'merged';
+  dataSource: 'default' | 'user-upload';
+  createdAt: string;
+  format: CSVFormat | null;   // null for merged and migrated datasets
+  rowCount: number;
+  marketCount: number;
+  dateRange: { start: string; end: string } | null;
+  chunkKeys: string[];        // File datasets only
+  sourceIds: string[];        // Merged datasets only, highest priority first
+}
+
+export interface CSVDatasetLibrary {
+  datasets: CSVDatasetInfo[];
+  activeId: string | null;
+}
+
+/**
+ * Create a unique dataset ID
+ */
+export const createDatasetId = (): string =>
+  `dataset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Save the library record
+ */
+export async function saveDatasetLibrary(library: CSVDatasetLibrary): Promise<void> {
+  await IndexedDBCache.set(CSV_DATASET_LIBRARY_KEY, library, Infinity);
+}
+
+/**
+ * Load the library, migrating a pre-library single dataset if present
+ * Also drops expired records, such as chunks of imports never committed.
+ */
+export async function loadDatasetLibrary(): Promise<CSVDatasetLibrary> {
+  await IndexedDBCache.clearExpired();
+
+  const library = await IndexedDBCache.get<CSVDatasetLibrary>(CSV_DATASET_LIBRARY_KEY);
+  if (library) {
+    return library;
+  }
+
+  const migrated = await migrateLegacyDataset();
+  if (migrated) {
+    await saveDatasetLibrary(migrated);
+    return migrated;
+  }
+
+  return { datasets: [], activeId: null };
+}
+
+/**
+ * Move the single stored dataset of older versions into a library
+ */
+async function migrateLegacyDataset(): Promise<CSVDatasetLibrary | null> {
+  const stored = await IndexedDBCache.get<MarketStats[] | { chunkKeys: string[] }>(LEGACY_MARKETS_STORAGE_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  let chunkKeys: string[];
+  if (Array.isArray(stored)) {
+    chunkKeys = [`${CSV_CHUNK_KEY_PREFIX}:${Date.now()}:0`];
+    await IndexedDBCache.set(chunkKeys[0], stored, Infinity);
+  } else {
+    chunkKeys = stored.chunkKeys;
+  }
+
+  const dataset: CSVDatasetInfo = {
+    id: createDatasetId(),
+    name: localStorage.getItem(LEGACY_FILENAME_STORAGE_KEY) || 'unknown.csv',
+    kind: 'file',
+    dataSource: localStorage.getItem(LEGACY_DATA_SOURCE_KEY) === 'default' ? 'default' : 'user-upload',
+    createdAt: new Date().toISOString(),
+    format: null,
+    rowCount: 0,
+    marketCount: 0,
+    dateRange: null,
+    chunkKeys,
+    sourceIds: [],
+  };
+
+  // Fill in counts from the stored markets
+  const markets = await readDatasetMarkets(dataset, [dataset]);
+  if (!markets) {
+    return null;
+  }
+  dataset.rowCount = markets.length;
+  dataset.marketCount = markets.length;
+  dataset.dateRange = getDateRange(markets);
+
+  await IndexedDBCache.remove(LEGACY_MARKETS_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_FILENAME_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_DATA_SOURCE_KEY);
+
+  log.info('Migrated stored dataset into library', { name: dataset.name, markets: dataset.marketCount });
+
+  return { datasets: [dataset], activeId: dataset.id };
+}
+
+/**
+ * Read the markets of a dataset (merging sources for merged datasets)
+ * Returns null when stored chunks are missing.
+ */
+export async function readDatasetMarkets(
+  dataset: CSVDatasetInfo,
+  datasets: CSVDatasetInfo[]
+): Promise<MarketStats[] | null> {
+  if (dataset.kind === 'merged') {
+    const sources: MarketStats[][] = [];
+    for (const sourceId of dataset.sourceIds) {
+      const source = datasets.find(d => d.id === sourceId);
+      const markets = source ? await readDatasetMarkets(source, datasets) : null;
+      if (!markets) {
+        return null;
+      }
+      sources.push(markets);
+    }
+    return mergeMarketLists(sources);
+  }
+
+  const markets: MarketStats[] = [];
+  for (const chunkKey of dataset.chunkKeys) {
+    const chunk = await IndexedDBCache.get<MarketStats[]>(chunkKey);
+    if (!chunk) {
+      log.warn('Stored dataset is incomplete', { dataset: dataset.name, missing: chunkKey });
+      return null;
+    }
+    markets.push(...chunk);
+  }
+
+  return markets;
+}
+
+/**
+ * Remove the stored chunks of a dataset
+ */
+export async function removeDatasetChunks(dataset: CSVDatasetInfo): Promise<void> {
+  await Promise.all(dataset.chunkKeys.map(key => IndexedDBCache.remove(key)));
+}
+
+/**
+ * Copy fields the primary market lacks from a secondary one (one level deep)
+ */
+function fillMissingFields(primary: MarketStats, secondary: MarketStats): MarketStats {
+  const merged: Record<string, unknown> = { ...primary };
+
+  Object.entries(secondary).forEach(([key, value]) => {
+    const current = merged[key];
+
+    if (current === undefined || (Array.isArray(current) && current.length === 0)) {
+      merged[key] = value;
+    } else if (
+      current && value && typeof current === 'object' && typeof value === 'object' &&
+      !Array.isArray(current)
+    ) {
+      const nested: Record<string, unknown> = { ...(current as Record<string, unknown>) };
+      Object.entries(value as Record<string, unknown>).forEach(([nestedKey, nestedValue]) => {
+        if (nested[nestedKey] === undefined) {
+          nested[nestedKey] = nestedValue;
+        }
+      });
+      merged[key] = nested;
+    }
+  });
+
+  return merged as MarketStats;
+}
+
+/**
+ * Merge market lists by market ID
+ * Earlier lists take priority; later lists add markets and fill missing fields.
+ */
+export function mergeMarketLists(lists: MarketStats[][]): MarketStats[] {
+  const merged = new Map<string, MarketStats>();
+
+  lists.forEach(markets => {
+    markets.forEach(market => {
+      const id = market.id || `${market.city}-${market.state}`;
+      const existing = merged.get(id);
+      merged.set(id, existing ? fillMissingFields(existing, market) : market);
+    });
+  });
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Earliest and latest dates covered by a set of markets
+ */
+export function getDateRange(markets: MarketStats[]): { start: string; end: string } | null {
+  let start: string | undefined;
+  let end: string | undefined;
+
+  const include = (value: string | undefined) => {
+    if (!value) return;
+    const date = value.slice(0, 10);
+    if (!start || date < start) start = date;
+    if (!end || date > end) end = date;
+  };
+
+  markets.forEach(market => {
+    const history = market.historicalPrices;
+    if (history && history.length > 0) {
+      include(history[0].date);
+      include(history[history.length - 1].date);
+    }
+    include(market.saleData?.lastUpdatedDate);
+  });
+
+  return start && end ? { start, end } : null;
+}
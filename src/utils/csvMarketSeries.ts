@@ -0,0 +1,127 @@
+/**
+ * CSV Market Series Builder
+ *
+ * Long-format files have one row per market per period: simple files with a
+ * date column alongside city and state, Redfin and Realtor.com exports, and
+ * column-mapped files with a mapped date. Each parsed row is an observation;
+ * once every row has been read the observations are grouped by market (its ID,
+ * or city and state) into a single MarketStats with historicalPrices built
+ * from the series.
+ */
+
+import type { MarketStats } from '../services/providers/types';
+import type { CSVIssueReporter } from './csvValidation';
+
+export interface MarketSeriesBuilder {
+  /**
+   * Add one period observation; `saleData.lastUpdatedDate` holds the period date
+   * A repeated date for the same market replaces the earlier row.
+   */
+  add(observation: MarketStats, reportIssue: CSVIssueReporter): void;
+  /** Merge observations into one market per ID, latest period first in priority */
+  build(): MarketStats[];
+  readonly marketCount: number;
+}
+
+// Months used for min/max price, matching the ZHVI parser
+const RECENT_PERIODS = 12;
+
+const getObservationPrice = (observation: MarketStats): number | undefined =>
+  observation.saleData?.medianPrice ?? observation.saleData?.averagePrice;
+
+/**
+ * Merge the observations of one market, sorted oldest to newest
+ */
+function mergeSeries(observations: MarketStats[]): MarketStats {
+  const latest = observations[observations.length - 1];
+
+  const historicalPrices: Array<{ date: string; price: number }> = [];
+  observations.forEach(observation => {
+    const price = getObservationPrice(observation);
+    const date = observation.saleData?.lastUpdatedDate;
+    if (price !== undefined && price > 0 && date) {
+      historicalPrices.push({ date, price: Math.round(price) });
+    }
+  });
+
+  // Period-over-period change from the last two priced periods
+  let percentChange = latest.percentChange;
+  if (percentChange === undefined && historicalPrices.length >= 2) {
+    const current = historicalPrices[historicalPrices.length - 1].price;
+    const previous = historicalPrices[historicalPrices.length - 2].price;
+    percentChange = previous > 0 ? ((current - previous) / previous) * 100 : undefined;
+  }
+
+  const recentPrices = historicalPrices.slice(-RECENT_PERIODS).map(point => point.price);
+
+  return {
+    ...latest,
+    percentChange,
+    saleData: {
+      ...latest.saleData,
+      minPrice: latest.saleData?.minPrice ?? (recentPrices.length > 0 ? Math.min(...recentPrices) : undefined),
+      maxPrice: latest.saleData?.maxPrice ?? (recentPrices.length > 0 ? Math.max(...recentPrices) : undefined),
+    },
+    historicalPrices,
+  };
+}
+
+interface MarketSeriesOptions {
+  /** Warn when a market's rows are not in ascending date order */
+  expectSorted?: boolean;
+}
+
+export function createMarketSeriesBuilder(options: MarketSeriesOptions = {}): MarketSeriesBuilder {
+  // Observations per market, keyed by period date
+  const series = new Map<string, Map<string, MarketStats>>();
+  const lastDates = new Map<string, string>();
+
+  return {
+    add(observation: MarketStats, reportIssue: CSVIssueReporter): void {
+      const id = observation.id || `${observation.city}-${observation.state}`;
+      const date = observation.saleData?.lastUpdatedDate || '';
+      let observations = series.get(id);
+
+      if (!observations) {
+        observations = new Map();
+        series.set(id, observations);
+      }
+
+      if (observations.has(date)) {
+        reportIssue({
+          severity: 'warning',
+          value: date,
+          message: `Duplicate date for ${observation.city}, ${observation.state} - replaces the earlier row`,
+        });
+      } else if (options.expectSorted && date < (lastDates.get(id) || '')) {
+        reportIssue({
+          severity: 'warning',
+          value: date,
+          message: `Date is earlier than the previous row for ${observation.city}, ${observation.state}`,
+        });
+      }
+
+      observations.set(date, observation);
+      if (date > (lastDates.get(id) || '')) {
+        lastDates.set(id, date);
+      }
+    },
+
+    build(): MarketStats[] {
+      const markets: MarketStats[] = [];
+
+      series.forEach(observations => {
+        const sorted = Array.from(observations.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([, observation]) => observation);
+        markets.push(mergeSeries(sorted));
+      });
+
+      return markets;
+    },
+
+    get marketCount() {
+      return series.size;
+    },
+  };
+}
@@ -0,0 +1,176 @@
+import { readFileSync } from 'node:fs';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { createStreamingCSVParser, parseCSV, validateCSVContent } from './csvParser';
+import { setLogSettings } from './logger';
+
+/**
+ * Read a fixture file byte for byte (BOMs and line endings included)
+ */
+const readFixture = (name: string): string =>
+  readFileSync(new URL(`./__fixtures__/csv/${name}`, import.meta.url), 'utf-8');
+
+/**
+ * Parse a fixture and return its validation report next to the markets
+ */
+const parseWithReport = (name: string) => {
+  const parser = createStreamingCSVParser();
+  const markets = [...parser.push(readFixture(name)), ...parser.finish()];
+  return { markets, report: parser.report };
+};
+
+beforeAll(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+  setLogSettings({ level: 'silent', channels: {} });
+});
+
+describe('CSV fixtures', () => {
+  describe('bom-header.csv (Excel UTF-8 export with BOM and CRLF)', () => {
+    it('passes validation', () => {
+      expect(validateCSVContent(readFixture('bom-header.csv'))).toEqual({ valid: true });
+    });
+
+    it('reads the first header despite the BOM', () => {
+      const markets = parseCSV(readFixture('bom-header.csv'));
+
+      expect(markets.map(m => m.city)).toEqual(['Austin', 'Denver']);
+      expect(markets[0]).toMatchObject({ state: 'TX', zipCode: '78701', percentChange: 3.2 });
+      expect(markets[1].saleData?.medianPrice).toBe(610000);
+    });
+  });
+
+  describe('escaped-quotes.csv', () => {
+    it('passes validation', () => {
+      expect(validateCSVContent(readFixture('escaped-quotes.csv'))).toEqual({ valid: true });
+    });
+
+    it('unescapes "" and keeps quoted commas in one field', () => {
+      const { markets, report } = parseWithReport('escaped-quotes.csv');
+
+      expect(markets.map(m => m.city)).toEqual(['Austin', "Coeur d'Alene", 'Denver']);
+      expect(markets[1].saleData?.medianPrice).toBe(489000);
+      expect(report.rejectedRows).toBe(0);
+    });
+  });
+
+  describe('quoted-newlines.csv', () => {
+    it('passes validation', () => {
+      expect(validateCSVContent(readFixture('quoted-newlines.csv'))).toEqual({ valid: true });
+    });
+
+    it('keeps line breaks inside quoted fields in the same row', () => {
+      const { markets, report } = parseWithReport('quoted-newlines.csv');
+
+      expect(markets.map(m => m.city)).toEqual(['Austin', 'Salt Lake\nCity', 'Denver']);
+      expect(markets.map(m => m.zipCode)).toEqual(['78701', '84101', '80202']);
+      expect(report.totalRows).toBe(3);
+      expect(report.rejectedRows).toBe(0);
+    });
+  });
+
+  describe('tab-export.tsv', () => {
+    it('passes validation', () => {
+      expect(validateCSVContent(readFixture('tab-export.tsv'))).toEqual({ valid: true });
+    });
+
+    it('detects the tab delimiter', () => {
+      const { markets, report } = parseWithReport('tab-export.tsv');
+
+      expect(report.delimiter).toBe('\t');
+      expect(markets.map(m => m.city)).toEqual(['Austin', 'Portland, OR metro']);
+      expect(markets[0].saleData).toMatchObject({ medianPrice: 545000, averagePrice: 580000 });
+    });
+  });
+
+  describe('semicolon-export.csv', () => {
+    it('passes validation', () => {
+      expect(validateCSVContent(readFixture('semicolon-export.csv'))).toEqual({ valid: true });
+    });
+
+    it('detects the semicolon delimiter', () => {
+      const { markets, report } = parseWithReport('semicolon-export.csv');
+
+      expect(report.delimiter).toBe(';');
+      expect(markets.map(m => m.city)).toEqual(['Austin', 'Winston-Salem; Forsyth', 'Miami']);
+      expect(markets[1].saleData?.medianPrice).toBe(295000);
+    });
+  });
+
+  describe('ragged-rows.csv', () => {
+    it('passes validation (rows are checked while parsing)', () => {
+      expect(validateCSVContent(readFixture('ragged-rows.csv'))).toEqual({ valid: true });
+    });
+
+    it('rejects rows with missing or extra values and keeps the rest', () => {
+      const { markets, report } = parseWithReport('ragged-rows.csv');
+
+      expect(markets.map(m => m.city)).toEqual(['Austin', 'Miami', 'Boise']);
+      expect(report).toMatchObject({ totalRows: 5, acceptedRows: 3, rejectedRows: 2 });
+      expect(report.issues.map(({ row, severity, message }) => ({ row, severity, message }))).toEqual([
+        { row: 3, severity: 'error', message: 'Row has 3 values but expected 4' },
+        { row: 4, severity: 'error', message: 'Row has 6 values but expected 4' },
+      ]);
+      expect(report.rejectedRecords.map(r => r.values[0])).toEqual(['Denver', 'Seattle']);
+    });
+
+    it('parseCSV returns only the accepted rows', () => {
+      expect(parseCSV(readFixture('ragged-rows.csv'))).toHaveLength(3);
+    });
+  });
+
+  describe('unterminated-quote.csv', () => {
+    it('passes validation', () => {
+      expect(validateCSVContent(readFixture('unterminated-quote.csv'))).toEqual({ valid: true });
+    });
+
+    it('rejects the row where the quote opens, which swallows the rest of the file', () => {
+      const { markets, report } = parseWithReport('unterminated-quote.csv');
+
+      expect(markets.map(m => m.city)).toEqual(['Austin']);
+      expect(report).toMatchObject({ totalRows: 2, acceptedRows: 1, rejectedRows: 1 });
+      expect(report.issues[0]).toMatchObject({ row: 3, severity: 'error' });
+    });
+  });
+
+  describe('unterminated-quote-header.csv', () => {
+    it('fails validation: the header swallows every row', () => {
+      expect(validateCSVContent(readFixture('unterminated-quote-header.csv'))).toEqual({
+        valid: false,
+        error: 'CSV must contain at least a header row and one data row',
+      });
+    });
+
+    it('parseCSV throws on the header that lost its columns', () => {
+      expect(() => parseCSV(readFixture('unterminated-quote-header.csv')))
+        .toThrow('CSV missing required headers: state');
+    });
+  });
+});
+
+describe('Zillow ZHVI rows', () => {
+  it('interpolates blank months between reported ones', () => {
+    const [market] = parseCSV([
+      'RegionID,SizeRank,RegionName,RegionType,StateName,State,2025-01-31,2025-02-28,2025-03-31,2025-04-30',
+      '394355,1,Austin,msa,TX,TX,,400000,,420000',
+    ].join('\n'));
+
+    expect(market.historicalPrices).toEqual([
+      { date: '2025-02-28', price: 400000 },
+      { date: '2025-03-31', price: 410000, interpolated: true },
+      { date: '2025-04-30', price: 420000 },
+    ]);
+    expect(market.saleData?.medianPrice).toBe(420000);
+  });
+});
+
+describe('validateCSVContent', () => {
+  it('rejects empty content', () => {
+    expect(validateCSVContent('\uFEFF \r\n')).toEqual({ valid: false, error: 'CSV file is empty' });
+  });
+
+  it('reports missing market columns', () => {
+    expect(validateCSVContent('zip;price\n78701;545000\n')).toEqual({
+      valid: false,
+      error: 'Missing required columns: city, state',
+    });
+  });
+});
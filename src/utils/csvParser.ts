@@ -5,14 +5,64 @@
  * Expected CSV format:
  * - Headers: city, state, zipCode, medianPrice, averagePrice, percentChange, lastUpdatedDate
  * - Optional fields: minPrice, maxPrice, averagePricePerSquareFoot, etc.
+ *
+ * Simple files with a date, period or month column are read as long-format time
+ * series (one row per market per date) and grouped into price histories.
+ *
+ * Also detects Zillow ZHVI (wide time series), Redfin Data Center market tracker
+ * and Realtor.com inventory core metrics (one row per market per period) files.
+ *
+ * Tokenizing (quoting, line endings, BOM, delimiter detection) is handled by csvTokenizer.
  */
 
 import type { MarketStats } from '../services/providers/types';
+import { createCSVTokenizer, isBlankRecord, tokenizeCSV, type CSVDelimiter } from './csvTokenizer';
+import {
+  addValidationIssue,
+  createValidationReport,
+  type CSVIssueReporter,
+  type CSVValidationReport,
+} from './csvValidation';
+import {
+  applyColumnMapping,
+  getMissingRequiredFields,
+  type CSVColumnMapping,
+} from './csvColumnMapping';
+import { createMarketSeriesBuilder, type MarketSeriesBuilder } from './csvMarketSeries';
+import { fillSeriesGaps } from './seriesGaps';
+import { createLogger } from './logger';
+
+const log = createLogger('CSV Parser');
+
+/**
+ * Detected CSV layout
+ */
+export type CSVFormat = 'simple' | 'time-series' | 'zillow-zhvi' | 'redfin' | 'realtor' | 'mapped';
+
+/**
+ * Display names for each format
+ */
+export const CSV_FORMAT_LABELS: Record<CSVFormat, string> = {
+  simple: 'Simple',
+  'time-series': 'Long-format time series',
+  'zillow-zhvi': 'Zillow ZHVI',
+  redfin: 'Redfin market tracker',
+  realtor: 'Realtor.com inventory',
+  mapped: 'Custom mapped',
+};
+
+/**
+ * Options for the streaming parser
+ */
+export interface CSVParserOptions {
+  /** User-defined column mapping; bypasses format detection when set */
+  columnMapping?: CSVColumnMapping;
+}
 
 /**
  * Detect CSV format type
  */
-function detectCSVFormat(headers: string[]): 'simple' | 'zillow-zhvi' {
+export function detectCSVFormat(headers: string[]): CSVFormat {
   // Check for Zillow ZHVI format
   // Zillow format has: RegionID, SizeRank, RegionName, RegionType, StateName, State, Metro, CountyName, [dates...]
   const hasRegionID = headers.includes('regionid');
@@ -27,18 +77,61 @@ function detectCSVFormat(headers: string[]): 'simple' | 'zillow-zhvi' {
     return 'zillow-zhvi';
   }
 
+  if (REDFIN_HEADERS.every(h => headers.includes(h))) {
+    return 'redfin';
+  }
+
+  if (REALTOR_HEADERS.every(h => headers.includes(h))) {
+    return 'realtor';
+  }
+
+  // Long-format files are parsed like simple ones, so they need the same market columns;
+  // other files with a date column go through column mapping
+  if (headers.some(h => PERIOD_HEADERS.includes(h)) && SIMPLE_REQUIRED_HEADERS.every(h => headers.includes(h))) {
+    return 'time-series';
+  }
+
   return 'simple';
 }
 
+// Market columns of the simple format
+const SIMPLE_REQUIRED_HEADERS = ['city', 'state'];
+
+// Period column of a long-format simple file
+const PERIOD_HEADERS = ['date', 'period', 'month'];
+
+// Redfin Data Center market tracker (tab-separated)
+const REDFIN_HEADERS = ['period_begin', 'region', 'median_sale_price'];
+
+// Realtor.com inventory core metrics
+const REALTOR_HEADERS = ['month_date_yyyymm', 'median_listing_price'];
+
 /**
- * Parse Zillow ZHVI time-series CSV format
- * Format: RegionID, SizeRank, RegionName, RegionType, StateName, State, Metro, CountyName, [dates...]
+ * Result of parsing one row
+ * null rejects the row (after reporting at least one error);
+ * 'skipped' leaves out a valid row the import does not use.
  */
-function parseZillowZHVI(lines: string[], headers: string[]): MarketStats[] {
-  const markets: MarketStats[] = [];
+export type CSVRowResult = MarketStats | null | 'skipped';
+
+/**
+ * Parses individual data rows once the header row is known
+ */
+export interface CSVRowParser {
+  format: CSVFormat;
+  headers: string[];
+  parseRow(values: string[], reportIssue: CSVIssueReporter): CSVRowResult;
+  /** Rows are period observations, merged per market after the last row */
+  groupByMarket?: boolean;
+}
 
+/**
+ * Create a row parser for Zillow ZHVI time-series CSV format
+ * Format: RegionID, SizeRank, RegionName, RegionType, StateName, State, Metro, CountyName, [dates...]
+ */
+function createZillowZHVIRowParser(headers: string[]): CSVRowParser {
   // Find column indices
   const regionIDIdx = headers.indexOf('regionid');
+  const sizeRankIdx = headers.indexOf('sizerank');
   const regionNameIdx = headers.indexOf('regionname');
   const stateIdx = headers.indexOf('state');
 
@@ -55,316 +148,697 @@ function parseZillowZHVI(lines: string[], headers: string[]): MarketStats[] {
   // Sort date columns by date (most recent last)
   dateColumns.sort((a, b) => a.date.localeCompare(b.date));
 
-  console.log(
-    '%c[CSV Parser] Zillow ZHVI format detected',
-    'color: #8B5CF6',
+  log.info(
+    'Zillow ZHVI format detected',
     {
       dateColumns: dateColumns.length,
       dateRange: `${dateColumns[0]?.date} to ${dateColumns[dateColumns.length - 1]?.date}`,
-      totalRows: lines.length - 1,
     }
   );
 
-  // Parse only first 20 rows for performance (plus header)
-  const MAX_MARKETS = 20;
-  const rowsToProcess = Math.min(lines.length, MAX_MARKETS + 1); // +1 for header
-
-  console.log(
-    '%c[CSV Parser] Processing first 20 markets for performance',
-    'color: #8B5CF6'
-  );
-
-  // Parse each row
-  for (let i = 1; i < rowsToProcess; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const values = parseCSVLine(line);
+  const parseRow = (rawValues: string[], reportIssue: CSVIssueReporter): MarketStats | null => {
+    const values = rawValues.map(v => v.trim());
 
     if (values.length < headers.length) {
-      console.warn(
-        `%c[CSV Parser] Row ${i} has ${values.length} values but expected ${headers.length}`,
-        'color: #F59E0B'
-      );
-      continue;
+      reportIssue({
+        severity: 'error',
+        message: `Row has ${values.length} values but expected ${headers.length}`,
+      });
+      return null;
     }
 
-    try {
-      const regionID = values[regionIDIdx];
-      const city = values[regionNameIdx];
-      const state = values[stateIdx];
+    const regionID = values[regionIDIdx];
+    const sizeRank = sizeRankIdx >= 0
+      ? parseNumericValue(values[sizeRankIdx], 'sizerank', reportIssue)
+      : undefined;
+    const city = values[regionNameIdx];
+    const state = values[stateIdx];
+
+    if (!city || !state) {
+      reportIssue({
+        severity: 'error',
+        column: !city ? 'regionname' : 'state',
+        value: !city ? city : state,
+        message: 'Region name and state are required',
+      });
+      return null;
+    }
 
-      if (!city || !state) {
-        continue;
+    // Flag non-numeric cells (blank cells are normal in ZHVI files)
+    dateColumns.forEach(({ index, date }) => {
+      const value = values[index];
+      if (value && isNaN(parseFloat(value))) {
+        reportIssue({ severity: 'warning', column: date, value, message: 'Not a number - value ignored' });
       }
+    });
 
-      // Get the most recent non-empty ZHVI value and previous value for percent change
-      let currentValue: number | undefined;
-      let previousValue: number | undefined;
-      let lastUpdatedDate: string | undefined;
-
-      // Iterate from most recent to oldest
-      for (let j = dateColumns.length - 1; j >= 0; j--) {
-        const dateCol = dateColumns[j];
-        const value = values[dateCol.index];
-
-        if (value && value.trim() !== '') {
-          const numValue = parseFloat(value);
-
-          if (!isNaN(numValue)) {
-            if (currentValue === undefined) {
-              currentValue = numValue;
-              lastUpdatedDate = dateCol.date;
-            } else if (previousValue === undefined) {
-              previousValue = numValue;
-              break; // We have both values now
-            }
+    // Get the most recent non-empty ZHVI value and previous value for percent change
+    let currentValue: number | undefined;
+    let previousValue: number | undefined;
+    let lastUpdatedDate: string | undefined;
+
+    // Iterate from most recent to oldest
+    for (let j = dateColumns.length - 1; j >= 0; j--) {
+      const dateCol = dateColumns[j];
+      const value = values[dateCol.index];
+
+      if (value && value.trim() !== '') {
+        const numValue = parseFloat(value);
+
+        if (!isNaN(numValue)) {
+          if (currentValue === undefined) {
+            currentValue = numValue;
+            lastUpdatedDate = dateCol.date;
+          } else if (previousValue === undefined) {
+            previousValue = numValue;
+            break; // We have both values now
           }
         }
       }
+    }
 
-      if (currentValue === undefined) {
-        console.warn(
-          `%c[CSV Parser] No valid ZHVI data for ${city}, ${state}`,
-          'color: #F59E0B'
-        );
-        continue;
-      }
+    if (currentValue === undefined) {
+      reportIssue({ severity: 'error', message: `No valid ZHVI values for ${city}, ${state}` });
+      return null;
+    }
 
-      // Calculate percent change
-      let percentChange = 0;
-      if (previousValue !== undefined && previousValue > 0) {
-        percentChange = ((currentValue - previousValue) / previousValue) * 100;
-      }
+    // Calculate percent change
+    let percentChange = 0;
+    if (previousValue !== undefined && previousValue > 0) {
+      percentChange = ((currentValue - previousValue) / previousValue) * 100;
+    }
 
-      // Calculate statistics from time series (last 12 months if available)
-      const recentValues: number[] = [];
-      for (let j = dateColumns.length - 1; j >= Math.max(0, dateColumns.length - 12); j--) {
-        const value = parseFloat(values[dateColumns[j].index]);
-        if (!isNaN(value)) {
-          recentValues.push(value);
-        }
+    // Calculate statistics from time series (last 12 months if available)
+    const recentValues: number[] = [];
+    for (let j = dateColumns.length - 1; j >= Math.max(0, dateColumns.length - 12); j--) {
+      const value = parseFloat(values[dateColumns[j].index]);
+      if (!isNaN(value)) {
+        recentValues.push(value);
       }
+    }
 
-      const minPrice = recentValues.length > 0 ? Math.min(...recentValues) : currentValue;
-      const maxPrice = recentValues.length > 0 ? Math.max(...recentValues) : currentValue;
-      const avgPrice =
-        recentValues.length > 0
-          ? recentValues.reduce((sum, val) => sum + val, 0) / recentValues.length
-          : currentValue;
-
-      // Extract ALL historical prices for charts (supports 1M, 6M, 1Y, 5Y, MAX)
-      // The chart component will filter based on selected time range
-      const historicalPrices: Array<{ date: string; price: number }> = [];
-
-      for (let j = 0; j < dateColumns.length; j++) {
-        const dateCol = dateColumns[j];
-        const value = parseFloat(values[dateCol.index]);
-
-        if (!isNaN(value) && value > 0) {
-          historicalPrices.push({
-            date: dateCol.date,
-            price: Math.round(value),
-          });
-        }
+    const minPrice = recentValues.length > 0 ? Math.min(...recentValues) : currentValue;
+    const maxPrice = recentValues.length > 0 ? Math.max(...recentValues) : currentValue;
+    const avgPrice =
+      recentValues.length > 0
+        ? recentValues.reduce((sum, val) => sum + val, 0) / recentValues.length
+        : currentValue;
+
+    // Extract ALL historical prices for charts (supports 1M, 6M, 1Y, 5Y, MAX)
+    // The chart component will filter based on selected time range
+    // Blank months between reported ones are interpolated
+    const reportedPrices = new Map<string, number>();
+
+    for (let j = 0; j < dateColumns.length; j++) {
+      const dateCol = dateColumns[j];
+      const value = parseFloat(values[dateCol.index]);
+
+      if (!isNaN(value) && value > 0) {
+        reportedPrices.set(dateCol.date, Math.round(value));
       }
+    }
+
+    const historicalPrices = fillSeriesGaps(dateColumns.map(({ date }) => date), reportedPrices);
+
+    return {
+      id: regionID || `${city}-${state}`,
+      city,
+      state,
+      zipCode: undefined,
+      sizeRank,
+      saleData: {
+        lastUpdatedDate: lastUpdatedDate || new Date().toISOString(),
+        medianPrice: Math.round(currentValue),
+        averagePrice: Math.round(avgPrice),
+        minPrice: Math.round(minPrice),
+        maxPrice: Math.round(maxPrice),
+      },
+      percentChange,
+      historicalPrices,
+    };
+  };
 
-      console.log(
-        `%c[CSV Parser] Extracted ${historicalPrices.length} historical data points for ${city}`,
-        'color: #8B5CF6; font-size: 10px'
-      );
-
-      markets.push({
-        id: regionID || `${city}-${state}`,
-        city,
-        state,
-        zipCode: undefined,
-        saleData: {
-          lastUpdatedDate: lastUpdatedDate || new Date().toISOString(),
-          medianPrice: Math.round(currentValue),
-          averagePrice: Math.round(avgPrice),
-          minPrice: Math.round(minPrice),
-          maxPrice: Math.round(maxPrice),
-        },
-        percentChange,
-        historicalPrices,
+  return { format: 'zillow-zhvi', headers, parseRow };
+}
+
+/**
+ * Create a row parser for the simple one-row-per-market format
+ */
+function createSimpleRowParser(headers: string[]): CSVRowParser {
+  // Validate required headers for simple format
+  const missingHeaders = SIMPLE_REQUIRED_HEADERS.filter(h => !headers.includes(h));
+
+  if (missingHeaders.length > 0) {
+    throw new Error(`CSV missing required headers: ${missingHeaders.join(', ')}`);
+  }
+
+  const parseRow = (rawValues: string[], reportIssue: CSVIssueReporter): MarketStats | null => {
+    const row = toRowRecord(headers, rawValues, reportIssue);
+
+    // Transform to MarketStats
+    return row ? transformRowToMarketStats(row, reportIssue) : null;
+  };
+
+  return { format: 'simple', headers, parseRow };
+}
+
+/**
+ * Create a row parser for long-format simple files (one row per market per date)
+ * Rows are parsed like the simple format, then grouped by market.
+ */
+function createTimeSeriesRowParser(headers: string[]): CSVRowParser {
+  const simpleParser = createSimpleRowParser(headers);
+  const periodHeader = headers.find(h => PERIOD_HEADERS.includes(h))!;
+  const periodIdx = headers.indexOf(periodHeader);
+
+  const parseRow = (rawValues: string[], reportIssue: CSVIssueReporter): CSVRowResult => {
+    const rawDate = rawValues[periodIdx]?.trim() || '';
+    const date = normalizePeriodDate(rawDate);
+
+    if (!date) {
+      reportIssue({
+        severity: 'error',
+        column: periodHeader,
+        value: rawDate,
+        message: 'Expected a date (YYYY-MM-DD, YYYY-MM, YYYYMM or M/D/YYYY)',
       });
-    } catch (error) {
-      console.error(
-        `%c[CSV Parser] Failed to parse Zillow ZHVI row ${i}`,
-        'color: #EF4444',
-        error
-      );
+      return null;
     }
+
+    const market = simpleParser.parseRow(rawValues, reportIssue);
+    if (!market || market === 'skipped') return market;
+
+    return { ...market, saleData: { ...market.saleData, lastUpdatedDate: date } };
+  };
+
+  return { format: 'time-series', headers, parseRow, groupByMarket: true };
+}
+
+/**
+ * Normalize a period value to YYYY-MM-DD, or undefined if it is not a date
+ */
+function normalizePeriodDate(value: string): string | undefined {
+  let match = value.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?/);
+  if (match) {
+    return `${match[1]}-${match[2]}-${match[3] || '01'}`;
   }
 
-  console.log(
-    '%c[CSV Parser] ✓ Successfully parsed Zillow ZHVI data',
-    'color: #10B981; font-weight: bold',
-    { markets: markets.length }
-  );
+  match = value.match(/^(\d{4})(\d{2})$/);
+  if (match) {
+    return `${match[1]}-${match[2]}-01`;
+  }
 
-  return markets;
+  match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) {
+    return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+  }
+
+  return undefined;
 }
 
 /**
- * Parse CSV text content into MarketStats array
+ * Split a "City, ST" style region name
  */
-export function parseCSV(csvContent: string): MarketStats[] {
-  const lines = csvContent.trim().split('\n');
+function splitRegionName(name: string | undefined): { city?: string; state?: string } {
+  if (!name) return {};
 
-  if (lines.length < 2) {
-    throw new Error('CSV file must contain at least a header row and one data row');
+  const separator = name.lastIndexOf(',');
+  if (separator < 0) {
+    return { city: name.trim() };
   }
 
-  // Parse header
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
+  return {
+    city: name.slice(0, separator).trim(),
+    state: name.slice(separator + 1).trim().toUpperCase(),
+  };
+}
 
-  console.log(
-    '%c[CSV Parser] Parsing CSV file',
-    'color: #8B5CF6; font-weight: bold',
-    { rows: lines.length - 1, headers: headers.slice(0, 10) }
-  );
+/**
+ * Capitalize each word of a lowercase place name ("san jose" -> "San Jose")
+ */
+function toTitleCase(value: string): string {
+  return value.replace(/\b[a-z]/g, char => char.toUpperCase());
+}
 
-  // Detect format
-  const format = detectCSVFormat(headers);
+/**
+ * Create a row parser for Redfin Data Center market tracker files
+ * One row per region, property type and period; only the "All Residential",
+ * non-seasonally-adjusted series is imported.
+ */
+function createRedfinRowParser(headers: string[]): CSVRowParser {
+  const parseRow = (rawValues: string[], reportIssue: CSVIssueReporter): CSVRowResult => {
+    const row = toRowRecord(headers, rawValues, reportIssue);
+    if (!row) return null;
 
-  console.log(
-    '%c[CSV Parser] Detected format',
-    'color: #8B5CF6; font-weight: bold',
-    { format }
-  );
+    if (row.property_type && row.property_type !== 'All Residential') {
+      return 'skipped';
+    }
+    if (row.is_seasonally_adjusted?.toLowerCase() === 'true') {
+      return 'skipped';
+    }
 
-  if (format === 'zillow-zhvi') {
-    return parseZillowZHVI(lines, headers);
-  }
+    // Region is "Austin, TX", "Austin, TX metro area" or "Zip Code: 78701"
+    const zipMatch = row.region.match(/^zip code:\s*(\d{5})/i);
+    const zipCode = zipMatch?.[1];
+    const region = zipCode
+      ? splitRegionName(row.parent_metro_region?.replace(/ metro area$/i, ''))
+      : splitRegionName(row.region.replace(/ metro area$/i, ''));
+
+    const city = row.city || region.city;
+    const state = row.state_code || region.state;
+    const date = row.period_begin;
+
+    if (!city || !state || !date) {
+      reportIssue({
+        severity: 'error',
+        column: !date ? 'period_begin' : 'region',
+        value: !date ? '' : row.region,
+        message: 'Region, state and period are required',
+      });
+      return null;
+    }
 
-  // Validate required headers for simple format
-  const requiredHeaders = ['city', 'state'];
-  const missingHeaders = requiredHeaders.filter(h => !headers.includes(h));
+    const num = (column: string) => parseNumericValue(row[column], column, reportIssue);
+
+    return {
+      id: zipCode || `${city}-${state}`,
+      city,
+      state,
+      zipCode,
+      saleData: {
+        lastUpdatedDate: date,
+        medianPrice: num('median_sale_price'),
+        medianPricePerSquareFoot: num('median_ppsf'),
+        medianDaysOnMarket: num('median_dom'),
+      },
+      inventoryData: {
+        activeListings: num('inventory'),
+        newListings: num('new_listings'),
+        pendingListings: num('pending_sales'),
+        homesSold: num('homes_sold'),
+        monthsOfSupply: num('months_of_supply'),
+      },
+    };
+  };
 
-  if (missingHeaders.length > 0) {
-    throw new Error(`CSV missing required headers: ${missingHeaders.join(', ')}`);
+  return { format: 'redfin', headers, parseRow, groupByMarket: true };
+}
+
+/**
+ * Create a row parser for Realtor.com inventory core metrics files
+ * Works with the ZIP (zip_name), metro (cbsa_title) and county (county_name) files.
+ * Prices are listing prices rather than sale prices.
+ */
+function createRealtorRowParser(headers: string[]): CSVRowParser {
+  const parseRow = (rawValues: string[], reportIssue: CSVIssueReporter): CSVRowResult => {
+    const row = toRowRecord(headers, rawValues, reportIssue);
+    if (!row) return null;
+
+    // month_date_yyyymm is e.g. "202401"
+    const month = row.month_date_yyyymm.match(/^(\d{4})(\d{2})$/);
+    if (!month) {
+      reportIssue({
+        severity: 'error',
+        column: 'month_date_yyyymm',
+        value: row.month_date_yyyymm,
+        message: 'Expected a month in YYYYMM format',
+      });
+      return null;
+    }
+    const date = `${month[1]}-${month[2]}-01`;
+
+    // ZIP codes may have lost their leading zeros
+    const zipCode = row.postal_code ? row.postal_code.padStart(5, '0') : undefined;
+    const region = splitRegionName(row.zip_name || row.cbsa_title || row.county_name);
+    const city = region.city ? toTitleCase(region.city) : undefined;
+    const state = (row.state_id || region.state)?.toUpperCase();
+
+    if (!city || !state) {
+      reportIssue({
+        severity: 'error',
+        value: row.zip_name || row.cbsa_title || row.county_name || '',
+        message: 'Region name with state is required',
+      });
+      return null;
+    }
+
+    const num = (column: string) => parseNumericValue(row[column], column, reportIssue);
+
+    return {
+      id: zipCode || `${city}-${state}`,
+      city,
+      state,
+      zipCode,
+      saleData: {
+        lastUpdatedDate: date,
+        medianPrice: num('median_listing_price'),
+        averagePrice: num('average_listing_price'),
+        medianPricePerSquareFoot: num('median_listing_price_per_square_foot'),
+        medianSquareFootage: num('median_square_feet'),
+        medianDaysOnMarket: num('median_days_on_market'),
+      },
+      inventoryData: {
+        activeListings: num('active_listing_count'),
+        newListings: num('new_listing_count'),
+        pendingListings: num('pending_listing_count'),
+        totalListings: num('total_listing_count'),
+      },
+    };
+  };
+
+  return { format: 'realtor', headers, parseRow, groupByMarket: true };
+}
+
+/**
+ * Pair a row's values with the headers
+ * Tolerates trailing delimiters (extra empty values at the end of the row);
+ * reports an error and returns null when the column count is wrong.
+ */
+function toRowRecord(
+  headers: string[],
+  rawValues: string[],
+  reportIssue: CSVIssueReporter
+): Record<string, string> | null {
+  const values = rawValues.map(v => v.trim());
+  while (values.length > headers.length && values[values.length - 1] === '') {
+    values.pop();
   }
 
-  // Parse data rows
-  const markets: MarketStats[] = [];
+  if (values.length !== headers.length) {
+    reportIssue({
+      severity: 'error',
+      message: `Row has ${values.length} values but expected ${headers.length}`,
+    });
+    return null;
+  }
+
+  const row: Record<string, string> = {};
+  headers.forEach((header, index) => {
+    row[header] = values[index];
+  });
+  return row;
+}
+
+/**
+ * Create a row parser that follows a user-defined column mapping
+ */
+function createMappedRowParser(headers: string[], mapping: CSVColumnMapping): CSVRowParser {
+  const missingFields = getMissingRequiredFields(mapping);
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue; // Skip empty lines
+  if (missingFields.length > 0) {
+    throw new Error(`Column mapping is missing required fields: ${missingFields.join(', ')}`);
+  }
+
+  // With a mapped date, rows are period observations grouped per market
+  const dateHeader = headers.find(h => mapping[h] === 'saleData.lastUpdatedDate');
 
-    const values = parseCSVLine(line);
+  const parseRow = (rawValues: string[], reportIssue: CSVIssueReporter): MarketStats | null => {
+    // Tolerate trailing delimiters (extra empty values at the end of the row)
+    const values = [...rawValues];
+    while (values.length > headers.length && values[values.length - 1].trim() === '') {
+      values.pop();
+    }
 
     if (values.length !== headers.length) {
-      console.warn(
-        `%c[CSV Parser] Row ${i} has ${values.length} values but expected ${headers.length}`,
-        'color: #F59E0B'
-      );
-      continue;
+      reportIssue({
+        severity: 'error',
+        message: `Row has ${values.length} values but expected ${headers.length}`,
+      });
+      return null;
     }
 
-    // Create object from headers and values
-    const row: Record<string, string> = {};
-    headers.forEach((header, index) => {
-      row[header] = values[index];
-    });
+    const market = applyColumnMapping(headers, values, mapping, (value, column) =>
+      parseNumericValue(value, column, reportIssue)
+    );
 
-    // Transform to MarketStats
-    try {
-      const marketStats = transformRowToMarketStats(row, i);
-      markets.push(marketStats);
-    } catch (error) {
-      console.error(
-        `%c[CSV Parser] Failed to parse row ${i}`,
-        'color: #EF4444',
-        { row, error }
-      );
+    if (!market.city || !market.state) {
+      reportIssue({
+        severity: 'error',
+        column: headers.find(h => mapping[h] === (!market.city ? 'city' : 'state')),
+        value: '',
+        message: 'City and state are required',
+      });
+      return null;
+    }
+
+    market.id = market.id || market.zipCode || `${market.city}-${market.state}`;
+
+    if (dateHeader) {
+      const rawDate = market.saleData?.lastUpdatedDate ?? '';
+      const date = normalizePeriodDate(rawDate);
+      if (!date) {
+        reportIssue({
+          severity: 'error',
+          column: dateHeader,
+          value: rawDate,
+          message: 'Expected a date (YYYY-MM-DD, YYYY-MM, YYYYMM or M/D/YYYY)',
+        });
+        return null;
+      }
+      market.saleData = { ...market.saleData, lastUpdatedDate: date };
     }
+
+    market.saleData = {
+      ...market.saleData,
+      lastUpdatedDate: market.saleData?.lastUpdatedDate || new Date().toISOString(),
+    };
+
+    reportSuspiciousValues(market, reportIssue);
+    return market;
+  };
+
+  return { format: 'mapped', headers, parseRow, groupByMarket: dateHeader !== undefined };
+}
+
+/**
+ * Normalize header names for matching (trimmed, lowercase)
+ */
+function normalizeHeaders(headerRecord: string[]): string[] {
+  return headerRecord.map(h => h.trim().toLowerCase());
+}
+
+/**
+ * Create a row parser from a CSV header record
+ */
+export function createRowParser(headerRecord: string[], columnMapping?: CSVColumnMapping): CSVRowParser {
+  const headers = normalizeHeaders(headerRecord);
+
+  if (columnMapping) {
+    log.info(
+      'Using column mapping',
+      { mappedColumns: Object.keys(columnMapping).length, headers: headers.length }
+    );
+    return createMappedRowParser(headers, columnMapping);
   }
 
-  console.log(
-    '%c[CSV Parser] ✓ Successfully parsed CSV',
-    'color: #10B981; font-weight: bold',
-    { markets: markets.length }
-  );
+  // Detect format
+  const format = detectCSVFormat(headers);
 
-  return markets;
+  log.info('Detected format', { format, headers: headers.slice(0, 10) });
+
+  switch (format) {
+    case 'zillow-zhvi':
+      return createZillowZHVIRowParser(headers);
+    case 'redfin':
+      return createRedfinRowParser(headers);
+    case 'realtor':
+      return createRealtorRowParser(headers);
+    case 'time-series':
+      return createTimeSeriesRowParser(headers);
+    default:
+      return createSimpleRowParser(headers);
+  }
 }
 
 /**
- * Parse a single CSV line, handling quoted values
+ * Incremental CSV parser
+ * Accepts text in arbitrary chunks and returns the markets completed by each chunk,
+ * so large files never need to be held or parsed in one piece. Problems are
+ * collected in a validation report rather than thrown.
  */
-function parseCSVLine(line: string): string[] {
-  const values: string[] = [];
-  let currentValue = '';
-  let insideQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      insideQuotes = !insideQuotes;
-    } else if (char === ',' && !insideQuotes) {
-      values.push(currentValue.trim());
-      currentValue = '';
-    } else {
-      currentValue += char;
+export interface StreamingCSVParser {
+  push(chunk: string): MarketStats[];
+  finish(): MarketStats[];
+  readonly rowsProcessed: number;
+  readonly format: CSVFormat | null;
+  readonly delimiter: CSVDelimiter | null;
+  readonly report: CSVValidationReport;
+}
+
+export function createStreamingCSVParser(options: CSVParserOptions = {}): StreamingCSVParser {
+  const tokenizer = createCSVTokenizer();
+  const report = createValidationReport();
+  let rowParser: CSVRowParser | null = null;
+  let series: MarketSeriesBuilder | null = null;
+  let rowNumber = 0; // Position in the file, header = 1
+
+  const parseRecords = (records: string[][]): MarketStats[] => {
+    const markets: MarketStats[] = [];
+
+    for (const record of records) {
+      rowNumber++;
+      if (isBlankRecord(record)) continue; // Skip empty lines
+
+      if (!rowParser) {
+        rowParser = createRowParser(record, options.columnMapping);
+        report.format = rowParser.format;
+        report.delimiter = tokenizer.delimiter;
+        report.headers = record.map(h => h.trim());
+        series = rowParser.groupByMarket
+          ? createMarketSeriesBuilder({ expectSorted: rowParser.format === 'time-series' })
+          : null;
+        continue;
+      }
+
+      report.totalRows++;
+
+      const row = rowNumber;
+      let rowHasError = false;
+      const reportIssue: CSVIssueReporter = (issue) => {
+        rowHasError = rowHasError || issue.severity === 'error';
+        addValidationIssue(report, { ...issue, row });
+      };
+      const market = rowParser.parseRow(record, reportIssue);
+
+      if (market === 'skipped') {
+        report.skippedRows++;
+      } else if (market) {
+        report.acceptedRows++;
+        if (series) {
+          series.add(market, reportIssue);
+        } else {
+          markets.push(market);
+        }
+      } else {
+        if (!rowHasError) {
+          addValidationIssue(report, { row, severity: 'error', message: 'Row could not be parsed' });
+        }
+        report.rejectedRows++;
+        report.rejectedRecords.push({ row, values: record });
+      }
     }
+
+    return markets;
+  };
+
+  return {
+    push(chunk: string): MarketStats[] {
+      return parseRecords(tokenizer.push(chunk));
+    },
+    finish(): MarketStats[] {
+      const markets = parseRecords(tokenizer.finish());
+
+      if (!rowParser) {
+        throw new Error('CSV file must contain at least a header row and one data row');
+      }
+
+      // Long-format files are only complete once every row has been read
+      return series ? [...markets, ...series.build()] : markets;
+    },
+    get rowsProcessed() {
+      return report.totalRows;
+    },
+    get format() {
+      return rowParser?.format ?? null;
+    },
+    get delimiter() {
+      return tokenizer.delimiter;
+    },
+    get report() {
+      return report;
+    },
+  };
+}
+
+/**
+ * Parse CSV text content into MarketStats array
+ */
+export function parseCSV(csvContent: string): MarketStats[] {
+  const parser = createStreamingCSVParser();
+  const markets = [...parser.push(csvContent), ...parser.finish()];
+
+  if (parser.rowsProcessed === 0) {
+    throw new Error('CSV file must contain at least a header row and one data row');
   }
 
-  // Add the last value
-  values.push(currentValue.trim());
+  log.info(
+    '✓ Successfully parsed CSV',
+    {
+      format: parser.format,
+      delimiter: parser.delimiter,
+      accepted: parser.report.acceptedRows,
+      rejected: parser.report.rejectedRows,
+      warnings: parser.report.warningCount,
+    }
+  );
 
-  return values;
+  return markets;
 }
 
 /**
  * Transform a CSV row object to MarketStats
+ * Returns null (after reporting an error) when required fields are missing.
  */
-function transformRowToMarketStats(row: Record<string, string>, rowIndex: number): MarketStats {
+function transformRowToMarketStats(
+  row: Record<string, string>,
+  reportIssue: CSVIssueReporter
+): MarketStats | null {
   const city = row.city || '';
   const state = row.state || '';
   const zipCode = row.zipcode || row.zip_code || row.zip || undefined;
 
   if (!city || !state) {
-    throw new Error(`Row ${rowIndex}: city and state are required`);
+    reportIssue({
+      severity: 'error',
+      column: !city ? 'city' : 'state',
+      value: '',
+      message: 'City and state are required',
+    });
+    return null;
   }
 
+  // Reads the first present alias of a numeric column
+  const numberField = (...columns: string[]): number | undefined => {
+    const column = columns.find(c => row[c]);
+    return column ? parseNumericValue(row[column], column, reportIssue) : undefined;
+  };
+
   // Parse numeric values with defaults
-  const medianPrice = parseNumber(row.medianprice || row.median_price);
-  const averagePrice = parseNumber(row.averageprice || row.average_price);
-  const minPrice = parseNumber(row.minprice || row.min_price);
-  const maxPrice = parseNumber(row.maxprice || row.max_price);
-  const percentChange = parseNumber(row.percentchange || row.percent_change || row.change);
-
-  const averagePricePerSquareFoot = parseNumber(
-    row.averagepricepersquarefoot || row.average_price_per_sqft || row.price_per_sqft
+  const medianPrice = numberField('medianprice', 'median_price');
+  const averagePrice = numberField('averageprice', 'average_price');
+  const minPrice = numberField('minprice', 'min_price');
+  const maxPrice = numberField('maxprice', 'max_price');
+  const percentChange = numberField('percentchange', 'percent_change', 'change');
+  const sizeRank = numberField('sizerank', 'size_rank');
+
+  const averagePricePerSquareFoot = numberField(
+    'averagepricepersquarefoot', 'average_price_per_sqft', 'price_per_sqft'
   );
-  const medianPricePerSquareFoot = parseNumber(
-    row.medianpricepersquarefoot || row.median_price_per_sqft
+  const medianPricePerSquareFoot = numberField(
+    'medianpricepersquarefoot', 'median_price_per_sqft'
   );
-  const averageSquareFootage = parseNumber(
-    row.averagesquarefootage || row.average_sqft || row.sqft
+  const averageSquareFootage = numberField(
+    'averagesquarefootage', 'average_sqft', 'sqft'
   );
-  const medianSquareFootage = parseNumber(
-    row.mediansquarefootage || row.median_sqft
+  const medianSquareFootage = numberField(
+    'mediansquarefootage', 'median_sqft'
   );
-  const averageDaysOnMarket = parseNumber(
-    row.averagedaysonmarket || row.average_dom || row.dom
+  const averageDaysOnMarket = numberField(
+    'averagedaysonmarket', 'average_dom', 'dom'
   );
-  const medianDaysOnMarket = parseNumber(
-    row.mediandaysonmarket || row.median_dom
+  const medianDaysOnMarket = numberField(
+    'mediandaysonmarket', 'median_dom'
   );
 
   // Parse date
   const lastUpdatedDate = row.lastupdateddate || row.last_updated || row.date || new Date().toISOString();
 
-  return {
+  const market: MarketStats = {
     id: zipCode || `${city}-${state}`,
     city,
     state,
     zipCode,
+    sizeRank,
     saleData: {
       lastUpdatedDate,
       medianPrice,
@@ -380,6 +854,32 @@ function transformRowToMarketStats(row: Record<string, string>, rowIndex: number
     },
     percentChange,
   };
+
+  reportSuspiciousValues(market, reportIssue);
+  return market;
+}
+
+/**
+ * Warn about values that parse but are probably wrong
+ */
+function reportSuspiciousValues(market: MarketStats, reportIssue: CSVIssueReporter): void {
+  const { percentChange, saleData } = market;
+
+  if (percentChange !== undefined && Math.abs(percentChange) >= 100) {
+    reportIssue({
+      severity: 'warning',
+      column: 'percentchange',
+      value: String(percentChange),
+      message: 'Percent change of 100% or more is likely a data error',
+    });
+  }
+
+  if (saleData?.medianPrice === undefined && saleData?.averagePrice === undefined) {
+    reportIssue({
+      severity: 'warning',
+      message: 'No median or average price - market will not be shown on the dashboard',
+    });
+  }
 }
 
 /**
@@ -395,6 +895,23 @@ function parseNumber(value: string | undefined): number | undefined {
   return isNaN(num) ? undefined : num;
 }
 
+/**
+ * Parse a numeric cell, reporting a warning when a non-empty value is not a number
+ */
+function parseNumericValue(
+  value: string | undefined,
+  column: string,
+  reportIssue: CSVIssueReporter
+): number | undefined {
+  const num = parseNumber(value);
+
+  if (num === undefined && value) {
+    reportIssue({ severity: 'warning', column, value, message: 'Not a number - value ignored' });
+  }
+
+  return num;
+}
+
 /**
  * Validate CSV content before parsing
  */
@@ -403,13 +920,13 @@ export function validateCSVContent(csvContent: string): { valid: boolean; error?
     return { valid: false, error: 'CSV file is empty' };
   }
 
-  const lines = csvContent.trim().split('\n');
+  const records = tokenizeCSV(csvContent).filter(record => !isBlankRecord(record));
 
-  if (lines.length < 2) {
+  if (records.length < 2) {
     return { valid: false, error: 'CSV must contain at least a header row and one data row' };
   }
 
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
+  const headers = normalizeHeaders(records[0]);
 
   // Detect format
   const format = detectCSVFormat(headers);
@@ -436,10 +953,9 @@ export function validateCSVContent(csvContent: string): { valid: boolean; error?
         error: 'Zillow ZHVI file must contain date columns (YYYY-MM-DD format)'
       };
     }
-  } else {
+  } else if (format === 'simple' || format === 'time-series') {
     // Validate simple format
-    const requiredHeaders = ['city', 'state'];
-    const missingHeaders = requiredHeaders.filter(h => !headers.includes(h));
+    const missingHeaders = SIMPLE_REQUIRED_HEADERS.filter(h => !headers.includes(h));
 
     if (missingHeaders.length > 0) {
       return {
@@ -0,0 +1,162 @@
+/**
+ * CSV Stream Parsing
+ *
+ * Reads a CSV file or URL as a byte stream and parses it incrementally,
+ * emitting progress and batches of parsed markets as it goes. Runs inside
+ * the CSV parser Web Worker, or on the main thread when workers are unavailable.
+ */
+
+import type { MarketStats } from '../services/providers/types';
+import type { ProviderErrorKind } from '../services/providers/errors';
+import { createStreamingCSVParser, type CSVFormat, type CSVParserOptions } from './csvParser';
+import type { CSVValidationReport } from './csvValidation';
+import { createAbortError } from './abort';
+
+/**
+ * Where the CSV content comes from
+ */
+export type CSVSource =
+  | { kind: 'url'; url: string }
+  | { kind: 'file'; file: File };
+
+/**
+ * Row-level parsing progress
+ */
+export interface CSVParseProgress {
+  bytesLoaded: number;
+  totalBytes: number;     // 0 when unknown
+  rowsProcessed: number;
+}
+
+/**
+ * Final result of a streamed parse
+ */
+export interface CSVParseSummary {
+  format: CSVFormat | null;
+  rowsProcessed: number;
+  marketCount: number;
+  report: CSVValidationReport;
+}
+
+/**
+ * Messages emitted while parsing (also the worker → main thread protocol)
+ */
+export type CSVStreamMessage =
+  | ({ type: 'progress' } & CSVParseProgress)
+  | { type: 'batch'; markets: MarketStats[] }
+  | ({ type: 'done' } & CSVParseSummary)
+  | { type: 'error'; message: string; kind: ProviderErrorKind };
+
+// Markets per batch sent back for storage
+const BATCH_SIZE = 500;
+
+/**
+ * The source could not be opened
+ * (the worker bundle avoids the provider error classes, so only the kind travels)
+ */
+class CSVSourceError extends Error {
+  kind: ProviderErrorKind;
+
+  constructor(message: string, kind: ProviderErrorKind) {
+    super(message);
+    this.name = 'CSVSourceError';
+    this.kind = kind;
+  }
+}
+
+/**
+ * Open the source as a byte stream
+ */
+async function openSource(
+  source: CSVSource,
+  signal?: AbortSignal
+): Promise<{ stream: ReadableStream<Uint8Array>; totalBytes: number }> {
+  if (source.kind === 'file') {
+    return { stream: source.file.stream(), totalBytes: source.file.size };
+  }
+
+  const response = await fetch(source.url, { signal });
+
+  if (!response.ok || !response.body) {
+    throw new CSVSourceError(
+      `Failed to fetch CSV: ${response.statusText || response.status}`,
+      response.status === 404 ? 'not-found' : 'network'
+    );
+  }
+
+  const contentLength = response.headers.get('content-length');
+  return {
+    stream: response.body,
+    totalBytes: contentLength ? parseInt(contentLength, 10) : 0,
+  };
+}
+
+/**
+ * Stream and parse a CSV source, reporting through `emit`
+ * Never throws - failures (including cancellation) are reported as an 'error' message.
+ * @param signal - Stops downloading/reading the source
+ */
+export async function runCSVStreamParse(
+  source: CSVSource,
+  emit: (message: CSVStreamMessage) => void,
+  options: CSVParserOptions = {},
+  signal?: AbortSignal
+): Promise<void> {
+  let opened = false;
+
+  try {
+    const { stream, totalBytes } = await openSource(source, signal);
+    opened = true;
+    const reader = stream.getReader();
+    const decoder = new TextDecoder('utf-8');
+    const parser = createStreamingCSVParser(options);
+
+    let bytesLoaded = 0;
+    let marketCount = 0;
+    let pending: MarketStats[] = [];
+
+    const flush = (force: boolean) => {
+      while (pending.length >= BATCH_SIZE || (force && pending.length > 0)) {
+        const markets = pending.slice(0, BATCH_SIZE);
+        pending = pending.slice(BATCH_SIZE);
+        marketCount += markets.length;
+        emit({ type: 'batch', markets });
+      }
+    };
+
+    while (true) {
+      if (signal?.aborted) {
+        await reader.cancel();
+        throw createAbortError();
+      }
+
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      bytesLoaded += value.length;
+      pending.push(...parser.push(decoder.decode(value, { stream: true })));
+      flush(false);
+
+      emit({ type: 'progress', bytesLoaded, totalBytes, rowsProcessed: parser.rowsProcessed });
+    }
+
+    pending.push(...parser.push(decoder.decode()));
+    pending.push(...parser.finish());
+    flush(true);
+
+    emit({
+      type: 'done',
+      format: parser.format,
+      rowsProcessed: parser.rowsProcessed,
+      marketCount,
+      report: parser.report,
+    });
+  } catch (error) {
+    emit({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to parse CSV',
+      // Failures before the source opened are fetch failures; later ones come from the parser
+      kind: error instanceof CSVSourceError ? error.kind : opened ? 'parse' : 'network',
+    });
+  }
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { createCSVTokenizer, detectDelimiter, serializeCSV, tokenizeCSV, type CSVDelimiter } from './csvTokenizer';
+
+interface TokenizerFixture {
+  name: string;
+  input: string;
+  records: string[][];
+  delimiter?: CSVDelimiter;   // Expected detected delimiter
+}
+
+const FIXTURES: TokenizerFixture[] = [
+  {
+    name: 'plain LF records',
+    input: 'city,state\nAustin,TX\n',
+    records: [['city', 'state'], ['Austin', 'TX']],
+  },
+  {
+    name: 'last record without a line break',
+    input: 'city,state\nAustin,TX',
+    records: [['city', 'state'], ['Austin', 'TX']],
+  },
+  {
+    name: 'UTF-8 byte order mark',
+    input: '\uFEFFcity,state\nAustin,TX\n',
+    records: [['city', 'state'], ['Austin', 'TX']],
+  },
+  {
+    name: 'CRLF line breaks',
+    input: 'city,state\r\nAustin,TX\r\nDenver,CO\r\n',
+    records: [['city', 'state'], ['Austin', 'TX'], ['Denver', 'CO']],
+  },
+  {
+    name: 'lone CR line breaks',
+    input: 'city,state\rAustin,TX\rDenver,CO',
+    records: [['city', 'state'], ['Austin', 'TX'], ['Denver', 'CO']],
+  },
+  {
+    name: 'escaped quotes',
+    input: 'name,note\n"The ""Big"" One","say ""hi"""\n',
+    records: [['name', 'note'], ['The "Big" One', 'say "hi"']],
+  },
+  {
+    name: 'quoted delimiters and line breaks',
+    input: 'name,address\n"Smith, J","12 Main St\r\nApt 4\nAustin"\n',
+    records: [['name', 'address'], ['Smith, J', '12 Main St\r\nApt 4\nAustin']],
+  },
+  {
+    name: 'empty and quoted empty fields',
+    input: 'a,b,c\n,"",\n',
+    records: [['a', 'b', 'c'], ['', '', '']],
+  },
+  {
+    name: 'tab delimiter',
+    input: 'city\tstate\tprice\nAustin\tTX\t"1,000"\n',
+    records: [['city', 'state', 'price'], ['Austin', 'TX', '1,000']],
+    delimiter: '\t',
+  },
+  {
+    name: 'semicolon delimiter',
+    input: 'city;state;price\nAustin;TX;450000,50\n',
+    records: [['city', 'state', 'price'], ['Austin', 'TX', '450000,50']],
+    delimiter: ';',
+  },
+  {
+    name: 'stray quotes in unquoted fields',
+    input: 'name,size\n6" pipe,O"Brien\n',
+    records: [['name', 'size'], ['6" pipe', 'O"Brien']],
+  },
+  {
+    name: 'text after a closing quote',
+    input: 'a,b\n"quoted"tail,x\n',
+    records: [['a', 'b'], ['quotedtail', 'x']],
+  },
+  {
+    name: 'unterminated quoted field',
+    input: 'a,b\n1,"open\n2,3\n',
+    records: [['a', 'b'], ['1', 'open\n2,3\n']],
+  },
+];
+
+/**
+ * Tokenize input pushed in pieces of the given size
+ */
+const tokenizeInChunks = (input: string, size: number): string[][] => {
+  const tokenizer = createCSVTokenizer();
+  const records: string[][] = [];
+  for (let i = 0; i < input.length; i += size) {
+    records.push(...tokenizer.push(input.slice(i, i + size)));
+  }
+  records.push(...tokenizer.finish());
+  return records;
+};
+
+describe('tokenizeCSV', () => {
+  it.each(FIXTURES)('$name', ({ input, records }) => {
+    expect(tokenizeCSV(input)).toEqual(records);
+  });
+
+  it('returns no records for empty input', () => {
+    expect(tokenizeCSV('')).toEqual([]);
+  });
+});
+
+describe('createCSVTokenizer', () => {
+  it.each(FIXTURES)('$name: same records at every chunk boundary', ({ input, records }) => {
+    for (let split = 1; split < input.length; split++) {
+      const tokenizer = createCSVTokenizer();
+      const result = [
+        ...tokenizer.push(input.slice(0, split)),
+        ...tokenizer.push(input.slice(split)),
+        ...tokenizer.finish(),
+      ];
+      expect(result, `split at ${split}`).toEqual(records);
+    }
+  });
+
+  it.each(FIXTURES)('$name: same records one character at a time', ({ input, records }) => {
+    expect(tokenizeInChunks(input, 1)).toEqual(records);
+  });
+
+  it('keeps CRLF together when CR and LF arrive in different chunks', () => {
+    const tokenizer = createCSVTokenizer();
+    expect(tokenizer.push('a,b\r')).toEqual([['a', 'b']]);
+    expect(tokenizer.push('\n1,2\r')).toEqual([['1', '2']]);
+    expect(tokenizer.push('\n')).toEqual([]);
+    expect(tokenizer.finish()).toEqual([]);
+  });
+
+  it('waits for the complete header row before detecting the delimiter', () => {
+    const tokenizer = createCSVTokenizer();
+    expect(tokenizer.push('city')).toEqual([]);
+    expect(tokenizer.delimiter).toBeNull();
+    expect(tokenizer.push(';state\nAustin;TX\n')).toEqual([['city', 'state'], ['Austin', 'TX']]);
+    expect(tokenizer.delimiter).toBe(';');
+  });
+
+  it('strips a byte order mark split across chunks only at the start', () => {
+    const tokenizer = createCSVTokenizer();
+    expect(tokenizer.push('\uFEFF')).toEqual([]);
+    expect([...tokenizer.push('a,b\n\uFEFFc,d\n'), ...tokenizer.finish()]).toEqual([['a', 'b'], ['\uFEFFc', 'd']]);
+  });
+
+  it('uses a given delimiter instead of detecting one', () => {
+    const tokenizer = createCSVTokenizer('|');
+    expect([...tokenizer.push('a,b|c\n'), ...tokenizer.finish()]).toEqual([['a,b', 'c']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it.each(FIXTURES.filter(fixture => fixture.delimiter))('$name', ({ input, delimiter }) => {
+    expect(detectDelimiter(input)).toBe(delimiter);
+  });
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('"a;b;c",d,e\n')).toBe(',');
+  });
+
+  it('only looks at the header row', () => {
+    expect(detectDelimiter('a,b\n1;2;3;4\n')).toBe(',');
+  });
+
+  it('defaults to comma', () => {
+    expect(detectDelimiter('single')).toBe(',');
+  });
+});
+
+describe('serializeCSV', () => {
+  it.each(FIXTURES)('$name: round-trips through tokenizeCSV', ({ records, delimiter }) => {
+    expect(tokenizeCSV(serializeCSV(records, delimiter), delimiter ?? ',')).toEqual(records);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * CSV Tokenizer
+ *
+ * RFC 4180 compliant, incremental CSV tokenizer.
+ * - Quoted fields may contain delimiters, quotes ("" escapes) and line breaks
+ * - Records end with CRLF, LF or a lone CR
+ * - A leading UTF-8 byte order mark is ignored
+ * - The delimiter (comma, tab, semicolon or pipe) is detected from the header row
+ *
+ * Malformed input is handled leniently: stray quotes inside unquoted fields are
+ * kept as literal characters and an unterminated quoted field runs to end of input.
+ */
+
+export type CSVDelimiter = ',' | '\t' | ';' | '|';
+
+const CANDIDATE_DELIMITERS: CSVDelimiter[] = [',', '\t', ';', '|'];
+
+const BOM = '\uFEFF';
+
+/**
+ * Detect the delimiter from the first record of a CSV sample
+ * Counts candidates outside quoted sections; defaults to comma.
+ */
+export function detectDelimiter(sample: string): CSVDelimiter {
+  const counts = new Map<CSVDelimiter, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let insideQuotes = false;
+
+  for (let i = 0; i < sample.length; i++) {
+    const char = sample[i];
+
+    if (char === '"') {
+      insideQuotes = !insideQuotes;
+    } else if (!insideQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!insideQuotes && counts.has(char as CSVDelimiter)) {
+      counts.set(char as CSVDelimiter, counts.get(char as CSVDelimiter)! + 1);
+    }
+  }
+
+  let best: CSVDelimiter = ',';
+  counts.forEach((count, delimiter) => {
+    if (count > counts.get(best)!) {
+      best = delimiter;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Incremental tokenizer
+ * Accepts text in arbitrary chunks and returns the records completed by each chunk.
+ */
+export interface CSVTokenizer {
+  push(chunk: string): string[][];
+  finish(): string[][];
+  readonly delimiter: CSVDelimiter | null;
+}
+
+export function createCSVTokenizer(delimiter?: CSVDelimiter): CSVTokenizer {
+  let activeDelimiter: CSVDelimiter | null = delimiter ?? null;
+  let started = false;
+  // Text held back until the header row is complete (delimiter detection)
+  let pendingText = '';
+
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let quoteClosed = false;   // Just saw a quote inside a quoted field
+  let fieldStarted = false;  // Any character (or quotes) seen for the current field
+  let skipLineFeed = false;  // Previous chunk ended a record on CR
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    fieldStarted = false;
+    quoteClosed = false;
+  };
+
+  const endRecord = (records: string[][]) => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  const consume = (text: string): string[][] => {
+    const records: string[][] = [];
+    const delim = activeDelimiter!;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quoteClosed) {
+          if (char === '"') {
+            // Escaped quote ("")
+            field += '"';
+            quoteClosed = false;
+            continue;
+          }
+
+          // Quoted section has ended
+          inQuotes = false;
+          quoteClosed = false;
+        } else if (char === '"') {
+          quoteClosed = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === delim) {
+        endField();
+      } else if (char === '\n') {
+        endRecord(records);
+      } else if (char === '\r') {
+        endRecord(records);
+        skipLineFeed = true;
+      } else if (char === '"' && !fieldStarted) {
+        inQuotes = true;
+        fieldStarted = true;
+      } else {
+        // Stray quotes in unquoted fields (and text after a closing quote) are kept as-is
+        field += char;
+        fieldStarted = true;
+      }
+    }
+
+    return records;
+  };
+
+  return {
+    push(chunk: string): string[][] {
+      let text = chunk;
+
+      if (!started) {
+        pendingText += text;
+        if (pendingText.startsWith(BOM)) {
+          pendingText = pendingText.slice(BOM.length);
+        }
+
+        // Wait for the complete header row before detecting the delimiter
+        if (!activeDelimiter && !/[\r\n]/.test(pendingText)) {
+          return [];
+        }
+
+        activeDelimiter = activeDelimiter ?? detectDelimiter(pendingText);
+        started = true;
+        text = pendingText;
+        pendingText = '';
+      }
+
+      return consume(text);
+    },
+
+    finish(): string[][] {
+      const records: string[][] = [];
+
+      if (!started) {
+        if (pendingText.startsWith(BOM)) {
+          pendingText = pendingText.slice(BOM.length);
+        }
+        activeDelimiter = activeDelimiter ?? detectDelimiter(pendingText);
+        started = true;
+        records.push(...consume(pendingText));
+        pendingText = '';
+      }
+
+      // Flush the final record when the input does not end with a line break
+      if (fieldStarted || field.length > 0 || record.length > 0) {
+        endRecord(records);
+      }
+
+      inQuotes = false;
+      return records;
+    },
+
+    get delimiter() {
+      return activeDelimiter;
+    },
+  };
+}
+
+/**
+ * Tokenize a complete CSV string into records
+ */
+export function tokenizeCSV(text: string, delimiter?: CSVDelimiter): string[][] {
+  const tokenizer = createCSVTokenizer(delimiter);
+  return [...tokenizer.push(text), ...tokenizer.finish()];
+}
+
+/**
+ * Check whether a record is blank (an empty line)
+ */
+export function isBlankRecord(record: string[]): boolean {
+  return record.every(value => value.trim() === '');
+}
+
+/**
+ * Serialize records back to CSV text
+ * Fields containing the delimiter, quotes or line breaks are quoted.
+ */
+export function serializeCSV(records: string[][], delimiter: CSVDelimiter = ','): string {
+  const escapeField = (value: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value)
+      ? `"${value.replace(/"/g, '""')}"`
+      : value;
+
+  return records.map(record => record.map(escapeField).join(delimiter)).join('\r\n') + '\r\n';
+}
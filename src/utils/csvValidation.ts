@@ -0,0 +1,94 @@
+/**
+ * CSV Validation Report
+ *
+ * Collects row-level problems found while parsing a CSV file so they can be
+ * reviewed before an import is committed, instead of only being logged.
+ */
+
+import type { CSVFormat } from './csvParser';
+import { serializeCSV, type CSVDelimiter } from './csvTokenizer';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * A single problem in the file
+ * Errors reject the row; warnings keep the row but drop the offending value.
+ */
+export interface CSVValidationIssue {
+  row: number;            // Row number in the file (header row = 1)
+  column?: string;        // Header name, when the problem is in a single cell
+  value?: string;         // Offending value
+  severity: ValidationSeverity;
+  message: string;
+}
+
+/**
+ * Reports an issue for the row currently being parsed
+ */
+export type CSVIssueReporter = (issue: Omit<CSVValidationIssue, 'row'>) => void;
+
+export interface CSVValidationReport {
+  format: CSVFormat | null;
+  delimiter: CSVDelimiter | null;
+  headers: string[];      // Header row as it appears in the file
+  totalRows: number;      // Data rows (blank lines excluded)
+  acceptedRows: number;
+  rejectedRows: number;
+  skippedRows: number;    // Rows intentionally left out (e.g. other property types)
+  errorCount: number;
+  warningCount: number;
+  issues: CSVValidationIssue[];   // Capped at MAX_REPORTED_ISSUES
+  issuesTruncated: boolean;
+  rejectedRecords: Array<{ row: number; values: string[] }>;
+}
+
+// Keep the report small enough to render and pass between threads
+export const MAX_REPORTED_ISSUES = 1000;
+
+/**
+ * Create an empty report
+ */
+export function createValidationReport(): CSVValidationReport {
+  return {
+    format: null,
+    delimiter: null,
+    headers: [],
+    totalRows: 0,
+    acceptedRows: 0,
+    rejectedRows: 0,
+    skippedRows: 0,
+    errorCount: 0,
+    warningCount: 0,
+    issues: [],
+    issuesTruncated: false,
+    rejectedRecords: [],
+  };
+}
+
+/**
+ * Add an issue to a report, respecting the issue cap
+ */
+export function addValidationIssue(report: CSVValidationReport, issue: CSVValidationIssue): void {
+  if (issue.severity === 'error') {
+    report.errorCount++;
+  } else {
+    report.warningCount++;
+  }
+
+  if (report.issues.length < MAX_REPORTED_ISSUES) {
+    report.issues.push(issue);
+  } else {
+    report.issuesTruncated = true;
+  }
+}
+
+/**
+ * Build a CSV of the rejected rows (with the original header row)
+ * so they can be fixed and re-uploaded.
+ */
+export function buildRejectedRowsCSV(report: CSVValidationReport): string {
+  return serializeCSV(
+    [report.headers, ...report.rejectedRecords.map(record => record.values)],
+    report.delimiter ?? ','
+  );
+}
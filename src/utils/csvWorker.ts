@@ -0,0 +1,123 @@
+/**
+ * CSV Worker Client
+ *
+ * Main-thread entry point for streamed CSV parsing. Delegates to the CSV parser
+ * Web Worker and falls back to parsing on the main thread when workers are
+ * not available.
+ */
+
+import type { MarketStats } from '../services/providers/types';
+import type { CSVParserOptions } from './csvParser';
+import { createAbortError } from './abort';
+import {
+  runCSVStreamParse,
+  type CSVSource,
+  type CSVStreamMessage,
+  type CSVParseProgress,
+  type CSVParseSummary,
+} from './csvStream';
+import { createLogger } from './logger';
+import { createProviderError } from '../services/providers/errors';
+
+const log = createLogger('CSV Worker');
+
+interface CSVParseHandlers {
+  /** Called for each batch of parsed markets; batches are delivered one at a time */
+  onBatch: (markets: MarketStats[]) => void | Promise<void>;
+  onProgress?: (progress: CSVParseProgress) => void;
+}
+
+/**
+ * Parse a CSV source without blocking the UI
+ * Resolves once every batch has been handled.
+ * @param signal - Cancels parsing (terminates the worker); rejects with an
+ *   AbortError once batches already delivered have been handled
+ */
+export function parseCSVSource(
+  source: CSVSource,
+  { onBatch, onProgress }: CSVParseHandlers,
+  options: CSVParserOptions = {},
+  signal?: AbortSignal
+): Promise<CSVParseSummary> {
+  return new Promise<CSVParseSummary>((resolve, reject) => {
+    let worker: Worker | null = null;
+    let aborted = false;
+
+    // Batches are handled sequentially so storage writes stay ordered
+    let queue: Promise<void> = Promise.resolve();
+
+    const finish = () => {
+      worker?.terminate();
+      worker = null;
+    };
+
+    const handleMessage = (message: CSVStreamMessage) => {
+      if (aborted) return;
+
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message);
+          break;
+
+        case 'batch':
+          queue = queue.then(() => onBatch(message.markets));
+          break;
+
+        case 'done':
+          finish();
+          queue.then(
+            () => resolve({
+              format: message.format,
+              rowsProcessed: message.rowsProcessed,
+              marketCount: message.marketCount,
+              report: message.report,
+            }),
+            reject
+          );
+          break;
+
+        case 'error': {
+          finish();
+          // Parser messages (missing headers, too few rows) are meant for the user as they are
+          const error = createProviderError(message.kind, message.message, {
+            providerId: 'csv',
+            userMessage: message.kind === 'parse' ? message.message : undefined,
+          });
+          const fail = () => reject(error);
+          queue.then(fail, fail);
+          break;
+        }
+      }
+    };
+
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    signal?.addEventListener('abort', () => {
+      aborted = true;
+      finish();
+      const fail = () => reject(createAbortError());
+      queue.then(fail, fail);
+    }, { once: true });
+
+    if (typeof Worker === 'undefined') {
+      log.warn('Web Workers unavailable, parsing on main thread');
+      runCSVStreamParse(source, handleMessage, options, signal);
+      return;
+    }
+
+    worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    worker.onmessage = (event: MessageEvent<CSVStreamMessage>) => handleMessage(event.data);
+    worker.onerror = (event) => {
+      finish();
+      reject(createProviderError('unknown', event.message || 'CSV parser worker failed', { providerId: 'csv' }));
+    };
+
+    worker.postMessage({ source, options });
+  });
+}
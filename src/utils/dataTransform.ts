@@ -1,4 +1,17 @@
-import type { Market, MarketPriceData, PriceDataPoint } from '../types';
+import type { DataProvenance, Market, MarketPriceData, PriceDataPoint } from '../types';
+import type { MarketStats } from '../services/providers/types';
+import { isSyntheticDataAllowed } from './syntheticData';
+
+// Price change assumed when nothing better is known (synthetic fill only)
+const DEFAULT_PRICE_CHANGE = 3.5;
+
+/**
+ * Signed percentage change of market data (0 when unknown)
+ */
+export const getSignedPriceChange = (marketData: MarketPriceData): number => {
+  if (marketData.priceChange === null) return 0;
+  return marketData.changeDirection === 'down' ? -marketData.priceChange : marketData.priceChange;
+};
 
 /**
  * Transform RentCast property data to Market type
@@ -29,29 +42,81 @@ export const transformToMarketPriceData = (
   const saleData = stats.saleData || stats;
   const currentPrice = saleData.medianPrice || saleData.averagePrice || 0;
 
-  // Calculate price change from min/max if percentChange not provided
-  let priceChange = stats.percentChange || 0;
-  if (!priceChange && saleData.minPrice && saleData.maxPrice) {
-    // Estimate change as % difference from median
+  // Everything a sample-data provider returns is generated
+  const reported: DataProvenance = stats.source?.isMock ? 'synthetic' : 'observed';
+
+  let priceChange: number | null = null;
+  let priceChangeProvenance: DataProvenance | undefined;
+
+  if (typeof stats.percentChange === 'number' && Number.isFinite(stats.percentChange)) {
+    priceChange = stats.percentChange;
+    priceChangeProvenance = reported;
+  } else if (saleData.minPrice && saleData.maxPrice && currentPrice && isSyntheticDataAllowed()) {
+    // Stand-in from the price range; a spread is not a change over time
     const range = saleData.maxPrice - saleData.minPrice;
     priceChange = (range / currentPrice) * 100;
-  }
-  // Default to small positive change for realistic mock
-  if (!priceChange) {
-    priceChange = 3.5;
+    priceChangeProvenance = 'synthetic';
+  } else if (isSyntheticDataAllowed()) {
+    // Default to small positive change for realistic mock
+    priceChange = DEFAULT_PRICE_CHANGE;
+    priceChangeProvenance = 'synthetic';
   }
 
   return {
     marketId,
     marketName,
     currentPrice,
-    priceChange: Math.abs(priceChange),
-    changeDirection: priceChange > 0 ? 'up' : priceChange < 0 ? 'down' : 'neutral',
+    priceChange: priceChange === null ? null : Math.abs(priceChange),
+    changeDirection: priceChange && priceChange > 0 ? 'up' : priceChange && priceChange < 0 ? 'down' : 'neutral',
     historicalData: [],
     lastUpdated: saleData.lastUpdatedDate || new Date().toISOString(),
+    provenance: {
+      currentPrice: reported,
+      priceChange: priceChangeProvenance,
+    },
+    source: stats.source,
   };
 };
 
+/**
+ * Attach historical data to transformed market data
+ * Uses the provider's time series when present, otherwise generates one
+ * (unless synthetic data is disabled, which leaves the history empty)
+ */
+export const withHistoricalData = (
+  marketData: MarketPriceData,
+  stats: MarketStats
+): MarketPriceData => {
+  if (stats.historicalPrices && stats.historicalPrices.length > 0) {
+    marketData.historicalData = stats.historicalPrices.map(h => ({
+      date: h.date,
+      price: h.price,
+      propertyType: 'single_family' as const,
+      provenance: h.interpolated ? 'interpolated' : marketData.provenance.currentPrice,
+    }));
+  } else if (isSyntheticDataAllowed()) {
+    marketData.historicalData = generateHistoricalData(
+      marketData.currentPrice,
+      getSignedPriceChange(marketData),
+      12
+    );
+  } else {
+    marketData.historicalData = [];
+  }
+
+  return marketData;
+};
+
+/**
+ * Transform a self-describing market (e.g. a CSV row) to MarketPriceData
+ * including its historical data
+ */
+export const transformMarketStats = (stats: MarketStats): MarketPriceData => {
+  const marketId = stats.id || `${stats.city}-${stats.state}`;
+  const marketName = `${stats.city}, ${stats.state}`;
+  return withHistoricalData(transformToMarketPriceData(marketId, marketName, stats), stats);
+};
+
 /**
  * Generate mock historical data for a market
  * This is used when real historical data is not available from the API
@@ -84,6 +149,7 @@ export const generateHistoricalData = (
       date: date.toISOString().split('T')[0], // YYYY-MM-DD format
       price: Math.round(finalPrice),
       propertyType: 'single_family',
+      provenance: 'synthetic',
     });
   }
 
@@ -136,19 +202,35 @@ export const aggregatePropertiesToMarketData = (
   }
 
   const medianPrice = prices[Math.floor(prices.length / 2)];
+  const marketId = `market-${marketName.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase()}`;
+
+  // Listings carry no history, so a price change can only be made up
+  if (!isSyntheticDataAllowed()) {
+    return {
+      marketId,
+      marketName,
+      currentPrice: Math.round(medianPrice),
+      priceChange: null,
+      changeDirection: 'neutral',
+      historicalData: [],
+      lastUpdated: new Date().toISOString(),
+      provenance: { currentPrice: 'observed' },
+    };
+  }
 
   // For POC, we'll use a mock price change
   // In a real implementation, we'd compare with historical data
   const mockPriceChange = (Math.random() - 0.5) * 10; // Random ±5%
 
   return {
-    marketId: `market-${marketName.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase()}`,
+    marketId,
     marketName,
     currentPrice: Math.round(medianPrice),
     priceChange: Math.abs(mockPriceChange),
     changeDirection: mockPriceChange > 0 ? 'up' : mockPriceChange < 0 ? 'down' : 'neutral',
     historicalData: generateHistoricalData(medianPrice, mockPriceChange, 12),
     lastUpdated: new Date().toISOString(),
+    provenance: { currentPrice: 'observed', priceChange: 'synthetic' },
   };
 };
 
@@ -176,7 +258,7 @@ export const validateMarketData = (data: MarketPriceData): boolean => {
     Boolean(data.marketName) &&
     data.currentPrice > 0 &&
     data.currentPrice < 100_000_000 && // Sanity check
-    Math.abs(data.priceChange) < 100 && // Price change shouldn't exceed 100%
+    (data.priceChange === null || Math.abs(data.priceChange) < 100) && // Price change shouldn't exceed 100%
     ['up', 'down', 'neutral'].includes(data.changeDirection)
   );
 };
@@ -1,3 +1,6 @@
+import type { DataProvenance } from '../types';
+import type { RateLimits } from '../services/providers/types';
+
 /**
  * Format a price number as currency
  * @param price - The price to format
@@ -47,6 +50,34 @@ export const formatPercentage = (change: number): string => {
   return `${sign}${change.toFixed(2)}%`;
 };
 
+/**
+ * Describe how a value was obtained
+ * @param provenance - The value's provenance
+ * @returns Display label (e.g., "Synthetic")
+ */
+export const formatProvenance = (provenance: DataProvenance): string => {
+  const labels: Record<DataProvenance, string> = {
+    observed: 'Observed',
+    interpolated: 'Interpolated',
+    synthetic: 'Synthetic',
+  };
+  return labels[provenance];
+};
+
+/**
+ * Describe a provider's rate limit
+ * @param rateLimits - The provider's declared limits
+ * @returns Display label (e.g., "50 calls/month" or "Unlimited")
+ */
+export const formatRateLimit = (rateLimits: RateLimits): string => {
+  if (!Number.isFinite(rateLimits.limit)) {
+    return rateLimits.period === 'unlimited'
+      ? 'Unlimited'
+      : rateLimits.period.charAt(0).toUpperCase() + rateLimits.period.slice(1);
+  }
+  return `${rateLimits.limit.toLocaleString()} calls/${rateLimits.period}`;
+};
+
 /**
  * Calculate percentage change between two values
  * @param oldValue - Original value
@@ -10,6 +10,10 @@
  * - Structured queries with indexes
  */
 
+import { createLogger } from './logger';
+
+const log = createLogger('IndexedDB');
+
 export interface CachedRecord {
   key: string;
   data: any;
@@ -71,13 +75,13 @@ export class IndexedDBCache {
       const request = indexedDB.open(this.dbName, this.version);
 
       request.onerror = () => {
-        console.error('%c[IndexedDB] Failed to open database', 'color: #EF4444', request.error);
+        log.error('Failed to open database', request.error);
         reject(new Error('Failed to open IndexedDB'));
       };
 
       request.onsuccess = () => {
         this.dbInstance = request.result;
-        console.log('%c[IndexedDB] ✓ Database opened', 'color: #10B981');
+        log.debug('✓ Database opened');
         resolve(request.result);
       };
 
@@ -93,7 +97,7 @@ export class IndexedDBCache {
           store.createIndex('dataType', 'dataType', { unique: false });
           store.createIndex('expiresAt', 'expiresAt', { unique: false });
 
-          console.log('%c[IndexedDB] ✓ Object store created', 'color: #6366F1');
+          log.debug('✓ Object store created');
         }
       };
     });
@@ -134,7 +138,7 @@ export class IndexedDBCache {
         const request = store.get(key);
 
         request.onerror = () => {
-          console.error('%c[IndexedDB] Get error', 'color: #EF4444', request.error);
+          log.error('Get error', request.error);
           reject(request.error);
         };
 
@@ -142,7 +146,7 @@ export class IndexedDBCache {
           const record = request.result as CachedRecord | undefined;
 
           if (!record) {
-            console.log('%c[IndexedDB] ✗ Miss', 'color: #9CA3AF', { key });
+            log.debug('✗ Miss', { key });
             resolve(null);
             return;
           }
@@ -151,7 +155,7 @@ export class IndexedDBCache {
           const now = Date.now();
           if (now > record.expiresAt) {
             const ageHours = ((now - record.timestamp) / (1000 * 60 * 60)).toFixed(1);
-            console.log('%c[IndexedDB] Expired', 'color: #F59E0B', { key, ageHours });
+            log.debug('Expired', { key, ageHours });
 
             // Remove expired entry
             this.remove(key);
@@ -160,17 +164,67 @@ export class IndexedDBCache {
           }
 
           const ageMinutes = ((now - record.timestamp) / (1000 * 60)).toFixed(1);
-          console.log('%c[IndexedDB] ✓ Hit', 'color: #10B981; font-weight: bold', { key, ageMinutes });
+          log.debug('✓ Hit', { key, ageMinutes });
 
           resolve(record.data as T);
         };
       });
     } catch (error) {
-      console.error('[IndexedDB] Error in get():', error);
+      log.error('Error in get()', error);
       return null;
     }
   }
 
+  /**
+   * Get several cached items in a single transaction
+   * Missing and expired keys are left out of the result.
+   */
+  static async getMany<T>(keys: string[]): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    if (keys.length === 0) {
+      return found;
+    }
+
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction([this.storeName], 'readonly');
+      const store = tx.objectStore(this.storeName);
+      const now = Date.now();
+      const expired: string[] = [];
+
+      await new Promise<void>((resolve, reject) => {
+        keys.forEach(key => {
+          const request = store.get(key);
+          request.onsuccess = () => {
+            const record = request.result as CachedRecord | undefined;
+            if (!record) return;
+            if (now > record.expiresAt) {
+              expired.push(key);
+              return;
+            }
+            found.set(key, record.data as T);
+          };
+        });
+
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => {
+          log.error('GetMany error', tx.error);
+          reject(tx.error);
+        };
+      });
+
+      // Remove expired entries
+      expired.forEach(key => this.remove(key));
+
+      log.debug('Batch lookup', { requested: keys.length, hits: found.size, expired: expired.length });
+
+      return found;
+    } catch (error) {
+      log.error('Error in getMany()', error);
+      return found;
+    }
+  }
+
   /**
    * Store an item in the cache
    */
@@ -193,21 +247,54 @@ export class IndexedDBCache {
         const request = store.put(record);
 
         request.onerror = () => {
-          console.error('%c[IndexedDB] Set error', 'color: #EF4444', request.error);
+          log.error('Set error', request.error);
           reject(request.error);
         };
 
         request.onsuccess = () => {
           const ttlHours = (ttlMs / (1000 * 60 * 60)).toFixed(1);
-          console.log('%c[IndexedDB] ✓ Stored', 'color: #6366F1', { key, ttlHours });
+          log.debug('✓ Stored', { key, ttlHours });
           resolve();
         };
       });
     } catch (error) {
-      console.error('[IndexedDB] Error in set():', error);
+      log.error('Error in set()', error);
     }
   }
 
+  /**
+   * Change the TTL of stored items (counted from now)
+   * Returns how many of the keys were found.
+   */
+  static async updateTTL(keys: string[], ttlMs: number): Promise<number> {
+    const db = await this.getDB();
+    const tx = db.transaction([this.storeName], 'readwrite');
+    const store = tx.objectStore(this.storeName);
+    const now = Date.now();
+    let updated = 0;
+
+    return new Promise<number>((resolve, reject) => {
+      keys.forEach(key => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          const record = request.result as CachedRecord | undefined;
+          if (!record) return;
+          store.put({ ...record, ttl: ttlMs, expiresAt: now + ttlMs });
+          updated++;
+        };
+      });
+
+      tx.oncomplete = () => {
+        log.debug('✓ TTL updated', { requested: keys.length, updated });
+        resolve(updated);
+      };
+      tx.onerror = () => {
+        log.error('UpdateTTL error', tx.error);
+        reject(tx.error);
+      };
+    });
+  }
+
   /**
    * Remove a specific cache entry
    */
@@ -225,39 +312,88 @@ export class IndexedDBCache {
         };
 
         request.onsuccess = () => {
-          console.log('%c[IndexedDB] ✓ Removed', 'color: #F59E0B', { key });
+          log.debug('✓ Removed', { key });
           resolve();
         };
       });
     } catch (error) {
-      console.error('[IndexedDB] Error in remove():', error);
+      log.error('Error in remove()', error);
     }
   }
 
   /**
-   * Clear all cache entries
+   * Remove every cache entry whose key starts with a prefix
+   * Returns how many entries were removed.
+   */
+  static async removeByPrefix(prefix: string): Promise<number> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction([this.storeName], 'readwrite');
+      const store = tx.objectStore(this.storeName);
+
+      return new Promise<number>((resolve, reject) => {
+        const request = store.openCursor(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+        let count = 0;
+
+        request.onerror = () => {
+          reject(request.error);
+        };
+
+        request.onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest).result as IDBCursorWithValue | null;
+
+          if (cursor) {
+            cursor.delete();
+            count++;
+            cursor.continue();
+          } else {
+            log.debug('✓ Removed by prefix', { prefix, count });
+            resolve(count);
+          }
+        };
+      });
+    } catch (error) {
+      log.error('Error in removeByPrefix()', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Clear all cache entries that expire
+   * Records stored without expiry (Infinity TTL, e.g. imported CSV datasets)
+   * are data rather than cache and are kept; remove them with remove().
    */
   static async clear(): Promise<void> {
     try {
       const db = await this.getDB();
       const tx = db.transaction([this.storeName], 'readwrite');
       const store = tx.objectStore(this.storeName);
+      const index = store.index('expiresAt');
 
       return new Promise<void>((resolve, reject) => {
-        const request = store.clear();
+        const request = index.openCursor(IDBKeyRange.upperBound(Infinity, true));
+        let count = 0;
 
         request.onerror = () => {
-          console.error('%c[IndexedDB] Clear error', 'color: #EF4444', request.error);
+          log.error('Clear error', request.error);
           reject(request.error);
         };
 
-        request.onsuccess = () => {
-          console.log('%c[IndexedDB] ✓ Cleared all entries', 'color: #EF4444; font-weight: bold');
-          resolve();
+        request.onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest).result as IDBCursorWithValue | null;
+
+          if (cursor) {
+            cursor.delete();
+            count++;
+            cursor.continue();
+          } else {
+            log.info('✓ Cleared cached entries', { count });
+            resolve();
+          }
         };
       });
     } catch (error) {
-      console.error('[IndexedDB] Error in clear():', error);
+      log.error('Error in clear()', error);
     }
   }
 
@@ -290,14 +426,14 @@ export class IndexedDBCache {
             cursor.continue();
           } else {
             if (count > 0) {
-              console.log('%c[IndexedDB] ✓ Cleared expired', 'color: #F59E0B', { count });
+              log.info('✓ Cleared expired', { count });
             }
             resolve(count);
           }
         };
       });
     } catch (error) {
-      console.error('[IndexedDB] Error in clearExpired():', error);
+      log.error('Error in clearExpired()', error);
       return 0;
     }
   }
@@ -339,7 +475,7 @@ export class IndexedDBCache {
         };
       });
     } catch (error) {
-      console.error('[IndexedDB] Error in getAge():', error);
+      log.error('Error in getAge()', error);
       return null;
     }
   }
@@ -386,7 +522,7 @@ export class IndexedDBCache {
         };
       });
     } catch (error) {
-      console.error('[IndexedDB] Error in getStats():', error);
+      log.error('Error in getStats()', error);
       return {
         count: 0,
         keys: [],
@@ -422,7 +558,7 @@ export class IndexedDBCache {
         };
       });
     } catch (error) {
-      console.error('[IndexedDB] Error in getAll():', error);
+      log.error('Error in getAll()', error);
       return [];
     }
   }
@@ -452,7 +588,7 @@ export const migrateFromLocalStorage = async (): Promise<number> => {
   let migratedCount = 0;
 
   try {
-    console.log('%c[IndexedDB] Starting migration from localStorage', 'color: #6366F1; font-weight: bold');
+    log.info('Starting migration from localStorage');
 
     // Find all localStorage keys with our prefix
     const prefix = 'housing-api-cache:';
@@ -465,7 +601,7 @@ export const migrateFromLocalStorage = async (): Promise<number> => {
       }
     }
 
-    console.log(`[IndexedDB] Found ${keysToMigrate.length} localStorage entries to migrate`);
+    log.info(`Found ${keysToMigrate.length} localStorage entries to migrate`);
 
     // Migrate each entry
     for (const fullKey of keysToMigrate) {
@@ -486,13 +622,13 @@ export const migrateFromLocalStorage = async (): Promise<number> => {
         // Remove from localStorage after migration
         localStorage.removeItem(fullKey);
       } catch (error) {
-        console.error(`[IndexedDB] Failed to migrate ${fullKey}:`, error);
+        log.error(`Failed to migrate ${fullKey}`, error);
       }
     }
 
-    console.log('%c[IndexedDB] ✓ Migration complete', 'color: #10B981; font-weight: bold', { migratedCount });
+    log.info('✓ Migration complete', { migratedCount });
   } catch (error) {
-    console.error('[IndexedDB] Migration failed:', error);
+    log.error('Migration failed', error);
   }
 
   return migratedCount;
@@ -0,0 +1,252 @@
+/**
+ * Logger
+ *
+ * Named channels (one per module) with levels. Entries at or above the active
+ * level are written to the browser console; every entry also goes to a ring
+ * buffer of recent entries, which the in-app log console shows and exports
+ * as JSON for bug reports.
+ *
+ * The level is changed in the log console (saved in localStorage) or for one
+ * page load with a URL parameter: `?log=debug`, or with per-channel levels
+ * `?log=warn,RentCast:debug`.
+ */
+
+import { LOG_SETTINGS_STORAGE_KEY } from './constants';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// Levels an entry can have ('silent' only switches output off)
+export type LogEntryLevel = Exclude<LogLevel, 'silent'>;
+
+export interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogEntryLevel;
+  channel: string;
+  message: string;
+  data?: unknown;
+}
+
+export interface LogSettings {
+  level: LogLevel;                      // Console level for every channel
+  channels: Record<string, LogLevel>;   // Per-channel overrides
+}
+
+export interface Logger {
+  readonly channel: string;
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+}
+
+// Entries kept for the log console and exports
+const MAX_LOG_ENTRIES = 500;
+const URL_PARAM = 'log';
+
+const DEFAULT_SETTINGS: LogSettings = { level: 'info', channels: {} };
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+const LEVEL_STYLES: Record<LogEntryLevel, string> = {
+  debug: 'color: #6B7280',
+  info: 'color: #6366F1; font-weight: bold',
+  warn: 'color: #F59E0B; font-weight: bold',
+  error: 'color: #EF4444; font-weight: bold',
+};
+
+// console.debug is hidden by default in most browsers, so debug entries use console.log
+const CONSOLE_METHODS: Record<LogEntryLevel, 'log' | 'warn' | 'error'> = {
+  debug: 'log',
+  info: 'log',
+  warn: 'warn',
+  error: 'error',
+};
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+  LOG_LEVELS.includes(value as LogLevel);
+
+/**
+ * Parse a `?log=` value: a default level and/or `Channel:level` pairs
+ */
+export function parseLogSpec(spec: string, base: LogSettings = DEFAULT_SETTINGS): LogSettings {
+  const settings: LogSettings = { level: base.level, channels: { ...base.channels } };
+
+  spec.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const separator = part.lastIndexOf(':');
+    const level = part.slice(separator + 1).trim().toLowerCase();
+    if (!isLogLevel(level)) return;
+
+    if (separator === -1) {
+      settings.level = level;
+    } else {
+      settings.channels[part.slice(0, separator).trim()] = level;
+    }
+  });
+
+  return settings;
+}
+
+const loadSavedSettings = (): LogSettings => {
+  try {
+    const stored = localStorage.getItem(LOG_SETTINGS_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (parsed && isLogLevel(parsed.level)) {
+      return { level: parsed.level, channels: parsed.channels ?? {} };
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_SETTINGS;
+};
+
+const loadSettings = (): LogSettings => {
+  const saved = loadSavedSettings();
+  const spec = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get(URL_PARAM)
+    : null;
+  return spec ? parseLogSpec(spec, saved) : saved;
+};
+
+let settings = loadSettings();
+const entries: LogEntry[] = [];
+let nextEntryId = 1;
+const loggers = new Map<string, Logger>();
+
+/**
+ * Check whether a channel writes entries of a level to the console
+ */
+export function isLogLevelEnabled(channel: string, level: LogEntryLevel): boolean {
+  return LEVEL_RANK[level] >= LEVEL_RANK[settings.channels[channel] ?? settings.level];
+}
+
+const write = (channel: string, level: LogEntryLevel, message: string, data?: unknown): void => {
+  const entry: LogEntry = { id: nextEntryId++, timestamp: Date.now(), level, channel, message };
+  if (data !== undefined) {
+    entry.data = data;
+  }
+
+  entries.push(entry);
+  if (entries.length > MAX_LOG_ENTRIES) {
+    entries.splice(0, entries.length - MAX_LOG_ENTRIES);
+  }
+
+  if (isLogLevelEnabled(channel, level)) {
+    const args: unknown[] = [`%c[${channel}] ${message}`, LEVEL_STYLES[level]];
+    if (data !== undefined) {
+      args.push(data);
+    }
+    console[CONSOLE_METHODS[level]](...args);
+  }
+};
+
+/**
+ * Get the logger of a channel (one shared instance per channel name)
+ */
+export function createLogger(channel: string): Logger {
+  let logger = loggers.get(channel);
+  if (!logger) {
+    logger = {
+      channel,
+      debug: (message, data) => write(channel, 'debug', message, data),
+      info: (message, data) => write(channel, 'info', message, data),
+      warn: (message, data) => write(channel, 'warn', message, data),
+      error: (message, data) => write(channel, 'error', message, data),
+    };
+    loggers.set(channel, logger);
+  }
+  return logger;
+}
+
+/**
+ * Get the active log settings
+ */
+export function getLogSettings(): LogSettings {
+  return { level: settings.level, channels: { ...settings.channels } };
+}
+
+/**
+ * Change the log settings and save them for later visits
+ */
+export function setLogSettings(next: LogSettings): void {
+  settings = { level: next.level, channels: { ...next.channels } };
+  localStorage.setItem(LOG_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Names of every channel that has logged or been created
+ */
+export function getLogChannels(): string[] {
+  return Array.from(loggers.keys()).sort();
+}
+
+/**
+ * Get the buffered entries, oldest first
+ */
+export function getLogEntries(): LogEntry[] {
+  return [...entries];
+}
+
+/**
+ * Empty the entry buffer
+ */
+export function clearLogEntries(): void {
+  entries.length = 0;
+}
+
+/**
+ * JSON replacer for log data: keeps error details and breaks reference cycles
+ */
+const createDataReplacer = () => {
+  // Objects on the path from the root to the current value
+  const ancestors: unknown[] = [];
+
+  return function (this: unknown, _key: string, value: unknown): unknown {
+    if (value instanceof Error) {
+      value = { ...value, name: value.name, message: value.message, stack: value.stack };
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    // `this` is the object holding the value; leave the branches already finished
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(value)) {
+      return '[Circular]';
+    }
+    ancestors.push(value);
+    return value;
+  };
+};
+
+/**
+ * Render log data as compact JSON for display
+ */
+export function formatLogData(data: unknown): string {
+  try {
+    return JSON.stringify(data, createDataReplacer()) ?? String(data);
+  } catch {
+    return String(data);
+  }
+}
+
+/**
+ * Serialize the buffered entries (with the active settings) for a bug report
+ */
+export function exportLogEntries(): string {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+      url: typeof window !== 'undefined' ? window.location.href : undefined,
+      settings,
+      entries,
+    },
+    createDataReplacer(),
+    2
+  );
+}
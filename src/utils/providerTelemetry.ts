@@ -0,0 +1,165 @@
+/**
+ * Provider Telemetry
+ *
+ * Rolling in-memory record of provider calls (latency, outcome, cache
+ * hit/miss, error class) and of the latest health check per provider.
+ * Only the most recent calls of each provider are kept, so the summaries
+ * describe current behaviour rather than the whole session.
+ */
+
+import { createLogger } from './logger';
+
+const log = createLogger('Telemetry');
+
+// Calls kept per provider
+const MAX_CALLS_PER_PROVIDER = 200;
+// Errors listed per provider in summaries
+const RECENT_ERROR_COUNT = 5;
+
+export type ProviderOperation = 'market-stats' | 'market-stats-batch' | 'search' | 'property' | 'value-estimate';
+
+export type ProviderCallOutcome = 'success' | 'error' | 'cancelled';
+
+/**
+ * One provider call as seen by the caller
+ */
+export interface ProviderCallRecord {
+  providerId: string;
+  operation: ProviderOperation;
+  timestamp: number;
+  latencyMs: number;
+  outcome: ProviderCallOutcome;
+  cacheHit: boolean;
+  errorClass?: string;    // Error name, e.g. AuthError, CircuitOpenError
+  errorMessage?: string;
+}
+
+/**
+ * Aggregated numbers for one provider
+ */
+export interface ProviderTelemetrySummary {
+  providerId: string;
+  calls: number;
+  successRate: number | null;     // Share of completed calls that succeeded (cancellations excluded)
+  latencyP50Ms: number | null;    // Calls answered by the API (cache hits excluded)
+  latencyP95Ms: number | null;
+  cacheHitRatio: number | null;
+  recentErrors: ProviderCallRecord[];  // Newest first
+}
+
+export type ProviderHealthStatus = 'healthy' | 'degraded' | 'down' | 'unknown' | 'unconfigured';
+
+/**
+ * Result of a health check
+ */
+export interface ProviderHealth {
+  providerId: string;
+  status: ProviderHealthStatus;
+  message: string;
+  latencyMs: number | null;   // Round trip of the check itself, when it made one
+  checkedAt: Date;
+}
+
+const calls = new Map<string, ProviderCallRecord[]>();
+const health = new Map<string, ProviderHealth>();
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+const percentile = (sorted: number[], p: number): number | null =>
+  sorted.length > 0 ? sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)] : null;
+
+/**
+ * Name and message of a failed call's error
+ */
+export function describeError(error: unknown): Pick<ProviderCallRecord, 'errorClass' | 'errorMessage'> {
+  if (error instanceof Error) {
+    return { errorClass: error.name, errorMessage: error.message };
+  }
+  return { errorClass: 'Unknown', errorMessage: String(error) };
+}
+
+/**
+ * Record a provider call
+ */
+export function recordProviderCall(record: Omit<ProviderCallRecord, 'timestamp'>): void {
+  const history = calls.get(record.providerId) ?? [];
+  history.push({ ...record, latencyMs: Math.round(record.latencyMs), timestamp: Date.now() });
+  if (history.length > MAX_CALLS_PER_PROVIDER) {
+    history.splice(0, history.length - MAX_CALLS_PER_PROVIDER);
+  }
+  calls.set(record.providerId, history);
+}
+
+/**
+ * Get the recorded calls of a provider, oldest first
+ */
+export function getProviderCalls(providerId: string): ProviderCallRecord[] {
+  return [...(calls.get(providerId) ?? [])];
+}
+
+/**
+ * Summarize the recorded calls of one provider
+ */
+export function getProviderTelemetry(providerId: string): ProviderTelemetrySummary {
+  const history = calls.get(providerId) ?? [];
+  const completed = history.filter(call => call.outcome !== 'cancelled');
+  const succeeded = completed.filter(call => call.outcome === 'success');
+  const latencies = completed
+    .filter(call => !call.cacheHit)
+    .map(call => call.latencyMs)
+    .sort((a, b) => a - b);
+  const cacheHits = history.filter(call => call.cacheHit).length;
+
+  return {
+    providerId,
+    calls: history.length,
+    successRate: completed.length > 0 ? succeeded.length / completed.length : null,
+    latencyP50Ms: percentile(latencies, 0.5),
+    latencyP95Ms: percentile(latencies, 0.95),
+    cacheHitRatio: history.length > 0 ? cacheHits / history.length : null,
+    recentErrors: history
+      .filter(call => call.outcome === 'error')
+      .slice(-RECENT_ERROR_COUNT)
+      .reverse(),
+  };
+}
+
+/**
+ * Summaries of every provider with recorded calls or health checks
+ */
+export function getAllProviderTelemetry(): ProviderTelemetrySummary[] {
+  const providerIds = new Set([...calls.keys(), ...health.keys()]);
+  return Array.from(providerIds, getProviderTelemetry);
+}
+
+/**
+ * Store the latest health check of a provider
+ */
+export function recordProviderHealth(result: ProviderHealth): void {
+  const previous = health.get(result.providerId);
+  health.set(result.providerId, result);
+
+  if (previous && previous.status !== result.status) {
+    log.info(
+      `${result.providerId} health: ${previous.status} → ${result.status}`,
+      { message: result.message }
+    );
+  }
+}
+
+/**
+ * Get the latest health check of a provider
+ */
+export function getProviderHealth(providerId: string): ProviderHealth | null {
+  return health.get(providerId) ?? null;
+}
+
+/**
+ * Forget all recorded calls and health checks
+ */
+export function clearProviderTelemetry(): void {
+  calls.clear();
+  health.clear();
+  log.info('Cleared');
+}
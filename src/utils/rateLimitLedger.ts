@@ -0,0 +1,330 @@
+/**
+ * Rate Limit Ledger
+ *
+ * Persistent per-provider request counts for the current rate-limit period.
+ * Requests are counted before they are sent, so a quota cannot be overrun by
+ * a burst of parallel calls. Rate-limit headers returned by an API take
+ * precedence over the local count when they report fewer remaining requests.
+ */
+
+import { RATE_LIMIT_LEDGER_STORAGE_KEY } from './constants';
+import { abortableDelay } from './abort';
+import type { RateLimits } from '../services/providers/types';
+import { QuotaExhaustedError } from '../services/providers/errors';
+import { createLogger } from './logger';
+
+const log = createLogger('Rate Limits');
+
+// Calls over budget wait for the reset when it is this close; otherwise they fail
+const MAX_QUEUE_WAIT_MS = 60 * 1000;
+// How long a 429 without Retry-After or a reset header blocks further requests
+const DEFAULT_429_COOLDOWN_MS = 60 * 1000;
+
+interface ReportedRateLimit {
+  remaining: number;
+  limit?: number;
+  resetAt?: string;
+  usedAtReport: number;   // Local count when the headers arrived
+}
+
+interface RateLimitLedgerEntry {
+  limit: number;
+  period: string;
+  budget: number | null;  // User-configured cap below the provider limit
+  periodStart: string;
+  used: number;
+  reported?: ReportedRateLimit;
+}
+
+type RateLimitLedger = Record<string, RateLimitLedgerEntry>;
+
+/**
+ * Current quota of a provider
+ */
+export interface RateLimitStatus {
+  providerId: string;
+  limit: number;          // Provider limit (as reported by the API when known)
+  budget: number | null;
+  period: string;
+  used: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+/**
+ * Start and end of the rate-limit period containing a date
+ * Returns null for periods that never reset (e.g. 'unlimited').
+ */
+export function getPeriodBounds(period: string, now: Date = new Date()): { start: Date; end: Date } | null {
+  const start = new Date(now);
+
+  switch (period) {
+    case 'second':
+      start.setMilliseconds(0);
+      return { start, end: new Date(start.getTime() + 1000) };
+    case 'minute':
+      start.setSeconds(0, 0);
+      return { start, end: new Date(start.getTime() + 60 * 1000) };
+    case 'hour':
+      start.setMinutes(0, 0, 0);
+      return { start, end: new Date(start.getTime() + 60 * 60 * 1000) };
+    case 'day': {
+      start.setHours(0, 0, 0, 0);
+      const end = new Date(start);
+      end.setDate(end.getDate() + 1);
+      return { start, end };
+    }
+    case 'month': {
+      start.setDate(1);
+      start.setHours(0, 0, 0, 0);
+      const end = new Date(start);
+      end.setMonth(end.getMonth() + 1);
+      return { start, end };
+    }
+    default:
+      return null;
+  }
+}
+
+const loadLedger = (): RateLimitLedger => {
+  try {
+    const stored = localStorage.getItem(RATE_LIMIT_LEDGER_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    log.error('Failed to load ledger', error);
+    return {};
+  }
+};
+
+const saveLedger = (ledger: RateLimitLedger): void => {
+  localStorage.setItem(RATE_LIMIT_LEDGER_STORAGE_KEY, JSON.stringify(ledger));
+};
+
+/**
+ * Roll an entry over to the current period and drop expired API reports
+ */
+const refreshEntry = (entry: RateLimitLedgerEntry, now: Date): RateLimitLedgerEntry => {
+  const bounds = getPeriodBounds(entry.period, now);
+  let refreshed = entry;
+
+  if (bounds && new Date(entry.periodStart) < bounds.start) {
+    refreshed = { ...refreshed, periodStart: bounds.start.toISOString(), used: 0, reported: undefined };
+  }
+
+  if (refreshed.reported?.resetAt && new Date(refreshed.reported.resetAt) <= now) {
+    refreshed = { ...refreshed, reported: undefined };
+  }
+
+  return refreshed;
+};
+
+const toStatus = (providerId: string, entry: RateLimitLedgerEntry, now: Date): RateLimitStatus => {
+  const limit = entry.reported?.limit ?? entry.limit;
+  const allowed = entry.budget !== null ? Math.min(entry.budget, limit) : limit;
+  let remaining = allowed - entry.used;
+
+  // The API's own count also covers requests made outside this browser
+  if (entry.reported) {
+    const sinceReport = entry.used - entry.reported.usedAtReport;
+    remaining = Math.min(remaining, entry.reported.remaining - sinceReport);
+  }
+
+  const periodEnd = getPeriodBounds(entry.period, now)?.end ?? now;
+
+  return {
+    providerId,
+    limit,
+    budget: entry.budget,
+    period: entry.period,
+    used: entry.used,
+    remaining: Math.max(0, remaining),
+    resetAt: entry.reported?.resetAt ? new Date(entry.reported.resetAt) : periodEnd,
+  };
+};
+
+/**
+ * Register a provider's declared limits
+ * Providers without a finite, periodic limit are not tracked.
+ */
+export function registerRateLimit(providerId: string, limits: RateLimits): void {
+  const now = new Date();
+  const bounds = getPeriodBounds(limits.period, now);
+  if (!bounds || !Number.isFinite(limits.limit)) {
+    return;
+  }
+
+  const ledger = loadLedger();
+  const existing = ledger[providerId];
+
+  ledger[providerId] = refreshEntry(
+    existing
+      ? { ...existing, limit: limits.limit, period: limits.period }
+      : {
+          limit: limits.limit,
+          period: limits.period,
+          budget: null,
+          periodStart: bounds.start.toISOString(),
+          used: 0,
+        },
+    now
+  );
+  saveLedger(ledger);
+}
+
+/**
+ * Get the current quota of a provider (null when it is not tracked)
+ */
+export function getRateLimitStatus(providerId: string): RateLimitStatus | null {
+  const entry = loadLedger()[providerId];
+  if (!entry) {
+    return null;
+  }
+
+  const now = new Date();
+  return toStatus(providerId, refreshEntry(entry, now), now);
+}
+
+/**
+ * Get the quotas of every tracked provider
+ */
+export function getAllRateLimitStatuses(): RateLimitStatus[] {
+  const now = new Date();
+  return Object.entries(loadLedger()).map(([providerId, entry]) =>
+    toStatus(providerId, refreshEntry(entry, now), now)
+  );
+}
+
+/**
+ * Set (or clear, with null) the user budget for a provider
+ */
+export function setRateLimitBudget(providerId: string, budget: number | null): void {
+  const ledger = loadLedger();
+  const entry = ledger[providerId];
+  if (!entry) {
+    return;
+  }
+
+  ledger[providerId] = {
+    ...entry,
+    budget: budget !== null && Number.isFinite(budget) ? Math.max(0, Math.floor(budget)) : null,
+  };
+  saveLedger(ledger);
+}
+
+/**
+ * Count one request against a provider's budget
+ * Waits for the period to reset when it is near; otherwise throws
+ * QuotaExhaustedError. Untracked providers are never limited.
+ * @param signal - Stops waiting for a reset (rejects with an AbortError)
+ */
+export async function reserveRequest(providerId: string, signal?: AbortSignal): Promise<void> {
+  for (;;) {
+    const now = new Date();
+    const ledger = loadLedger();
+    const stored = ledger[providerId];
+    if (!stored) {
+      return;
+    }
+
+    const entry = refreshEntry(stored, now);
+    const status = toStatus(providerId, entry, now);
+
+    if (status.remaining > 0) {
+      ledger[providerId] = { ...entry, used: entry.used + 1 };
+      saveLedger(ledger);
+      return;
+    }
+
+    const wait = status.resetAt.getTime() - now.getTime();
+    if (wait > MAX_QUEUE_WAIT_MS) {
+      log.warn(
+        'Budget exhausted - request refused',
+        { providerId, used: status.used, resetAt: status.resetAt }
+      );
+      throw new QuotaExhaustedError(`Request budget exhausted. Resets ${status.resetAt.toLocaleString()}.`, {
+        providerId,
+        resetAt: status.resetAt,
+      });
+    }
+
+    log.info('Budget exhausted - queuing request until reset', { providerId, waitMs: wait });
+    await abortableDelay(Math.max(wait, 0) + 50, signal);
+  }
+}
+
+/**
+ * Parse a reset header value (epoch seconds, seconds from now, or an HTTP date)
+ */
+const parseResetHeader = (value: string | undefined, now: Date): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    // Values this large are Unix timestamps rather than delays
+    return new Date(seconds > 1e9 ? seconds * 1000 : now.getTime() + seconds * 1000);
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Update a provider's quota from response headers
+ * Reads X-RateLimit-* / RateLimit-* headers and Retry-After.
+ */
+export function recordRateLimitHeaders(
+  providerId: string,
+  headers: Record<string, unknown>,
+  status?: number
+): void {
+  const ledger = loadLedger();
+  const stored = ledger[providerId];
+  if (!stored) {
+    return;
+  }
+
+  const header = (...names: string[]): string | undefined => {
+    for (const name of names) {
+      const value = headers[name] ?? headers[name.toLowerCase()];
+      if (value !== undefined && value !== null && value !== '') {
+        return String(value);
+      }
+    }
+    return undefined;
+  };
+
+  const now = new Date();
+  const remainingHeader = header('x-ratelimit-remaining', 'ratelimit-remaining');
+  const limitHeader = header('x-ratelimit-limit', 'ratelimit-limit');
+  const resetHeader = header('x-ratelimit-reset', 'ratelimit-reset');
+  const retryAfter = status === 429 ? header('retry-after') : undefined;
+
+  if (remainingHeader === undefined && retryAfter === undefined && status !== 429) {
+    return;
+  }
+
+  const entry = refreshEntry(stored, now);
+  const remaining = status === 429 ? 0 : Number(remainingHeader);
+  if (!Number.isFinite(remaining)) {
+    return;
+  }
+
+  // A bare 429 is usually a short burst limit, not the end of the period's quota
+  const resetAt = parseResetHeader(retryAfter ?? resetHeader, now)
+    ?? (status === 429 ? new Date(now.getTime() + DEFAULT_429_COOLDOWN_MS) : undefined);
+  const limit = limitHeader !== undefined ? Number(limitHeader) : NaN;
+
+  ledger[providerId] = {
+    ...entry,
+    reported: {
+      remaining,
+      limit: Number.isFinite(limit) ? limit : undefined,
+      resetAt: resetAt?.toISOString(),
+      usedAtReport: entry.used,
+    },
+  };
+  saveLedger(ledger);
+}
@@ -0,0 +1,405 @@
+import { AxiosError, AxiosHeaders, type AxiosResponse } from 'axios';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CircuitOpenError,
+  executeRequest,
+  getBackoffDelay,
+  getCircuitState,
+  getRetryHints,
+} from './requestLayer';
+import { createAbortError } from './abort';
+import { NetworkError, NotFoundError, RateLimitError } from '../services/providers/errors';
+import { setLogSettings } from './logger';
+
+// Circuits are shared module state, so every test uses its own provider ID
+let providerCount = 0;
+const nextProviderId = () => `provider-${++providerCount}`;
+
+const serverError = (providerId: string) => new NetworkError('Provider error (503)', { providerId, statusCode: 503 });
+const notFound = (providerId: string) => new NotFoundError('Not found', { providerId, statusCode: 404 });
+
+const axiosError = (status: number | null, headers: Record<string, string> = {}): AxiosError => {
+  const response = status === null ? undefined : {
+    status,
+    statusText: '',
+    headers,
+    data: {},
+    config: { headers: new AxiosHeaders() },
+  } as AxiosResponse;
+  return new AxiosError('Request failed', status === null ? 'ECONNREFUSED' : 'ERR_BAD_RESPONSE', undefined, undefined, response);
+};
+
+/**
+ * A promise that is settled from outside
+ */
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+/**
+ * Settle a request after running every pending retry delay
+ */
+const settle = async <T>(promise: Promise<T>): Promise<{ value?: T; error?: unknown }> => {
+  const outcome = promise.then(value => ({ value }), error => ({ error }));
+  await vi.runAllTimersAsync();
+  return outcome;
+};
+
+/**
+ * Fail enough requests in a row to open a provider's circuit
+ */
+const openCircuit = async (providerId: string): Promise<void> => {
+  for (let i = 0; i < 5; i++) {
+    await settle(executeRequest(providerId, `fail-${i}`, () => Promise.reject(serverError(providerId))));
+  }
+};
+
+beforeAll(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+  setLogSettings({ level: 'silent', channels: {} });
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // No jitter unless a test asks for it: backoff delays are 0
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('getRetryHints', () => {
+  it('retries server errors but not client errors', () => {
+    expect(getRetryHints(axiosError(503))).toEqual({ retryable: true });
+    expect(getRetryHints(axiosError(500))).toEqual({ retryable: true });
+    expect(getRetryHints(axiosError(404))).toEqual({ retryable: false });
+    expect(getRetryHints(axiosError(401))).toEqual({ retryable: false });
+  });
+
+  it('retries timeouts and network failures', () => {
+    expect(getRetryHints(axiosError(null))).toEqual({ retryable: true });
+  });
+
+  it('reads Retry-After from 429 responses', () => {
+    expect(getRetryHints(axiosError(429, { 'retry-after': '2' }))).toEqual({ retryable: true, retryAfterMs: 2000 });
+    expect(getRetryHints(axiosError(429))).toEqual({ retryable: true, retryAfterMs: undefined });
+  });
+
+  it('uses the hints of provider errors', () => {
+    expect(getRetryHints(new RateLimitError('Slow down', { providerId: 'p', retryAfterMs: 1500 })))
+      .toEqual({ retryable: true, retryAfterMs: 1500 });
+    expect(getRetryHints(notFound('p'))).toEqual({ retryable: false, retryAfterMs: undefined });
+  });
+
+  it('never retries cancellations or unknown errors', () => {
+    expect(getRetryHints(createAbortError())).toEqual({ retryable: false });
+    expect(getRetryHints(new Error('boom'))).toEqual({ retryable: false });
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('doubles the ceiling per attempt up to 8 seconds', () => {
+    vi.mocked(Math.random).mockReturnValue(1);
+    expect([0, 1, 2, 3, 4, 5].map(getBackoffDelay)).toEqual([500, 1000, 2000, 4000, 8000, 8000]);
+  });
+
+  it('picks a random delay below the ceiling (full jitter)', () => {
+    vi.mocked(Math.random).mockReturnValue(0.25);
+    expect(getBackoffDelay(2)).toBe(500);
+
+    vi.mocked(Math.random).mockReturnValue(0);
+    expect(getBackoffDelay(2)).toBe(0);
+  });
+});
+
+describe('executeRequest', () => {
+  describe('retries', () => {
+    it('retries retryable failures with backoff until one succeeds', async () => {
+      vi.mocked(Math.random).mockReturnValue(1);
+      const providerId = nextProviderId();
+      const call = vi.fn()
+        .mockRejectedValueOnce(serverError(providerId))
+        .mockRejectedValueOnce(serverError(providerId))
+        .mockResolvedValue('data');
+
+      const result = executeRequest(providerId, 'key', call);
+
+      await vi.advanceTimersByTimeAsync(499);
+      expect(call).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(call).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(call).toHaveBeenCalledTimes(3);
+      await expect(result).resolves.toBe('data');
+    });
+
+    it('gives up after three retries with the last error', async () => {
+      const providerId = nextProviderId();
+      const error = serverError(providerId);
+      const call = vi.fn().mockRejectedValue(error);
+
+      const { error: thrown } = await settle(executeRequest(providerId, 'key', call));
+
+      expect(thrown).toBe(error);
+      expect(call).toHaveBeenCalledTimes(4);
+    });
+
+    it('does not retry failures that are not retryable', async () => {
+      const providerId = nextProviderId();
+      const call = vi.fn().mockRejectedValue(notFound(providerId));
+
+      const { error } = await settle(executeRequest(providerId, 'key', call));
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits for Retry-After instead of the backoff delay', async () => {
+      const providerId = nextProviderId();
+      const call = vi.fn()
+        .mockRejectedValueOnce(new RateLimitError('Slow down', { providerId, retryAfterMs: 3000 }))
+        .mockResolvedValue('data');
+
+      const result = executeRequest(providerId, 'key', call);
+
+      await vi.advanceTimersByTimeAsync(2999);
+      expect(call).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toBe('data');
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it('surfaces a Retry-After over a minute instead of waiting', async () => {
+      const providerId = nextProviderId();
+      const call = vi.fn().mockRejectedValue(new RateLimitError('Slow down', { providerId, retryAfterMs: 120_000 }));
+
+      const { error } = await settle(executeRequest(providerId, 'key', call));
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops retrying when the caller cancels', async () => {
+      vi.mocked(Math.random).mockReturnValue(1);
+      const providerId = nextProviderId();
+      const controller = new AbortController();
+      const call = vi.fn().mockRejectedValue(serverError(providerId));
+
+      const result = executeRequest(providerId, 'key', call, controller.signal);
+      await vi.advanceTimersByTimeAsync(100);
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+      await vi.runAllTimersAsync();
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('coalescing', () => {
+    it('shares one in-flight call between identical requests', async () => {
+      const providerId = nextProviderId();
+      const response = deferred<string>();
+      const call = vi.fn(() => response.promise);
+
+      const first = executeRequest(providerId, 'key', call);
+      const second = executeRequest(providerId, 'key', call);
+      response.resolve('data');
+
+      await expect(Promise.all([first, second])).resolves.toEqual(['data', 'data']);
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('calls again once the shared request has settled', async () => {
+      const providerId = nextProviderId();
+      const call = vi.fn().mockResolvedValue('data');
+
+      await executeRequest(providerId, 'key', call);
+      await executeRequest(providerId, 'key', call);
+
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps requests with different keys apart', async () => {
+      const providerId = nextProviderId();
+      const call = vi.fn().mockResolvedValue('data');
+
+      await Promise.all([executeRequest(providerId, 'a', call), executeRequest(providerId, 'b', call)]);
+
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps the shared call running while another caller still waits', async () => {
+      const providerId = nextProviderId();
+      const response = deferred<string>();
+      let requestSignal: AbortSignal | undefined;
+      const call = vi.fn((signal: AbortSignal) => {
+        requestSignal = signal;
+        return response.promise;
+      });
+      const controller = new AbortController();
+
+      const cancelled = executeRequest(providerId, 'key', call, controller.signal);
+      const waiting = executeRequest(providerId, 'key', call, new AbortController().signal);
+      controller.abort();
+
+      await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+      expect(requestSignal?.aborted).toBe(false);
+
+      response.resolve('data');
+      await expect(waiting).resolves.toBe('data');
+    });
+
+    it('aborts the shared call once every caller has cancelled', async () => {
+      const providerId = nextProviderId();
+      let requestSignal: AbortSignal | undefined;
+      const call = vi.fn((signal: AbortSignal) => {
+        requestSignal = signal;
+        return new Promise<string>(() => {});
+      });
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const results = Promise.allSettled([
+        executeRequest(providerId, 'key', call, first.signal),
+        executeRequest(providerId, 'key', call, second.signal),
+      ]);
+      first.abort();
+      second.abort();
+      await results;
+
+      expect(requestSignal?.aborted).toBe(true);
+      // A new request starts over instead of joining the aborted one
+      const retry = new AbortController();
+      const again = executeRequest(providerId, 'key', call, retry.signal);
+      expect(call).toHaveBeenCalledTimes(2);
+      retry.abort();
+      await expect(again).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('rejects at once when the signal is already aborted', async () => {
+      const call = vi.fn();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(executeRequest(nextProviderId(), 'key', call, controller.signal))
+        .rejects.toMatchObject({ name: 'AbortError' });
+      expect(call).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('opens after five consecutive retryable failures and fails fast', async () => {
+      const providerId = nextProviderId();
+
+      await openCircuit(providerId);
+      expect(getCircuitState(providerId)).toBe('open');
+
+      const call = vi.fn().mockResolvedValue('data');
+      const { error } = await settle(executeRequest(providerId, 'key', call));
+
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect((error as CircuitOpenError).retryAt.getTime()).toBe(Date.now() + 30_000);
+      expect(call).not.toHaveBeenCalled();
+    });
+
+    it('does not count failures that are not retryable', async () => {
+      const providerId = nextProviderId();
+
+      for (let i = 0; i < 6; i++) {
+        await settle(executeRequest(providerId, `key-${i}`, () => Promise.reject(notFound(providerId))));
+      }
+
+      expect(getCircuitState(providerId)).toBe('closed');
+    });
+
+    it('resets the failure count after a success', async () => {
+      const providerId = nextProviderId();
+      const fail = (key: string) =>
+        settle(executeRequest(providerId, key, () => Promise.reject(serverError(providerId))));
+
+      for (let i = 0; i < 4; i++) await fail(`before-${i}`);
+      await executeRequest(providerId, 'ok', () => Promise.resolve('data'));
+      for (let i = 0; i < 4; i++) await fail(`after-${i}`);
+
+      expect(getCircuitState(providerId)).toBe('closed');
+    });
+
+    it('lets a single trial call through after the open period', async () => {
+      const providerId = nextProviderId();
+      await openCircuit(providerId);
+      vi.advanceTimersByTime(30_000);
+
+      const response = deferred<string>();
+      const trialCall = vi.fn(() => response.promise);
+      const otherCall = vi.fn().mockResolvedValue('other');
+
+      const trial = executeRequest(providerId, 'trial', trialCall);
+      expect(getCircuitState(providerId)).toBe('half-open');
+
+      const others = await Promise.allSettled([
+        executeRequest(providerId, 'other-1', otherCall),
+        executeRequest(providerId, 'other-2', otherCall),
+      ]);
+      expect(others.map(result => result.status)).toEqual(['rejected', 'rejected']);
+      expect((others[0] as PromiseRejectedResult).reason).toBeInstanceOf(CircuitOpenError);
+      expect(otherCall).not.toHaveBeenCalled();
+
+      response.resolve('data');
+      await expect(trial).resolves.toBe('data');
+      expect(getCircuitState(providerId)).toBe('closed');
+
+      await expect(executeRequest(providerId, 'other-1', otherCall)).resolves.toBe('other');
+    });
+
+    it('opens again when the trial call fails', async () => {
+      const providerId = nextProviderId();
+      await openCircuit(providerId);
+      vi.advanceTimersByTime(30_000);
+
+      await settle(executeRequest(providerId, 'trial', () => Promise.reject(serverError(providerId))));
+
+      expect(getCircuitState(providerId)).toBe('open');
+      const { error } = await settle(executeRequest(providerId, 'next', () => Promise.resolve('data')));
+      expect(error).toBeInstanceOf(CircuitOpenError);
+    });
+
+    it('closes when the trial call gets a client error', async () => {
+      const providerId = nextProviderId();
+      await openCircuit(providerId);
+      vi.advanceTimersByTime(30_000);
+
+      await settle(executeRequest(providerId, 'trial', () => Promise.reject(notFound(providerId))));
+
+      expect(getCircuitState(providerId)).toBe('closed');
+    });
+
+    it('lets the next call try when the trial is cancelled', async () => {
+      const providerId = nextProviderId();
+      await openCircuit(providerId);
+      vi.advanceTimersByTime(30_000);
+
+      const controller = new AbortController();
+      const trial = executeRequest(
+        providerId,
+        'trial',
+        (signal) => new Promise<string>((_, reject) => signal.addEventListener('abort', () => reject(createAbortError()))),
+        controller.signal
+      );
+      controller.abort();
+      await expect(trial).rejects.toMatchObject({ name: 'AbortError' });
+      await vi.runAllTimersAsync();
+
+      expect(getCircuitState(providerId)).toBe('half-open');
+      await expect(executeRequest(providerId, 'next', () => Promise.resolve('data'))).resolves.toBe('data');
+      expect(getCircuitState(providerId)).toBe('closed');
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Provider Request Layer
+ *
+ * Shared resilience for provider API calls:
+ * - Identical in-flight calls are coalesced into one request
+ * - Server errors, timeouts and network failures are retried with
+ *   exponential backoff and full jitter
+ * - 429 responses are retried after the server's Retry-After delay
+ * - A circuit breaker per provider fails fast after repeated failures
+ * - Each caller can cancel with its own AbortSignal; a coalesced request is
+ *   only aborted once every caller waiting on it has cancelled
+ */
+
+import axios from 'axios';
+import { abortableDelay, createAbortError, isAbortError } from './abort';
+import { NetworkError, parseRetryAfter } from '../services/providers/errors';
+import { createLogger } from './logger';
+
+const log = createLogger('Request Layer');
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+// Longer Retry-After delays are not waited out; the error is surfaced instead
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+const FAILURE_THRESHOLD = 5;        // Consecutive failures before the circuit opens
+const OPEN_DURATION_MS = 30 * 1000; // How long an open circuit rejects calls
+
+/**
+ * Retry hints an error can carry (e.g. provider-specific API errors)
+ */
+export interface RetryHints {
+  retryable?: boolean;
+  retryAfterMs?: number;
+}
+
+/**
+ * Thrown while a provider's circuit is open
+ */
+export class CircuitOpenError extends NetworkError {
+  retryAt: Date;
+
+  constructor(providerId: string, retryAt: Date) {
+    super(`Provider temporarily unavailable after repeated failures. Retrying after ${retryAt.toLocaleTimeString()}.`, {
+      providerId,
+      retryable: false,
+      userMessage: 'The provider is failing repeatedly, so requests are paused for a moment.',
+    });
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitBreaker {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  trialInFlight: boolean;   // A half-open circuit lets only this call through
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+// Shared across provider instances, which the app creates in several places
+const circuits = new Map<string, CircuitBreaker>();
+const inFlight = new Map<string, InFlightRequest>();
+
+/**
+ * Decide whether a failed call is worth retrying, and after how long
+ */
+export function getRetryHints(error: unknown): RetryHints {
+  if (isAbortError(error)) {
+    return { retryable: false };
+  }
+
+  if (axios.isAxiosError(error)) {
+    const response = error.response;
+    if (!response) {
+      // Timeout or network failure
+      return { retryable: true };
+    }
+
+    if (response.status === 429) {
+      return { retryable: true, retryAfterMs: parseRetryAfter(response.headers['retry-after']) };
+    }
+
+    return { retryable: response.status >= 500 };
+  }
+
+  if (error && typeof error === 'object' && 'retryable' in error) {
+    const hints = error as RetryHints;
+    return { retryable: Boolean(hints.retryable), retryAfterMs: hints.retryAfterMs };
+  }
+
+  return { retryable: false };
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+export function getBackoffDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+const getCircuit = (providerId: string): CircuitBreaker => {
+  let circuit = circuits.get(providerId);
+  if (!circuit) {
+    circuit = { state: 'closed', failures: 0, openedAt: 0, trialInFlight: false };
+    circuits.set(providerId, circuit);
+  }
+  return circuit;
+};
+
+/**
+ * Get the circuit state of a provider
+ */
+export function getCircuitState(providerId: string): CircuitState {
+  return circuits.get(providerId)?.state ?? 'closed';
+}
+
+/**
+ * Run a call through the provider's circuit breaker
+ * Only retryable failures (server errors, timeouts, 429s) count towards
+ * opening the circuit; client errors say nothing about provider health.
+ * Once the open period is over, one trial call decides whether the circuit
+ * closes again; other calls fail fast until it settles.
+ */
+async function withCircuitBreaker<T>(providerId: string, call: () => Promise<T>): Promise<T> {
+  const circuit = getCircuit(providerId);
+
+  if (circuit.state === 'open') {
+    const retryAt = circuit.openedAt + OPEN_DURATION_MS;
+    if (Date.now() < retryAt) {
+      throw new CircuitOpenError(providerId, new Date(retryAt));
+    }
+    circuit.state = 'half-open';
+  }
+
+  let isTrial = false;
+  if (circuit.state === 'half-open') {
+    if (circuit.trialInFlight) {
+      // The trial call is still running
+      throw new CircuitOpenError(providerId, new Date());
+    }
+    // Let one trial call through
+    circuit.trialInFlight = true;
+    isTrial = true;
+  }
+
+  try {
+    const result = await call();
+    if (circuit.state !== 'closed') {
+      log.info('Circuit closed', { providerId });
+    }
+    circuit.state = 'closed';
+    circuit.failures = 0;
+    return result;
+  } catch (error) {
+    if (isAbortError(error)) {
+      // Cancellation says nothing about provider health
+      throw error;
+    }
+
+    if (getRetryHints(error).retryable) {
+      circuit.failures++;
+      if (circuit.state === 'half-open' || circuit.failures >= FAILURE_THRESHOLD) {
+        circuit.state = 'open';
+        circuit.openedAt = Date.now();
+        log.warn('Circuit opened', { providerId, failures: circuit.failures, openForMs: OPEN_DURATION_MS });
+      }
+    } else if (circuit.state === 'half-open') {
+      // The provider answered, just not successfully
+      circuit.state = 'closed';
+      circuit.failures = 0;
+    }
+    throw error;
+  } finally {
+    if (isTrial) {
+      circuit.trialInFlight = false;
+    }
+  }
+}
+
+/**
+ * Run a call, retrying transient failures
+ */
+async function withRetry<T>(
+  providerId: string,
+  call: () => Promise<T>,
+  signal: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      const { retryable, retryAfterMs } = getRetryHints(error);
+      if (!retryable || attempt >= MAX_RETRIES) {
+        throw error;
+      }
+
+      const delay = retryAfterMs ?? getBackoffDelay(attempt);
+      if (delay > MAX_RETRY_AFTER_MS) {
+        throw error;
+      }
+
+      log.warn(
+        `Retrying in ${Math.round(delay)}ms (attempt ${attempt + 2}/${MAX_RETRIES + 1})`,
+        { providerId, error: error instanceof Error ? error.message : error }
+      );
+      await abortableDelay(delay, signal);
+    }
+  }
+}
+
+/**
+ * Execute a provider request with coalescing, retries and circuit breaking
+ * @param providerId - Circuit breaker key
+ * @param requestKey - Calls with the same key share one in-flight request
+ * @param call - Performs the request; must honour the signal it is given
+ * @param signal - Cancels this caller's wait (and the request, if no one else waits)
+ */
+export function executeRequest<T>(
+  providerId: string,
+  requestKey: string,
+  call: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  let entry = inFlight.get(requestKey);
+  if (entry) {
+    log.debug('Joined in-flight request', { requestKey });
+  } else {
+    const controller = new AbortController();
+    const created: InFlightRequest = {
+      controller,
+      subscribers: 0,
+      promise: withCircuitBreaker(providerId, () =>
+        withRetry(providerId, () => call(controller.signal), controller.signal)
+      ).finally(() => {
+        if (inFlight.get(requestKey) === created) {
+          inFlight.delete(requestKey);
+        }
+      }),
+    };
+    inFlight.set(requestKey, created);
+    entry = created;
+  }
+
+  const request = entry;
+  request.subscribers++;
+
+  if (!signal) {
+    return request.promise as Promise<T>;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      request.subscribers--;
+      if (request.subscribers === 0) {
+        // Nobody is waiting any more - stop the request itself
+        if (inFlight.get(requestKey) === request) {
+          inFlight.delete(requestKey);
+        }
+        request.controller.abort();
+      }
+      reject(createAbortError());
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    (request.promise as Promise<T>)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
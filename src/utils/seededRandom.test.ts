@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom } from './seededRandom';
+
+const SAMPLES = 20000;
+
+describe('createSeededRandom', () => {
+  it('repeats the same stream for the same seed and key', () => {
+    const a = createSeededRandom(42, 'market:austin');
+    const b = createSeededRandom(42, 'market:austin');
+
+    expect(Array.from({ length: 5 }, a.next)).toEqual(Array.from({ length: 5 }, b.next));
+  });
+
+  it('gives different keys different streams', () => {
+    expect(createSeededRandom(42, 'a').next()).not.toBe(createSeededRandom(42, 'b').next());
+  });
+
+  describe('gaussian', () => {
+    it('has mean 0 and standard deviation 1', () => {
+      const random = createSeededRandom(7, 'gaussian');
+      const samples = Array.from({ length: SAMPLES }, random.gaussian);
+
+      const mean = samples.reduce((sum, x) => sum + x, 0) / SAMPLES;
+      const variance = samples.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (SAMPLES - 1);
+
+      expect(Math.abs(mean)).toBeLessThan(0.03);
+      expect(Math.sqrt(variance)).toBeGreaterThan(0.97);
+      expect(Math.sqrt(variance)).toBeLessThan(1.03);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Seeded Random Numbers
+ *
+ * Small deterministic PRNG (mulberry32) for reproducible mock data.
+ * Streams are derived from a seed plus a key (e.g. a location), so the values
+ * for one market do not depend on which other markets were requested first.
+ */
+
+export interface SeededRandom {
+  /** Next float in [0, 1) */
+  next(): number;
+  /** Float in [min, max) */
+  range(min: number, max: number): number;
+  /** Integer in [min, max] */
+  int(min: number, max: number): number;
+  /** True with the given probability */
+  chance(probability: number): boolean;
+  /** Random element of a non-empty array */
+  pick<T>(items: readonly T[]): T;
+  /** Approximately normal value (mean 0, standard deviation 1) */
+  gaussian(): number;
+}
+
+/**
+ * Hash a string to a 32-bit unsigned integer (FNV-1a)
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a random stream for a seed and optional stream key
+ */
+export function createSeededRandom(seed: string | number, key: string = ''): SeededRandom {
+  let state = hashString(`${seed}:${key}`);
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    // Sum of 12 uniforms (Irwin-Hall) has variance 12 * 1/12 = 1, and is
+    // close enough to normal for mock noise
+    gaussian: () => {
+      let sum = 0;
+      for (let i = 0; i < 12; i++) {
+        sum += next();
+      }
+      return sum - 6;
+    },
+  };
+}
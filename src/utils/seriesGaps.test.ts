@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { fillSeriesGaps } from './seriesGaps';
+
+const DATES = ['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30', '2025-05-31', '2025-06-30'];
+
+describe('fillSeriesGaps', () => {
+  it('keeps a complete series as reported', () => {
+    const reported = new Map(DATES.map((date, i) => [date, 100 + i]));
+
+    expect(fillSeriesGaps(DATES, reported)).toEqual(DATES.map((date, i) => ({ date, price: 100 + i })));
+  });
+
+  it('interpolates the months between reported ones and flags them', () => {
+    const reported = new Map([
+      ['2025-01-31', 100],
+      ['2025-04-30', 160],
+      ['2025-05-31', 170],
+    ]);
+
+    expect(fillSeriesGaps(DATES, reported)).toEqual([
+      { date: '2025-01-31', price: 100 },
+      { date: '2025-02-28', price: 120, interpolated: true },
+      { date: '2025-03-31', price: 140, interpolated: true },
+      { date: '2025-04-30', price: 160 },
+      { date: '2025-05-31', price: 170 },
+    ]);
+  });
+
+  it('leaves out months before the first and after the last reported one', () => {
+    const reported = new Map([['2025-03-31', 100]]);
+
+    expect(fillSeriesGaps(DATES, reported)).toEqual([{ date: '2025-03-31', price: 100 }]);
+  });
+
+  it('returns an empty series without reported prices', () => {
+    expect(fillSeriesGaps(DATES, new Map())).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Series Gap Filling
+ *
+ * Monthly price series can skip periods (blank ZHVI cells, sparse Mock
+ * histories). A gap between two reported periods is filled by linear
+ * interpolation, and the filled points are flagged so charts can tell them
+ * apart from reported ones.
+ */
+
+import type { MarketStats } from '../services/providers/types';
+
+type PriceSeries = NonNullable<MarketStats['historicalPrices']>;
+
+/**
+ * Build a series from reported prices, filling the gaps between them
+ * Periods before the first or after the last reported price stay out.
+ *
+ * @param dates - Every period of the series, oldest first
+ * @param reported - Reported price by date
+ */
+export function fillSeriesGaps(dates: string[], reported: Map<string, number>): PriceSeries {
+  const series: PriceSeries = [];
+  let previous: { index: number; price: number } | null = null;
+
+  dates.forEach((date, index) => {
+    const price = reported.get(date);
+    if (price === undefined) {
+      return;
+    }
+
+    if (previous) {
+      const span = index - previous.index;
+      for (let gap = previous.index + 1; gap < index; gap++) {
+        const share = (gap - previous.index) / span;
+        series.push({
+          date: dates[gap],
+          price: Math.round(previous.price + (price - previous.price) * share),
+          interpolated: true,
+        });
+      }
+    }
+
+    series.push({ date, price });
+    previous = { index, price };
+  });
+
+  return series;
+}
@@ -0,0 +1,32 @@
+/**
+ * Synthetic Data Setting
+ *
+ * Controls whether gaps in real data may be filled with generated values
+ * (sample markets, generated price history, default price changes).
+ * Defaults to VITE_ALLOW_SYNTHETIC_DATA (allowed unless set to 'false');
+ * the user's choice in localStorage takes precedence.
+ */
+
+import { SYNTHETIC_DATA_STORAGE_KEY } from './constants';
+import { createLogger } from './logger';
+
+const log = createLogger('Synthetic Data');
+
+/**
+ * Check whether synthetic fill is allowed
+ */
+export function isSyntheticDataAllowed(): boolean {
+  const stored = localStorage.getItem(SYNTHETIC_DATA_STORAGE_KEY);
+  if (stored === 'true' || stored === 'false') {
+    return stored === 'true';
+  }
+  return import.meta.env.VITE_ALLOW_SYNTHETIC_DATA !== 'false';
+}
+
+/**
+ * Persist the user's synthetic data choice
+ */
+export function setSyntheticDataAllowed(allowed: boolean): void {
+  localStorage.setItem(SYNTHETIC_DATA_STORAGE_KEY, String(allowed));
+  log.info(`${allowed ? 'Allowed' : 'Disabled'}`);
+}
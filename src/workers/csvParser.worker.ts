@@ -0,0 +1,15 @@
+/**
+ * CSV Parser Web Worker
+ *
+ * Parses large CSV files off the main thread. Receives a CSVSource and parser
+ * options, and posts CSVStreamMessages (progress, batches of markets,
+ * done/error) back.
+ */
+
+import type { CSVParserOptions } from '../utils/csvParser';
+import { runCSVStreamParse, type CSVSource } from '../utils/csvStream';
+
+self.onmessage = (event: MessageEvent<{ source: CSVSource; options?: CSVParserOptions }>) => {
+  const { source, options } = event.data;
+  runCSVStreamParse(source, (message) => self.postMessage(message), options);
+};